@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { abiInterface, diffInterfaces, sourceInterface, type AbiItem } from "./abiDrift.ts";
+
+const SOURCE = `
+pragma solidity ^0.8.24;
+
+interface IToken {
+    function sharesOf(address account) external view returns (uint256);
+}
+
+contract Pool {
+    enum Status { None, Active }
+    struct Request {
+        uint256 shares; // shares to burn
+        bool claimed;
+    }
+
+    IToken public token;
+    uint256 public constant DELAY = 128;
+    mapping(address => Request[]) public requests;
+    mapping(address => uint256) private _hidden;
+
+    event Deposited(address indexed user, uint256 amount);
+    error NotOwner();
+
+    /// @notice "function fake() external" inside a comment is ignored
+    function deposit() external payable returns (uint256 shares) {
+        shares = msg.value;
+    }
+
+    function statusOf(uint256 id) external view returns (Status) {
+        return Status.None;
+    }
+
+    function _internal(uint256 x) internal pure returns (uint256) {
+        return x;
+    }
+}
+`;
+
+const ABI: AbiItem[] = [
+  { type: "error", name: "NotOwner", inputs: [] },
+  {
+    type: "event",
+    name: "Deposited",
+    inputs: [
+      { name: "user", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "function",
+    name: "DELAY",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "deposit",
+    inputs: [],
+    outputs: [{ name: "shares", type: "uint256" }],
+    stateMutability: "payable",
+  },
+  {
+    type: "function",
+    name: "requests",
+    inputs: [
+      { name: "", type: "address" },
+      { name: "", type: "uint256" },
+    ],
+    outputs: [
+      { name: "shares", type: "uint256" },
+      { name: "claimed", type: "bool" },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "statusOf",
+    inputs: [{ name: "id", type: "uint256" }],
+    outputs: [{ name: "", type: "uint8" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "token",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view",
+  },
+];
+
+test("the scanned source matches the ABI solc would emit", () => {
+  assert.deepEqual(diffInterfaces(abiInterface(ABI), sourceInterface(SOURCE, "Pool")), []);
+});
+
+test("missing, extra and changed declarations are all reported", () => {
+  const stale = ABI.filter((item) => item.name !== "NotOwner").map((item) =>
+    item.name === "deposit" ? { ...item, stateMutability: "nonpayable" } : item,
+  );
+  stale.push({ type: "function", name: "removed", inputs: [], stateMutability: "view" });
+
+  const problems = diffInterfaces(abiInterface(stale), sourceInterface(SOURCE, "Pool"));
+  assert.deepEqual(problems, [
+    "missing from ABI: error NotOwner()",
+    "changed: function deposit() payable returns (uint256 shares)\n" +
+      "    (ABI has function deposit() nonpayable returns (uint256 shares))",
+    "not in source: function removed() view",
+  ]);
+});
+
+test("an unknown contract name is an error, not an empty interface", () => {
+  assert.throws(() => sourceInterface(SOURCE, "Missing"), /contract Missing not found/);
+});
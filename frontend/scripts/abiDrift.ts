@@ -0,0 +1,325 @@
+/**
+ * ABI drift detection. A Solidity source is reduced to the interface the
+ * compiler would emit for one contract - external/public functions, public
+ * state getters, events and errors - and compared with the ABI module the
+ * frontend ships. This is a declaration scanner rather than a compiler, so
+ * the check runs in the frontend build without a solc install.
+ */
+
+export interface AbiParameter {
+  name?: string;
+  type: string;
+  indexed?: boolean;
+  components?: readonly AbiParameter[];
+}
+
+export interface AbiItem {
+  type: string;
+  name?: string;
+  inputs?: readonly AbiParameter[];
+  outputs?: readonly AbiParameter[];
+  stateMutability?: string;
+}
+
+/**
+ * Externally visible declarations keyed by kind, name and input types (what
+ * the selector/topic is derived from). Values are the full declaration with
+ * parameter names, mutability and outputs, which bindings also depend on.
+ */
+export type InterfaceMap = Map<string, string>;
+
+// ---------------------------------------------------------------------------
+// ABI side
+
+function abiType(param: AbiParameter): string {
+  if (!param.type.startsWith("tuple")) return param.type;
+  const fields = (param.components ?? []).map(abiParam).join(", ");
+  return `(${fields})${param.type.slice("tuple".length)}`;
+}
+
+function abiParam(param: AbiParameter): string {
+  const type = abiType(param) + (param.indexed ? " indexed" : "");
+  return param.name ? `${type} ${param.name}` : type;
+}
+
+const typesOnly = (params: readonly AbiParameter[]) =>
+  params.map((param) => abiType({ ...param, components: stripNames(param.components) })).join(",");
+
+const stripNames = (params?: readonly AbiParameter[]) =>
+  params?.map((param) => ({ ...param, name: "", indexed: false }));
+
+export function abiInterface(abi: readonly AbiItem[]): InterfaceMap {
+  const map: InterfaceMap = new Map();
+  for (const item of abi) {
+    if (item.type !== "function" && item.type !== "event" && item.type !== "error") continue;
+    const inputs = item.inputs ?? [];
+    const key = `${item.type} ${item.name}(${typesOnly(inputs)})`;
+    let declaration = `${item.type} ${item.name}(${inputs.map(abiParam).join(", ")})`;
+    if (item.type === "function") {
+      declaration += ` ${item.stateMutability}`;
+      const outputs = item.outputs ?? [];
+      if (outputs.length > 0) declaration += ` returns (${outputs.map(abiParam).join(", ")})`;
+    }
+    map.set(key, declaration);
+  }
+  return map;
+}
+
+// ---------------------------------------------------------------------------
+// Source side
+
+/** Blank out comments and string contents, keeping offsets stable. */
+function stripComments(source: string): string {
+  let out = "";
+  for (let i = 0; i < source.length; i++) {
+    const two = source.slice(i, i + 2);
+    if (two === "//") {
+      while (i < source.length && source[i] !== "\n") i++;
+      out += "\n";
+    } else if (two === "/*") {
+      const end = source.indexOf("*/", i + 2);
+      i = end === -1 ? source.length : end + 1;
+      out += " ";
+    } else if (source[i] === '"' || source[i] === "'") {
+      const quote = source[i];
+      out += quote;
+      for (i++; i < source.length && source[i] !== quote; i++) if (source[i] === "\\") i++;
+      out += quote;
+    } else {
+      out += source[i];
+    }
+  }
+  return out;
+}
+
+/** Index just past the brace that closes the one at `open`. */
+function closingBrace(code: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < code.length; i++) {
+    if (code[i] === "{") depth++;
+    else if (code[i] === "}" && --depth === 0) return i + 1;
+  }
+  throw new Error("Unbalanced braces in contract source");
+}
+
+/** Split on `separator` outside of (), [] and {}. */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if ("([{".includes(text[i])) depth++;
+    else if (")]}".includes(text[i])) depth--;
+    else if (text[i] === separator && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/** Contents of the parenthesised group starting at or after `from`. */
+function parenGroup(text: string, from: number): { inner: string; end: number } {
+  const open = text.indexOf("(", from);
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === "(") depth++;
+    else if (text[i] === ")" && --depth === 0) {
+      return { inner: text.slice(open + 1, i), end: i + 1 };
+    }
+  }
+  throw new Error(`Unbalanced parentheses in "${text}"`);
+}
+
+interface SourceTypes {
+  structs: Map<string, { type: string; name: string }[]>;
+  enums: Set<string>;
+  /** Contract/interface names - ABI-encoded as address. */
+  contracts: Set<string>;
+}
+
+interface Member {
+  header: string;
+  body: string | null;
+}
+
+/** Top-level declarations of a contract body, each with its `{}` block if any. */
+function members(body: string): Member[] {
+  const out: Member[] = [];
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === ";") {
+      out.push({ header: body.slice(start, i).trim(), body: null });
+      start = i + 1;
+    } else if (body[i] === "{") {
+      const end = closingBrace(body, i);
+      out.push({ header: body.slice(start, i).trim(), body: body.slice(i + 1, end - 1) });
+      start = i = end;
+      i--;
+    }
+  }
+  return out.filter((member) => member.header);
+}
+
+const DATA_LOCATIONS = new Set(["memory", "calldata", "storage", "payable"]);
+
+function canonicalType(raw: string, types: SourceTypes): string {
+  const match = /^([A-Za-z_][\w.]*)((?:\[\d*\])*)$/.exec(raw.replace(/\s+/g, ""));
+  if (!match) throw new Error(`Unsupported type "${raw}"`);
+  const [, base, arrays] = match;
+  const name = base.split(".").pop() as string;
+  if (name === "uint" || name === "int") return `${name}256${arrays}`;
+  if (/^(u?int\d*|address|bool|string|bytes\d*)$/.test(name)) return name + arrays;
+  if (types.enums.has(name)) return `uint8${arrays}`;
+  if (types.contracts.has(name)) return `address${arrays}`;
+  const fields = types.structs.get(name);
+  if (fields) {
+    const inner = fields.map((field) => sourceParam(field.type, field.name, types)).join(", ");
+    return `(${inner})${arrays}`;
+  }
+  throw new Error(`Unknown type "${raw}"`);
+}
+
+function sourceParam(type: string, name: string, types: SourceTypes, indexed = false): string {
+  const rendered = canonicalType(type, types) + (indexed ? " indexed" : "");
+  return name ? `${rendered} ${name}` : rendered;
+}
+
+/** `uint256 indexed amount` -> { type, name, indexed }. */
+function parseParam(text: string) {
+  const tokens = text.split(/\s+/).filter((token) => !DATA_LOCATIONS.has(token));
+  const indexed = tokens.includes("indexed");
+  const rest = tokens.filter((token) => token !== "indexed");
+  return { type: rest[0], name: rest.length > 1 ? rest[rest.length - 1] : "", indexed };
+}
+
+function paramList(inner: string, types: SourceTypes) {
+  return splitTopLevel(inner, ",")
+    .map(parseParam)
+    .map((param) => sourceParam(param.type, param.name, types, param.indexed))
+    .join(", ");
+}
+
+/** Drop parameter names inside tuple types so keys depend on types only. */
+const keyOf = (declaration: string) =>
+  splitTopLevel(declaration, ",")
+    .map((param) => param.replace(/ indexed/, "").replace(/ \w+$/, ""))
+    .map((type) => type.replace(/ \w+(?=[,)])/g, ""))
+    .join(",");
+
+function mutability(header: string): string {
+  const found = /\b(view|pure|payable)\b/.exec(header.replace(/\breturns\b[\s\S]*$/, ""));
+  return found ? found[1] : "nonpayable";
+}
+
+/**
+ * Inputs and outputs of the getter solc generates for a public state
+ * variable: one input per mapping key or array dimension, and a struct's
+ * members (minus arrays and mappings) as outputs.
+ */
+function getterSignature(type: string, types: SourceTypes) {
+  const inputs: string[] = [];
+  let value = type.replace(/\s+/g, " ").trim();
+  for (;;) {
+    if (value.startsWith("mapping")) {
+      const { inner } = parenGroup(value, 0);
+      const arrow = inner.indexOf("=>");
+      const [keyType, keyName = ""] = inner.slice(0, arrow).trim().split(" ");
+      inputs.push(sourceParam(keyType, keyName, types));
+      value = inner.slice(arrow + 2).trim();
+    } else if (/\[\d*\]$/.test(value)) {
+      inputs.push("uint256");
+      value = value.replace(/\[\d*\]$/, "").trim();
+    } else break;
+  }
+  const fields = types.structs.get(value);
+  const outputs = fields
+    ? fields
+        .filter((field) => !field.type.startsWith("mapping") && !/\]$/.test(field.type))
+        .map((field) => sourceParam(field.type, field.name, types))
+    : [canonicalType(value, types)];
+  return { inputs: inputs.join(", "), outputs: outputs.join(", ") };
+}
+
+const STATE_MODIFIERS = new Set(["public", "constant", "immutable", "override"]);
+
+export function sourceInterface(source: string, contractName: string): InterfaceMap {
+  const code = stripComments(source);
+  const types: SourceTypes = { structs: new Map(), enums: new Set(), contracts: new Set() };
+  for (const match of code.matchAll(/\b(?:contract|interface|library)\s+(\w+)/g)) {
+    types.contracts.add(match[1]);
+  }
+  for (const match of code.matchAll(/\benum\s+(\w+)/g)) types.enums.add(match[1]);
+  for (const match of code.matchAll(/\bstruct\s+(\w+)\s*\{([^}]*)\}/g)) {
+    const fields = splitTopLevel(match[2], ";").map((field) => {
+      const parts = field.trim().split(/\s+/);
+      return { type: parts.slice(0, -1).join(" "), name: parts[parts.length - 1] };
+    });
+    types.structs.set(match[1], fields);
+  }
+
+  const start = new RegExp(`\\bcontract\\s+${contractName}\\b[^{]*\\{`).exec(code);
+  if (!start) throw new Error(`contract ${contractName} not found in source`);
+  const open = start.index + start[0].length - 1;
+  const body = code.slice(open + 1, closingBrace(code, open) - 1);
+
+  const map: InterfaceMap = new Map();
+  for (const { header } of members(body)) {
+    const text = header.replace(/\s+/g, " ");
+    const kind = /^(function|event|error)\s+(\w+)/.exec(text);
+    if (kind) {
+      const [, type, name] = kind;
+      const params = parenGroup(text, 0);
+      const inputs = paramList(params.inner, types);
+      const modifiers = text.slice(params.end);
+      if (type === "function" && !/\b(external|public)\b/.test(modifiers)) continue;
+      let declaration = `${type} ${name}(${inputs})`;
+      if (type === "function") {
+        declaration += ` ${mutability(modifiers)}`;
+        const returns = /\breturns\b/.exec(modifiers);
+        if (returns) {
+          const outputs = paramList(parenGroup(modifiers, returns.index).inner, types);
+          declaration += ` returns (${outputs})`;
+        }
+      }
+      map.set(`${type} ${name}(${keyOf(inputs)})`, declaration);
+      continue;
+    }
+    if (/^(constructor|receive|fallback|modifier|struct|enum|using)\b/.test(text)) continue;
+
+    // State variable: `<type> <modifiers> <name> [= value]`.
+    const declaration = text.split(/=(?!>)/)[0].trim();
+    if (!/\bpublic\b/.test(declaration)) continue;
+    const tokens = declaration.split(" ");
+    const name = tokens[tokens.length - 1];
+    const type = tokens
+      .slice(0, -1)
+      .filter((token) => !STATE_MODIFIERS.has(token))
+      .join(" ");
+    const getter = getterSignature(type, types);
+    map.set(
+      `function ${name}(${keyOf(getter.inputs)})`,
+      `function ${name}(${getter.inputs}) view returns (${getter.outputs})`,
+    );
+  }
+  return map;
+}
+
+// ---------------------------------------------------------------------------
+
+/** Human-readable differences; empty when the ABI matches the source. */
+export function diffInterfaces(abi: InterfaceMap, source: InterfaceMap): string[] {
+  const problems: string[] = [];
+  for (const [key, declaration] of source) {
+    const shipped = abi.get(key);
+    if (shipped === undefined) problems.push(`missing from ABI: ${declaration}`);
+    else if (shipped !== declaration) {
+      problems.push(`changed: ${declaration}\n    (ABI has ${shipped})`);
+    }
+  }
+  for (const [key, declaration] of abi) {
+    if (!source.has(key)) problems.push(`not in source: ${declaration}`);
+  }
+  return problems;
+}
@@ -0,0 +1,108 @@
+/**
+ * Stand-in beacon node for developing the validator page without a qrysm
+ * node at hand.
+ *
+ *   npm run beacon:stub                       serve on http://localhost:3500
+ *   npm run beacon:stub -- --port 4000        serve on another port
+ *
+ * Answers only the /qrl/v1 endpoints the frontend reads (see
+ * src/utils/beaconApi.ts) with made-up but stable data: every pubkey is an
+ * active validator, the head advances one slot a minute, and a fixed pattern
+ * of attestations and proposals is missed. Point VITE_BEACON_API_TESTNET at it.
+ */
+
+import { createServer, type ServerResponse } from "node:http";
+
+const SLOTS_PER_EPOCH = 128n;
+const SLOT_SECONDS = 60n;
+
+const portArg = process.argv.indexOf("--port");
+const port = portArg === -1 ? 3500 : Number(process.argv[portArg + 1]);
+
+const headSlot = () => BigInt(Math.floor(Date.now() / 1000)) / SLOT_SECONDS;
+
+/** Validators the stub knows of, by beacon index. */
+const VALIDATOR_COUNT = 64;
+
+/** A stable validator index per pubkey, from its last hex digits. */
+const indexOf = (pubkey: string) =>
+  String(((parseInt(pubkey.slice(-4), 16) || 0) % VALIDATOR_COUNT) + 1);
+
+const isLive = (epoch: bigint, index: string) => (epoch + BigInt(index)) % 7n !== 0n;
+
+/** One proposal every third epoch; every fifth slot stays empty. */
+const proposerSlot = (epoch: bigint, index: string): bigint | null =>
+  (epoch + BigInt(index)) % 3n === 0n
+    ? epoch * SLOTS_PER_EPOCH + (BigInt(index) % SLOTS_PER_EPOCH)
+    : null;
+const slotHasBlock = (slot: bigint) => slot % 5n !== 0n;
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(JSON.stringify(body));
+}
+
+const header = (slot: bigint) => ({
+  data: { header: { message: { slot: slot.toString() } } },
+});
+
+const server = createServer((req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204, null);
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    const path = new URL(req.url ?? "/", "http://stub").pathname.replace(/^\/qrl\/v1/, "");
+    let match: RegExpMatchArray | null;
+
+    if (path === "/config/spec") {
+      return send(res, 200, { data: { SLOTS_PER_EPOCH: SLOTS_PER_EPOCH.toString() } });
+    }
+    if (path === "/beacon/headers/head") return send(res, 200, header(headSlot()));
+    if ((match = path.match(/^\/beacon\/headers\/(\d+)$/))) {
+      const slot = BigInt(match[1]);
+      return slotHasBlock(slot) && slot <= headSlot()
+        ? send(res, 200, header(slot))
+        : send(res, 404, { code: 404, message: "Could not find requested block" });
+    }
+    if ((match = path.match(/^\/beacon\/states\/head\/validators\/(0x[0-9a-fA-F]+)$/))) {
+      return send(res, 200, {
+        data: {
+          index: indexOf(match[1]),
+          status: "active_ongoing",
+          balance: "40000731254090",
+          validator: {
+            pubkey: match[1],
+            effective_balance: "40000000000000",
+            slashed: false,
+            activation_epoch: "0",
+          },
+        },
+      });
+    }
+    if ((match = path.match(/^\/validator\/liveness\/(\d+)$/))) {
+      const epoch = BigInt(match[1]);
+      const indices = JSON.parse(body || "[]") as string[];
+      return send(res, 200, {
+        data: indices.map((index) => ({ index, is_live: isLive(epoch, index) })),
+      });
+    }
+    if ((match = path.match(/^\/validator\/duties\/proposer\/(\d+)$/))) {
+      const epoch = BigInt(match[1]);
+      const indices = Array.from({ length: VALIDATOR_COUNT }, (_, i) => String(i + 1));
+      const data = indices.flatMap((index) => {
+        const slot = proposerSlot(epoch, index);
+        return slot === null ? [] : [{ validator_index: index, slot: slot.toString() }];
+      });
+      return send(res, 200, { data });
+    }
+    send(res, 404, { code: 404, message: `No stub for ${path}` });
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Beacon API stub on http://localhost:${port}`);
+});
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { renderBindings, tsType } from "./bindings.ts";
+
+test("ABI types map to what web3 decodes", () => {
+  assert.equal(tsType({ type: "uint256" }), "bigint");
+  assert.equal(tsType({ type: "address[]" }), "string[]");
+  assert.equal(tsType({ type: "bytes32" }), "string");
+  assert.equal(
+    tsType({
+      type: "tuple[]",
+      components: [
+        { name: "id", type: "uint8" },
+        { name: "ok", type: "bool" },
+      ],
+    }),
+    "{ id: bigint; ok: boolean }[]",
+  );
+});
+
+test("functions are split into reads and writes, with events and errors", () => {
+  const source = renderBindings([
+    {
+      key: "pool",
+      name: "Pool",
+      abi: [
+        { type: "constructor", inputs: [] },
+        { type: "error", name: "NotOwner", inputs: [] },
+        { type: "event", name: "Paused", inputs: [{ name: "account", type: "address" }] },
+        {
+          type: "function",
+          name: "counts",
+          inputs: [{ name: "user", type: "address" }],
+          outputs: [
+            { name: "total", type: "uint256" },
+            { name: "pending", type: "uint256" },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "deposit",
+          inputs: [],
+          outputs: [{ name: "shares", type: "uint256" }],
+          stateMutability: "payable",
+        },
+      ],
+    },
+  ]);
+
+  assert.match(source, /^\/\/ Generated by `npm run codegen`/);
+  assert.match(
+    source,
+    /counts: \{ args: \[user: string\]; returns: \{ total: bigint; pending: bigint \} \};/,
+  );
+  assert.match(source, /deposit: \{ args: \[\]; returns: bigint; payable: true \};/);
+  assert.match(source, /Paused: \{ account: string \};/);
+  assert.match(source, /NotOwner: \[\];/);
+  assert.match(source, / {2}pool: \{\n {4}reads: PoolReads;/);
+});
+
+test("overloaded functions are rejected rather than silently merged", () => {
+  const transfer = { type: "function", name: "transfer", stateMutability: "nonpayable" };
+  assert.throws(
+    () =>
+      renderBindings([
+        {
+          key: "token",
+          name: "Token",
+          abi: [
+            { ...transfer, inputs: [{ name: "to", type: "address" }] },
+            { ...transfer, inputs: [] },
+          ],
+        },
+      ]),
+    /overloaded function transfer/,
+  );
+});
@@ -0,0 +1,118 @@
+/**
+ * Renders `src/abi/bindings.ts`: per-contract read, write, event and error
+ * types derived from the ABI modules. Types follow what @theqrl/web3
+ * decodes to - integers as bigint, addresses and bytes as hex strings.
+ */
+
+import type { AbiItem, AbiParameter } from "./abiDrift.ts";
+
+export interface BindingSource {
+  /** Key the app uses for the contract (`NetworkConfig.contracts`). */
+  key: string;
+  /** ABI module name; types are prefixed with it. */
+  name: string;
+  abi: readonly AbiItem[];
+}
+
+/** Inline object types up to this width; the member name in front takes the rest of a line. */
+const INLINE_WIDTH = 80;
+
+export const GENERATED_HEADER = [
+  "// Generated by `npm run codegen` from the ABI modules in this directory.",
+  "// Do not edit: `npm run build` fails when this file is out of date.",
+].join("\n");
+
+/** TypeScript type of a decoded value (or an accepted argument). */
+export function tsType(param: AbiParameter, indent = ""): string {
+  const arrays = /(\[\d*\])*$/.exec(param.type)?.[0] ?? "";
+  const base = param.type.slice(0, param.type.length - arrays.length);
+  let type: string;
+  if (base === "tuple") {
+    const fields = (param.components ?? []).map(
+      (component, i) => `${component.name || i}: ${tsType(component, indent + "  ")}`,
+    );
+    type = objectType(fields, indent);
+  } else if (/^u?int\d*$/.test(base)) type = "bigint";
+  else if (base === "bool") type = "boolean";
+  else if (base === "address" || base === "string" || base.startsWith("bytes")) type = "string";
+  else throw new Error(`Unsupported ABI type ${param.type}`);
+  return type + "[]".repeat(arrays.split("[").length - 1);
+}
+
+/** `{ a: T; b: U }` when it fits on one line, otherwise one field per line. */
+function objectType(fields: string[], indent: string): string {
+  if (fields.length === 0) return "Record<string, never>";
+  const inline = `{ ${fields.join("; ")} }`;
+  if (indent.length + inline.length <= INLINE_WIDTH && !inline.includes("\n")) return inline;
+  return `{\n${fields.map((field) => `${indent}  ${field};`).join("\n")}\n${indent}}`;
+}
+
+function argsType(inputs: readonly AbiParameter[], indent: string): string {
+  const labels = inputs.map((input, i) => `${input.name || `arg${i}`}: ${tsType(input, indent)}`);
+  return `[${labels.join(", ")}]`;
+}
+
+/** Single outputs decode to the bare value, several to their named fields. */
+function returnsType(outputs: readonly AbiParameter[], indent: string): string {
+  if (outputs.length === 0) return "void";
+  if (outputs.length === 1) return tsType(outputs[0], indent);
+  return tsType({ type: "tuple", components: outputs }, indent);
+}
+
+function renderInterface(name: string, members: [string, string][]): string {
+  const body = members.map(([member, type]) => `  ${member}: ${type};`).join("\n");
+  return members.length === 0
+    ? `export type ${name} = Record<string, never>;`
+    : `export interface ${name} {\n${body}\n}`;
+}
+
+function renderContract({ name, abi }: BindingSource): string {
+  const seen = new Set<string>();
+  const reads: [string, string][] = [];
+  const writes: [string, string][] = [];
+  const events: [string, string][] = [];
+  const errors: [string, string][] = [];
+
+  for (const item of abi) {
+    if (!item.name || !["function", "event", "error"].includes(item.type)) continue;
+    const id = `${item.type} ${item.name}`;
+    // Overloads would need positional disambiguation; none of the contracts use them.
+    if (seen.has(id)) throw new Error(`${name}: overloaded ${id} is not supported`);
+    seen.add(id);
+
+    const inputs = item.inputs ?? [];
+    if (item.type === "event") {
+      events.push([item.name, tsType({ type: "tuple", components: inputs }, "  ")]);
+    } else if (item.type === "error") {
+      errors.push([item.name, argsType(inputs, "  ")]);
+    } else {
+      const readOnly = item.stateMutability === "view" || item.stateMutability === "pure";
+      const fields = [
+        `args: ${argsType(inputs, "    ")}`,
+        `returns: ${returnsType(item.outputs ?? [], "    ")}`,
+      ];
+      if (!readOnly) fields.push(`payable: ${item.stateMutability === "payable"}`);
+      (readOnly ? reads : writes).push([item.name, objectType(fields, "  ")]);
+    }
+  }
+
+  return [
+    renderInterface(`${name}Reads`, reads),
+    renderInterface(`${name}Writes`, writes),
+    `/** Decoded \`returnValues\` per event. */\n${renderInterface(`${name}Events`, events)}`,
+    `/** Arguments per custom error. */\n${renderInterface(`${name}Errors`, errors)}`,
+  ].join("\n\n");
+}
+
+export function renderBindings(contracts: readonly BindingSource[]): string {
+  const index = contracts.map(
+    ({ key, name }) =>
+      `  ${key}: {\n    reads: ${name}Reads;\n    writes: ${name}Writes;\n` +
+      `    events: ${name}Events;\n    errors: ${name}Errors;\n  };`,
+  );
+  return [
+    GENERATED_HEADER,
+    ...contracts.map(renderContract),
+    `export interface ContractBindings {\n${index.join("\n")}\n}`,
+  ].join("\n\n") + "\n";
+}
@@ -0,0 +1,98 @@
+/**
+ * Contract binding generator.
+ *
+ *   npm run codegen                           regenerate src/abi/bindings.ts
+ *   npm run codegen -- --artifacts ../artifacts
+ *                                             refresh the ABI modules from
+ *                                             `node scripts/compile.js` output first
+ *   npm run codegen:check                     fail if bindings are stale or an
+ *                                             ABI module drifted from contracts/
+ *
+ * Every mode compares the ABI modules with the Solidity sources and exits
+ * non-zero on drift, so the build never ships bindings for a stale ABI.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { abiInterface, diffInterfaces, sourceInterface, type AbiItem } from "./abiDrift.ts";
+import { renderBindings } from "./bindings.ts";
+
+const frontendDir = join(import.meta.dirname, "..");
+const abiDir = join(frontendDir, "src", "abi");
+const sourceDir = join(frontendDir, "..", "contracts", "solidity");
+const bindingsPath = join(abiDir, "bindings.ts");
+
+/** ABI module, Solidity source and contract name per `NetworkConfig.contracts` key. */
+const CONTRACTS = [
+  {
+    key: "depositPool",
+    module: "DepositPoolV2",
+    source: "DepositPool-v2",
+    contract: "DepositPoolV2",
+  },
+  { key: "stQRL", module: "StQRLV2", source: "stQRL-v2", contract: "stQRLv2" },
+  {
+    key: "validatorManager",
+    module: "ValidatorManager",
+    source: "ValidatorManager",
+    contract: "ValidatorManager",
+  },
+];
+
+const modulePath = (module: string) => join(abiDir, `${module}.ts`);
+
+/** ABI modules are `export const <Name>ABI = [...] as const;` with the JSON verbatim. */
+function readAbiModule(module: string): AbiItem[] {
+  const text = readFileSync(modulePath(module), "utf8");
+  return JSON.parse(text.slice(text.indexOf("["), text.lastIndexOf("]") + 1)) as AbiItem[];
+}
+
+function writeAbiModule(module: string, abi: readonly AbiItem[]): void {
+  const json = JSON.stringify(abi, null, 2);
+  writeFileSync(modulePath(module), `export const ${module}ABI = ${json} as const;\n`);
+}
+
+const args = process.argv.slice(2);
+const check = args.includes("--check");
+const artifactsFlag = args.indexOf("--artifacts");
+const artifactsDir = artifactsFlag === -1 ? null : args[artifactsFlag + 1];
+let failed = false;
+
+if (artifactsDir) {
+  for (const { module, source } of CONTRACTS) {
+    const artifact = join(artifactsDir, `${source}.json`);
+    if (!existsSync(artifact)) {
+      console.error(`No artifact at ${artifact} - run \`node scripts/compile.js\` first`);
+      process.exit(1);
+    }
+    writeAbiModule(module, (JSON.parse(readFileSync(artifact, "utf8")) as { abi: AbiItem[] }).abi);
+    console.log(`Updated src/abi/${module}.ts from ${artifact}`);
+  }
+}
+
+const sources = CONTRACTS.map(({ key, module, source, contract }) => {
+  const abi = readAbiModule(module);
+  const solidity = readFileSync(join(sourceDir, `${source}.sol`), "utf8");
+  const declared = sourceInterface(solidity, contract);
+  const problems = diffInterfaces(abiInterface(abi), declared);
+  if (problems.length > 0) {
+    failed = true;
+    console.error(`src/abi/${module}.ts does not match contracts/solidity/${source}.sol:`);
+    for (const problem of problems) console.error(`  ${problem}`);
+  }
+  return { key, name: module, abi };
+});
+
+const rendered = renderBindings(sources);
+const current = existsSync(bindingsPath) ? readFileSync(bindingsPath, "utf8") : null;
+if (check) {
+  if (rendered !== current) {
+    failed = true;
+    console.error("src/abi/bindings.ts is out of date - run `npm run codegen`");
+  }
+} else if (rendered !== current) {
+  writeFileSync(bindingsPath, rendered);
+  console.log("Wrote src/abi/bindings.ts");
+}
+
+if (failed) process.exit(1);
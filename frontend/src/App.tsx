@@ -5,44 +5,75 @@ import { AlertTriangle, X } from "lucide-react";
 import { Header } from "@/components/Layout/Header";
 import { Footer } from "@/components/Layout/Footer";
 import { TxBanner } from "@/components/TxBanner";
+import { RecentTxDrawer } from "@/components/RecentTxDrawer";
 import { WalletPickerModal } from "@/components/WalletPickerModal";
 import { QrPairModal } from "@/components/QrPairModal";
 import { RouteSeo } from "@/components/RouteSeo";
 import { StakePage } from "@/pages/StakePage";
 import { WithdrawalsPage } from "@/pages/WithdrawalsPage";
+import { PortfolioPage } from "@/pages/PortfolioPage";
 import { StatsPage } from "@/pages/StatsPage";
+import { ValidatorsPage } from "@/pages/ValidatorsPage";
+import { ValidatorDetailPage } from "@/pages/ValidatorDetailPage";
+import { AdminPage } from "@/pages/AdminPage";
+import { ValidatorOperationsPage } from "@/pages/ValidatorOperationsPage";
 import { HowItWorksPage } from "@/pages/HowItWorksPage";
 import { LegalPage } from "@/pages/LegalPage";
 import { useStore } from "@/stores/store";
 
 const App = observer(() => {
-  const { poolStore } = useStore();
+  const rootStore = useStore();
+  const { walletStore, networkStore, protocolStore } = rootStore;
 
   useEffect(() => {
-    void poolStore.init();
-  }, [poolStore]);
+    void rootStore.init();
+  }, [rootStore]);
 
   return (
     <BrowserRouter>
       <RouteSeo />
       <Header />
 
-      {poolStore.rpcError && (
+      {protocolStore.rpcError && (
         <div className="border-b border-destructive/40 bg-destructive/10">
           <div className="mx-auto flex max-w-5xl items-center gap-2 px-4 py-2 text-sm text-destructive">
             <AlertTriangle className="h-4 w-4 shrink-0" />
-            Could not reach the QRL network: {poolStore.rpcError}
+            Could not reach the QRL network: {protocolStore.rpcError}
           </div>
         </div>
       )}
 
-      {poolStore.connectError && (
+      {!networkStore.deployed && (
         <div className="border-b border-secondary/40 bg-secondary/10">
           <div className="mx-auto flex max-w-5xl items-center gap-2 px-4 py-2 text-sm text-secondary">
             <AlertTriangle className="h-4 w-4 shrink-0" />
-            <span className="flex-1">{poolStore.connectError}</span>
+            <span className="flex-1">
+              QuantaPool is not deployed on {networkStore.network.name} yet. Switch networks in the
+              header to stake.
+            </span>
+          </div>
+        </div>
+      )}
+
+      {networkStore.deployed && networkStore.walletOnOtherChain && (
+        <div className="border-b border-secondary/40 bg-secondary/10">
+          <div className="mx-auto flex max-w-5xl items-center gap-2 px-4 py-2 text-sm text-secondary">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            <span className="flex-1">
+              Your wallet is connected to a different network than {networkStore.network.name}.
+              Switch networks in your wallet before sending transactions.
+            </span>
+          </div>
+        </div>
+      )}
+
+      {walletStore.connectError && (
+        <div className="border-b border-secondary/40 bg-secondary/10">
+          <div className="mx-auto flex max-w-5xl items-center gap-2 px-4 py-2 text-sm text-secondary">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            <span className="flex-1">{walletStore.connectError}</span>
             <button
-              onClick={() => poolStore.dismissConnectError()}
+              onClick={() => walletStore.dismissConnectError()}
               className="cursor-pointer hover:text-foreground"
               aria-label="Dismiss"
             >
@@ -56,7 +87,12 @@ const App = observer(() => {
         <Routes>
           <Route path="/" element={<StakePage />} />
           <Route path="/withdrawals" element={<WithdrawalsPage />} />
+          <Route path="/portfolio" element={<PortfolioPage />} />
+          <Route path="/validators" element={<ValidatorsPage />} />
+          <Route path="/validators/:id" element={<ValidatorDetailPage />} />
           <Route path="/stats" element={<StatsPage />} />
+          <Route path="/admin" element={<AdminPage />} />
+          <Route path="/admin/validators" element={<ValidatorOperationsPage />} />
           <Route path="/how-it-works" element={<HowItWorksPage />} />
           <Route path="/legal" element={<LegalPage />} />
           <Route path="*" element={<StakePage />} />
@@ -65,6 +101,7 @@ const App = observer(() => {
 
       <Footer />
       <TxBanner />
+      <RecentTxDrawer />
       <WalletPickerModal />
       <QrPairModal />
     </BrowserRouter>
@@ -4,6 +4,11 @@ export const DepositPoolV2ABI = [
     "stateMutability": "nonpayable",
     "type": "constructor"
   },
+  {
+    "inputs": [],
+    "name": "AccountingNotSettled",
+    "type": "error"
+  },
   {
     "inputs": [],
     "name": "BelowAbsoluteMin",
@@ -29,6 +34,11 @@ export const DepositPoolV2ABI = [
     "name": "ExceedsRecoverableAmount",
     "type": "error"
   },
+  {
+    "inputs": [],
+    "name": "ExceedsStakedAmount",
+    "type": "error"
+  },
   {
     "inputs": [],
     "name": "InsufficientBuffer",
@@ -292,6 +302,25 @@ export const DepositPoolV2ABI = [
     "name": "Unpaused",
     "type": "event"
   },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "remainingStaked",
+        "type": "uint256"
+      }
+    ],
+    "name": "ValidatorExitRecorded",
+    "type": "event"
+  },
   {
     "anonymous": false,
     "inputs": [
@@ -411,6 +440,25 @@ export const DepositPoolV2ABI = [
     "name": "WithdrawalReserveFunded",
     "type": "event"
   },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "bufferRestored",
+        "type": "uint256"
+      }
+    ],
+    "name": "WithdrawalReserveReleased",
+    "type": "event"
+  },
   {
     "inputs": [],
     "name": "ABSOLUTE_MIN_DEPOSIT",
@@ -476,6 +524,19 @@ export const DepositPoolV2ABI = [
     "stateMutability": "view",
     "type": "function"
   },
+  {
+    "inputs": [],
+    "name": "bufferedQRLInReserve",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
   {
     "inputs": [],
     "name": "canFundValidator",
@@ -865,6 +926,32 @@ export const DepositPoolV2ABI = [
     "stateMutability": "view",
     "type": "function"
   },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      }
+    ],
+    "name": "recordValidatorExit",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      }
+    ],
+    "name": "releaseWithdrawalReserve",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
   {
     "inputs": [
       {
@@ -941,6 +1028,19 @@ export const DepositPoolV2ABI = [
     "stateMutability": "view",
     "type": "function"
   },
+  {
+    "inputs": [],
+    "name": "stakedQRL",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
   {
     "inputs": [],
     "name": "syncRewards",
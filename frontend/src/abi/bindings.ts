@@ -0,0 +1,321 @@
+// Generated by `npm run codegen` from the ABI modules in this directory.
+// Do not edit: `npm run build` fails when this file is out of date.
+
+export interface DepositPoolV2Reads {
+  ABSOLUTE_MIN_DEPOSIT: { args: []; returns: bigint };
+  DEPOSIT_CONTRACT: { args: []; returns: string };
+  VALIDATOR_STAKE: { args: []; returns: bigint };
+  WITHDRAWAL_DELAY: { args: []; returns: bigint };
+  bufferedQRL: { args: []; returns: bigint };
+  bufferedQRLInReserve: { args: []; returns: bigint };
+  canFundValidator: { args: []; returns: { possible: boolean; bufferedAmount: bigint } };
+  getPoolStatus: {
+    args: [];
+    returns: {
+      totalPooled: bigint;
+      totalShares: bigint;
+      buffered: bigint;
+      validators: bigint;
+      pendingWithdrawalShares: bigint;
+      reserveBalance: bigint;
+      exchangeRate: bigint;
+    };
+  };
+  getRewardStats: {
+    args: [];
+    returns: {
+      totalRewards: bigint;
+      totalSlashing: bigint;
+      netRewards: bigint;
+      lastSync: bigint;
+    };
+  };
+  getWithdrawalRequest: {
+    args: [user: string, requestId: bigint];
+    returns: {
+      shares: bigint;
+      currentQRLValue: bigint;
+      requestBlock: bigint;
+      canClaim: boolean;
+      blocksRemaining: bigint;
+      claimed: boolean;
+    };
+  };
+  getWithdrawalRequestCount: { args: [user: string]; returns: { total: bigint; pending: bigint } };
+  lastSyncBlock: { args: []; returns: bigint };
+  minDeposit: { args: []; returns: bigint };
+  minDepositFloor: { args: []; returns: bigint };
+  nextWithdrawalIndex: { args: [arg0: string]; returns: bigint };
+  owner: { args: []; returns: string };
+  paused: { args: []; returns: boolean };
+  previewDeposit: { args: [qrlAmount: bigint]; returns: bigint };
+  stQRL: { args: []; returns: string };
+  stakedQRL: { args: []; returns: bigint };
+  totalRewardsReceived: { args: []; returns: bigint };
+  totalSlashingLosses: { args: []; returns: bigint };
+  totalWithdrawalShares: { args: []; returns: bigint };
+  validatorCount: { args: []; returns: bigint };
+  withdrawalRequests: {
+    args: [arg0: string, arg1: bigint];
+    returns: {
+      shares: bigint;
+      qrlAmount: bigint;
+      requestBlock: bigint;
+      claimed: boolean;
+    };
+  };
+  withdrawalReserve: { args: []; returns: bigint };
+}
+
+export interface DepositPoolV2Writes {
+  cancelWithdrawal: { args: [requestId: bigint]; returns: void; payable: false };
+  claimWithdrawal: { args: []; returns: bigint; payable: false };
+  deposit: { args: []; returns: bigint; payable: true };
+  emergencyWithdraw: { args: [to: string, amount: bigint]; returns: void; payable: false };
+  fundValidator: {
+    args: [pubkey: string, withdrawal_credentials: string, signature: string, deposit_data_root: string];
+    returns: bigint;
+    payable: false;
+  };
+  fundValidatorMVP: { args: []; returns: bigint; payable: false };
+  fundWithdrawalReserve: { args: [amount: bigint]; returns: void; payable: false };
+  pause: { args: []; returns: void; payable: false };
+  recordValidatorExit: { args: [amount: bigint]; returns: void; payable: false };
+  releaseWithdrawalReserve: { args: [amount: bigint]; returns: void; payable: false };
+  requestWithdrawal: {
+    args: [shares: bigint];
+    returns: { requestId: bigint; qrlAmount: bigint };
+    payable: false;
+  };
+  setMinDeposit: { args: [_minDeposit: bigint]; returns: void; payable: false };
+  setMinDepositFloor: { args: [_floor: bigint]; returns: void; payable: false };
+  setStQRL: { args: [_stQRL: string]; returns: void; payable: false };
+  syncRewards: { args: []; returns: void; payable: false };
+  transferOwnership: { args: [newOwner: string]; returns: void; payable: false };
+  unpause: { args: []; returns: void; payable: false };
+}
+
+/** Decoded `returnValues` per event. */
+export interface DepositPoolV2Events {
+  Deposited: { user: string; qrlAmount: bigint; sharesReceived: bigint };
+  EmergencyWithdrawal: { to: string; amount: bigint };
+  MinDepositFloorUpdated: { newFloor: bigint };
+  MinDepositUpdated: { newMinDeposit: bigint };
+  OwnershipTransferred: { previousOwner: string; newOwner: string };
+  Paused: { account: string };
+  RewardsSynced: { rewardsAmount: bigint; newTotalPooled: bigint; blockNumber: bigint };
+  SlashingDetected: { lossAmount: bigint; newTotalPooled: bigint; blockNumber: bigint };
+  StQRLSet: { stQRL: string };
+  Unpaused: { account: string };
+  ValidatorExitRecorded: { amount: bigint; remainingStaked: bigint };
+  ValidatorFunded: { validatorId: bigint; pubkey: string; amount: bigint };
+  WithdrawalCancelled: { user: string; requestId: bigint; shares: bigint };
+  WithdrawalClaimed: { user: string; shares: bigint; qrlAmount: bigint };
+  WithdrawalRequested: { user: string; shares: bigint; qrlAmount: bigint; requestBlock: bigint };
+  WithdrawalReserveFunded: { amount: bigint };
+  WithdrawalReserveReleased: { amount: bigint; bufferRestored: bigint };
+}
+
+/** Arguments per custom error. */
+export interface DepositPoolV2Errors {
+  AccountingNotSettled: [];
+  BelowAbsoluteMin: [];
+  BelowMinDeposit: [];
+  BelowMinDepositFloor: [];
+  ContractPaused: [];
+  ExceedsRecoverableAmount: [];
+  ExceedsStakedAmount: [];
+  InsufficientBuffer: [];
+  InsufficientReserve: [];
+  InsufficientShares: [];
+  InvalidCredentialsLength: [];
+  InvalidPubkeyLength: [];
+  InvalidSignatureLength: [];
+  InvalidWithdrawalCredentials: [];
+  InvalidWithdrawalIndex: [];
+  NoWithdrawalPending: [];
+  NotOwner: [];
+  ReentrancyGuard: [];
+  StQRLAlreadySet: [];
+  StQRLNotSet: [];
+  TransferFailed: [];
+  WithdrawalNotReady: [];
+  ZeroAddress: [];
+  ZeroAmount: [];
+}
+
+export interface StQRLV2Reads {
+  MAX_MIN_STAKE_BLOCKS: { args: []; returns: bigint };
+  allowance: { args: [_owner: string, spender: string]; returns: bigint };
+  balanceOf: { args: [account: string]; returns: bigint };
+  decimals: { args: []; returns: bigint };
+  depositPool: { args: []; returns: string };
+  getExchangeRate: { args: []; returns: bigint };
+  getPooledQRLByShares: { args: [sharesAmount: bigint]; returns: bigint };
+  getQRLValue: { args: [account: string]; returns: bigint };
+  getSharesByPooledQRL: { args: [qrlAmount: bigint]; returns: bigint };
+  immatureSharesOf: { args: [account: string]; returns: bigint };
+  lockedSharesOf: { args: [account: string]; returns: bigint };
+  matureAtBlockOf: { args: [account: string]; returns: bigint };
+  minStakeBlocks: { args: []; returns: bigint };
+  name: { args: []; returns: string };
+  owner: { args: []; returns: string };
+  paused: { args: []; returns: boolean };
+  sharesOf: { args: [account: string]; returns: bigint };
+  symbol: { args: []; returns: string };
+  totalPooledQRL: { args: []; returns: bigint };
+  totalShares: { args: []; returns: bigint };
+  totalSupply: { args: []; returns: bigint };
+}
+
+export interface StQRLV2Writes {
+  approve: { args: [spender: string, amount: bigint]; returns: boolean; payable: false };
+  burnShares: {
+    args: [from: string, sharesAmount: bigint];
+    returns: bigint;
+    payable: false;
+  };
+  lockShares: {
+    args: [account: string, sharesAmount: bigint];
+    returns: void;
+    payable: false;
+  };
+  mintShares: { args: [to: string, qrlAmount: bigint]; returns: bigint; payable: false };
+  pause: { args: []; returns: void; payable: false };
+  renounceOwnership: { args: []; returns: void; payable: false };
+  setDepositPool: { args: [_depositPool: string]; returns: void; payable: false };
+  setMinStakeBlocks: { args: [_minStakeBlocks: bigint]; returns: void; payable: false };
+  transfer: { args: [to: string, amount: bigint]; returns: boolean; payable: false };
+  transferFrom: {
+    args: [from: string, to: string, amount: bigint];
+    returns: boolean;
+    payable: false;
+  };
+  transferOwnership: { args: [newOwner: string]; returns: void; payable: false };
+  unlockShares: {
+    args: [account: string, sharesAmount: bigint];
+    returns: void;
+    payable: false;
+  };
+  unpause: { args: []; returns: void; payable: false };
+  updateTotalPooledQRL: { args: [newTotalPooledQRL: bigint]; returns: void; payable: false };
+}
+
+/** Decoded `returnValues` per event. */
+export interface StQRLV2Events {
+  Approval: { owner: string; spender: string; value: bigint };
+  DepositPoolSet: { previousPool: string; newPool: string };
+  MinStakeBlocksUpdated: { previousValue: bigint; newValue: bigint };
+  OwnershipTransferred: { previousOwner: string; newOwner: string };
+  Paused: { account: string };
+  SharesBurned: { from: string; sharesAmount: bigint; qrlAmount: bigint };
+  SharesMinted: { to: string; sharesAmount: bigint; qrlAmount: bigint };
+  TotalPooledQRLUpdated: { previousAmount: bigint; newAmount: bigint };
+  Transfer: { from: string; to: string; value: bigint };
+  Unpaused: { account: string };
+}
+
+/** Arguments per custom error. */
+export interface StQRLV2Errors {
+  ContractPaused: [];
+  DepositPoolAlreadySet: [];
+  InsufficientAllowance: [];
+  InsufficientBalance: [];
+  InsufficientMaturedShares: [];
+  InsufficientUnlockedShares: [];
+  MinStakeBlocksTooHigh: [];
+  NotDepositPool: [];
+  NotOwner: [];
+  ZeroAddress: [];
+  ZeroAmount: [];
+}
+
+export interface ValidatorManagerReads {
+  VALIDATOR_STAKE: { args: []; returns: bigint };
+  activeValidatorCount: { args: []; returns: bigint };
+  depositPool: { args: []; returns: string };
+  getStats: {
+    args: [];
+    returns: { total: bigint; pending: bigint; active: bigint; totalStaked: bigint };
+  };
+  getValidator: {
+    args: [validatorId: bigint];
+    returns: {
+      pubkey: string;
+      status: bigint;
+      activatedBlock: bigint;
+      exitedBlock: bigint;
+    };
+  };
+  getValidatorIdByPubkey: { args: [pubkey: string]; returns: bigint };
+  getValidatorStatus: { args: [pubkey: string]; returns: bigint };
+  getValidatorsByStatus: { args: [status: bigint]; returns: bigint[] };
+  owner: { args: []; returns: string };
+  pendingValidatorCount: { args: []; returns: bigint };
+  pubkeyToIndex: { args: [arg0: string]; returns: bigint };
+  totalValidators: { args: []; returns: bigint };
+  validators: {
+    args: [arg0: bigint];
+    returns: {
+      pubkey: string;
+      status: bigint;
+      activatedBlock: bigint;
+      exitedBlock: bigint;
+    };
+  };
+}
+
+export interface ValidatorManagerWrites {
+  activateValidator: { args: [validatorId: bigint]; returns: void; payable: false };
+  batchActivateValidators: { args: [validatorIds: bigint[]]; returns: void; payable: false };
+  markValidatorExited: { args: [validatorId: bigint]; returns: void; payable: false };
+  markValidatorSlashed: { args: [validatorId: bigint]; returns: void; payable: false };
+  registerValidator: { args: [pubkey: string]; returns: bigint; payable: false };
+  requestValidatorExit: { args: [validatorId: bigint]; returns: void; payable: false };
+  setDepositPool: { args: [_depositPool: string]; returns: void; payable: false };
+  transferOwnership: { args: [newOwner: string]; returns: void; payable: false };
+}
+
+/** Decoded `returnValues` per event. */
+export interface ValidatorManagerEvents {
+  DepositPoolSet: { depositPool: string };
+  OwnershipTransferred: { previousOwner: string; newOwner: string };
+  ValidatorActivated: { validatorId: bigint; activatedBlock: bigint };
+  ValidatorExitRequested: { validatorId: bigint; requestBlock: bigint };
+  ValidatorExited: { validatorId: bigint; exitedBlock: bigint };
+  ValidatorRegistered: { validatorId: bigint; pubkey: string; status: bigint };
+  ValidatorSlashed: { validatorId: bigint; slashedBlock: bigint };
+}
+
+/** Arguments per custom error. */
+export interface ValidatorManagerErrors {
+  InvalidPubkeyLength: [];
+  InvalidStatusTransition: [];
+  NotAuthorized: [];
+  NotDepositPool: [];
+  NotOwner: [];
+  ValidatorAlreadyExists: [];
+  ValidatorNotFound: [];
+  ZeroAddress: [];
+}
+
+export interface ContractBindings {
+  depositPool: {
+    reads: DepositPoolV2Reads;
+    writes: DepositPoolV2Writes;
+    events: DepositPoolV2Events;
+    errors: DepositPoolV2Errors;
+  };
+  stQRL: {
+    reads: StQRLV2Reads;
+    writes: StQRLV2Writes;
+    events: StQRLV2Events;
+    errors: StQRLV2Errors;
+  };
+  validatorManager: {
+    reads: ValidatorManagerReads;
+    writes: ValidatorManagerWrites;
+    events: ValidatorManagerEvents;
+    errors: ValidatorManagerErrors;
+  };
+}
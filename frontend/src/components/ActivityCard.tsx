@@ -1,8 +1,17 @@
+import { useState } from "react";
 import { observer } from "mobx-react-lite";
-import { ArrowDownToLine, ArrowUpFromLine, Clock, ExternalLink, Undo2 } from "lucide-react";
+import {
+  ArrowDownToLine,
+  ArrowUpFromLine,
+  Clock,
+  Download,
+  ExternalLink,
+  Undo2,
+} from "lucide-react";
+import { ExportModal } from "@/components/ExportModal";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/UI/Card";
 import { useStore } from "@/stores/store";
-import type { ActivityType } from "@/stores/poolStore";
+import type { ActivityType } from "@/stores/protocolStore";
 import { getExplorerAddressUrl, getExplorerTxUrl, NATIVE_UNIT } from "@/config/networks";
 import { formatAmount } from "@/utils/format";
 
@@ -20,31 +29,40 @@ const MAX_ROWS = 8;
 
 /** The connected account's staking history, sourced from DepositPool events. */
 export const ActivityCard = observer(() => {
-  const { poolStore } = useStore();
-  const account = poolStore.account;
+  const { protocolStore } = useStore();
+  const [exporting, setExporting] = useState(false);
+  const account = protocolStore.account;
   if (!account) return null;
 
-  const rows = poolStore.activity.slice(0, MAX_ROWS);
+  const rows = protocolStore.activity.slice(0, MAX_ROWS);
 
   return (
     <Card>
       <CardHeader className="pb-2">
         <div className="flex items-center justify-between">
           <CardTitle className="text-base">Your staking activity</CardTitle>
-          <a
-            href={getExplorerAddressUrl(account.address)}
-            target="_blank"
-            rel="noreferrer"
-            className="inline-flex items-center gap-1 text-xs text-blue-accent hover:underline"
-          >
-            View on Zondscan <ExternalLink className="h-3 w-3" />
-          </a>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setExporting(true)}
+              className="inline-flex items-center gap-1 text-xs text-blue-accent hover:underline"
+            >
+              Export <Download className="h-3 w-3" />
+            </button>
+            <a
+              href={getExplorerAddressUrl(protocolStore.network, account.address)}
+              target="_blank"
+              rel="noreferrer"
+              className="inline-flex items-center gap-1 text-xs text-blue-accent hover:underline"
+            >
+              View on Zondscan <ExternalLink className="h-3 w-3" />
+            </a>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
         {rows.length === 0 ? (
           <p className="py-3 text-center text-sm text-muted-foreground">
-            {poolStore.activityError
+            {protocolStore.activityError
               ? "Activity is unavailable right now. Use the Zondscan link above."
               : "No staking activity yet for this address."}
           </p>
@@ -79,7 +97,7 @@ export const ActivityCard = observer(() => {
                   </div>
                   {item.txHash && (
                     <a
-                      href={getExplorerTxUrl(item.txHash)}
+                      href={getExplorerTxUrl(protocolStore.network, item.txHash)}
                       target="_blank"
                       rel="noreferrer"
                       className="shrink-0 text-muted-foreground hover:text-blue-accent"
@@ -93,13 +111,16 @@ export const ActivityCard = observer(() => {
             })}
           </ul>
         )}
-        {poolStore.activity.length > MAX_ROWS && (
+        {protocolStore.activity.length > MAX_ROWS && (
           <p className="pt-2 text-center text-xs text-muted-foreground">
-            Showing the latest {MAX_ROWS} of {poolStore.activity.length}. Full history on
+            Showing the latest {MAX_ROWS} of {protocolStore.activity.length}. Full history on
             Zondscan.
           </p>
         )}
       </CardContent>
+      {exporting && (
+        <ExportModal initial={[account.address]} onClose={() => setExporting(false)} />
+      )}
     </Card>
   );
 });
@@ -6,30 +6,30 @@ import { getExplorerAddressUrl } from "@/config/networks";
 import { shortenAddress } from "@/utils/format";
 
 export const ConnectButton = observer(() => {
-  const { poolStore } = useStore();
+  const { walletStore, networkStore } = useStore();
 
-  if (poolStore.account) {
+  if (walletStore.address) {
     return (
       <div className="flex items-center gap-2">
         <a
-          href={getExplorerAddressUrl(poolStore.account.address)}
+          href={getExplorerAddressUrl(networkStore.network, walletStore.address)}
           target="_blank"
           rel="noreferrer"
           title="View address on Zondscan"
           className="hidden sm:inline rounded-md border border-border bg-muted/40 px-3 py-1.5 font-data text-xs text-blue-accent hover:border-blue-accent/40"
         >
-          {shortenAddress(poolStore.account.address)}
+          {shortenAddress(walletStore.address)}
         </a>
         <Button
           variant="outline"
           size="sm"
-          disabled={poolStore.isDisconnecting}
-          onClick={() => void poolStore.disconnect()}
+          disabled={walletStore.isDisconnecting}
+          onClick={() => void walletStore.disconnect()}
           aria-label="Disconnect wallet"
         >
           <LogOut className="h-4 w-4" />
           <span className="hidden sm:inline">
-            {poolStore.isDisconnecting ? "Disconnecting…" : "Disconnect"}
+            {walletStore.isDisconnecting ? "Disconnecting…" : "Disconnect"}
           </span>
         </Button>
       </div>
@@ -39,11 +39,11 @@ export const ConnectButton = observer(() => {
   return (
     <Button
       size="sm"
-      disabled={poolStore.isConnecting}
-      onClick={() => void poolStore.connect()}
+      disabled={walletStore.isConnecting}
+      onClick={() => void walletStore.connect()}
     >
       <Wallet className="h-4 w-4" />
-      {poolStore.isConnecting ? "Connecting…" : "Connect wallet"}
+      {walletStore.isConnecting ? "Connecting…" : "Connect wallet"}
     </Button>
   );
 });
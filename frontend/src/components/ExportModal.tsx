@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Download, X } from "lucide-react";
+import { Button } from "@/components/UI/Button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/UI/Card";
+import { Input } from "@/components/UI/Input";
+import { useStore } from "@/stores/store";
+import type { ExportFile } from "@/stores/exportStore";
+import { errorMessage } from "@/utils/errors";
+import { shortenAddress } from "@/utils/format";
+import { parseDateRange, type ExportFormat } from "@/utils/historyExport";
+
+function download(file: ExportFile): void {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = file.name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Staking history export: CSV or JSON, an optional date range, and any of the
+ * connected, watched and saved portfolio addresses.
+ */
+export const ExportModal = observer(
+  ({ initial, onClose }: { initial: readonly string[]; onClose: () => void }) => {
+    const { exportStore, portfolioStore, priceStore } = useStore();
+    const [format, setFormat] = useState<ExportFormat>("csv");
+    const [from, setFrom] = useState("");
+    const [to, setTo] = useState("");
+    const [selected, setSelected] = useState(() => new Set(initial.map((a) => a.toLowerCase())));
+    const [rangeError, setRangeError] = useState<string | null>(null);
+    const [done, setDone] = useState<string | null>(null);
+
+    const choices = portfolioStore.addresses;
+    const chosen = choices.filter((address) => selected.has(address.toLowerCase()));
+
+    const toggle = (address: string) => {
+      const key = address.toLowerCase();
+      const next = new Set(selected);
+      if (!next.delete(key)) next.add(key);
+      setSelected(next);
+    };
+
+    const onExport = async () => {
+      setDone(null);
+      let range;
+      try {
+        range = parseDateRange(from, to);
+        setRangeError(null);
+      } catch (error) {
+        setRangeError(errorMessage(error));
+        return;
+      }
+      const file = await exportStore.build(chosen, range, format);
+      if (!file) return;
+      download(file);
+      setDone(`Exported ${file.rows} ${file.rows === 1 ? "row" : "rows"}.`);
+    };
+
+    return (
+      <div
+        className="fixed inset-0 z-50 grid place-items-center bg-background/80 p-4 backdrop-blur"
+        onClick={onClose}
+      >
+        <Card className="w-full max-w-sm" onClick={(e) => e.stopPropagation()}>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg">Export staking history</CardTitle>
+              <button
+                onClick={onClose}
+                aria-label="Close"
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Deposits, withdrawals and stQRL transfers with block time, exchange rate and{" "}
+              {priceStore.currency.toUpperCase()} value at that day's price where one is known.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            <fieldset className="space-y-1.5">
+              <legend className="text-xs text-muted-foreground">Addresses</legend>
+              {choices.map((address) => (
+                <label key={address} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(address.toLowerCase())}
+                    onChange={() => toggle(address)}
+                  />
+                  <span className="font-data">{shortenAddress(address, 6)}</span>
+                </label>
+              ))}
+            </fieldset>
+
+            <div className="grid grid-cols-2 gap-2">
+              <label className="space-y-1">
+                <span className="text-xs text-muted-foreground">From</span>
+                <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-muted-foreground">To</span>
+                <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+              </label>
+            </div>
+
+            <div className="flex gap-2">
+              {(["csv", "json"] as const).map((option) => (
+                <Button
+                  key={option}
+                  type="button"
+                  size="sm"
+                  variant={format === option ? "default" : "outline"}
+                  onClick={() => setFormat(option)}
+                >
+                  {option.toUpperCase()}
+                </Button>
+              ))}
+            </div>
+
+            {(rangeError ?? exportStore.error) && (
+              <p className="text-destructive">{rangeError ?? exportStore.error}</p>
+            )}
+            {done && <p className="text-muted-foreground">{done}</p>}
+
+            <Button
+              className="w-full"
+              disabled={chosen.length === 0 || exportStore.busy}
+              onClick={() => void onExport()}
+            >
+              <Download className="h-4 w-4" />
+              {exportStore.busy ? "Indexing history…" : "Download"}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  },
+);
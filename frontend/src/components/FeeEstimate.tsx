@@ -0,0 +1,42 @@
+import { observer } from "mobx-react-lite";
+import { NATIVE_UNIT } from "@/config/networks";
+import { useStore } from "@/stores/store";
+import type { FeeQuote } from "@/utils/feeQuote";
+import { formatAmount, formatFiat } from "@/utils/format";
+
+interface FeeEstimateProps {
+  quote: FeeQuote | null;
+  /** Why the estimate failed (a decoded revert), shown in place of the fee. */
+  error?: string;
+}
+
+/** Fee rows for a form's summary box: the likely cost and the cap the wallet signs for. */
+export const FeeEstimate = observer(({ quote, error }: FeeEstimateProps) => {
+  const { priceStore } = useStore();
+
+  const format = (fee: bigint) => {
+    const fiat = priceStore.value(fee);
+    const currency = priceStore.currency;
+    const fiatText =
+      fiat === null
+        ? ""
+        : fiat < 0.01
+          ? ` (< ${formatFiat(0.01, currency)})`
+          : ` (${formatFiat(fiat, currency)})`;
+    return `${formatAmount(fee, 18, 6)} ${NATIVE_UNIT}${fiatText}`;
+  };
+
+  return (
+    <>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Network fee</span>
+        <span className="font-data">{quote ? `≈ ${format(quote.estimated)}` : "-"}</span>
+      </div>
+      {!quote && error && <p className="text-right text-xs text-destructive">{error}</p>}
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Max network fee</span>
+        <span className="font-data">{quote ? format(quote.max) : "-"}</span>
+      </div>
+    </>
+  );
+});
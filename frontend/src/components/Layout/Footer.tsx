@@ -2,7 +2,7 @@ import { Link } from "react-router";
 import { useStore } from "@/stores/store";
 
 export function Footer() {
-  const { poolStore } = useStore();
+  const { protocolStore } = useStore();
 
   return (
     <footer className="mt-auto border-t border-border/60">
@@ -34,7 +34,7 @@ export function Footer() {
             QuantaSwap
           </a>
           <a
-            href={poolStore.network.explorer}
+            href={protocolStore.network.explorer}
             target="_blank"
             rel="noreferrer"
             className="hover:text-foreground"
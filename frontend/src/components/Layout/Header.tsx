@@ -1,19 +1,29 @@
 import { NavLink, Link } from "react-router";
 import { observer } from "mobx-react-lite";
+import { ChevronDown, Eye, X } from "lucide-react";
 import { Logo } from "@/components/Logo";
 import { ConnectButton } from "@/components/ConnectButton";
+import { isNetworkDeployed, NETWORKS, type NetworkId } from "@/config/networks";
 import { useStore } from "@/stores/store";
 import { cn } from "@/utils/cn";
+import { shortenAddress } from "@/utils/format";
+import { FIAT_CURRENCIES, type FiatCurrency } from "@/utils/price";
 
 const navItems = [
   { to: "/", label: "Stake" },
   { to: "/withdrawals", label: "Withdrawals" },
+  { to: "/portfolio", label: "Portfolio" },
   { to: "/stats", label: "Stats" },
   { to: "/how-it-works", label: "How it works" },
 ];
 
+/** Shown only to the account that owns a pool contract. */
+const adminItem = { to: "/admin", label: "Admin" };
+
 export const Header = observer(function Header() {
-  const { poolStore } = useStore();
+  const rootStore = useStore();
+  const { adminStore, networkStore, priceStore, protocolStore, txStore, walletStore } = rootStore;
+  const items = adminStore.isOwner ? [...navItems, adminItem] : navItems;
 
   return (
     <header className="sticky top-0 z-20 border-b border-border/60 bg-background/80 backdrop-blur">
@@ -23,7 +33,7 @@ export const Header = observer(function Header() {
             <Logo />
           </Link>
           <nav className="hidden items-center gap-1 md:flex">
-            {navItems.map((item) => (
+            {items.map((item) => (
               <NavLink
                 key={item.to}
                 to={item.to}
@@ -42,24 +52,90 @@ export const Header = observer(function Header() {
           </nav>
         </div>
         <div className="flex items-center gap-3">
-          <span className="inline-flex items-center gap-1.5 rounded-full border border-blue-accent/30 bg-blue-accent/10 px-2.5 py-0.5 text-xs font-medium text-blue-accent">
+          <label
+            className="relative inline-flex items-center gap-1.5 rounded-full border border-blue-accent/30 bg-blue-accent/10 py-0.5 pl-2.5 pr-6 text-xs font-medium text-blue-accent"
+            title={
+              txStore.signing
+                ? "Finish signing the transaction to switch networks"
+                : "Switch network"
+            }
+          >
             <span
               aria-hidden
               className={cn(
                 "glow-dot h-1.5 w-1.5 rounded-full",
-                poolStore.rpcError
-                  ? "bg-destructive text-destructive"
-                  : "bg-success text-success",
+                !networkStore.deployed
+                  ? "bg-muted-foreground text-muted-foreground"
+                  : protocolStore.rpcError
+                    ? "bg-destructive text-destructive"
+                    : "bg-success text-success",
               )}
             />
-            {poolStore.network.shortName}
-          </span>
+            <span className="sr-only">Network</span>
+            <select
+              value={networkStore.network.id}
+              disabled={txStore.signing}
+              onChange={(event) => void rootStore.switchNetwork(event.target.value as NetworkId)}
+              className="cursor-pointer appearance-none bg-transparent outline-none disabled:cursor-not-allowed"
+            >
+              {Object.values(NETWORKS).map((network) => (
+                <option key={network.id} value={network.id} className="bg-background text-foreground">
+                  {network.shortName}
+                  {isNetworkDeployed(network) ? "" : " (not deployed)"}
+                </option>
+              ))}
+            </select>
+            <ChevronDown aria-hidden className="pointer-events-none absolute right-2 h-3 w-3" />
+          </label>
+          <label
+            className="relative hidden items-center rounded-full border border-border py-0.5 pl-2.5 pr-6 text-xs font-medium text-muted-foreground sm:inline-flex"
+            title={
+              priceStore.sources.length > 0
+                ? `Display currency (median of ${priceStore.sources.join(", ")})`
+                : "Display currency"
+            }
+          >
+            <span className="sr-only">Currency</span>
+            <select
+              value={priceStore.currency}
+              onChange={(event) => priceStore.setCurrency(event.target.value as FiatCurrency)}
+              className="cursor-pointer appearance-none bg-transparent outline-none"
+            >
+              {FIAT_CURRENCIES.map((currency) => (
+                <option key={currency} value={currency} className="bg-background text-foreground">
+                  {currency.toUpperCase()}
+                </option>
+              ))}
+            </select>
+            <ChevronDown aria-hidden className="pointer-events-none absolute right-2 h-3 w-3" />
+          </label>
+          {walletStore.watchAddress && (
+            <span
+              className="inline-flex items-center gap-1.5 rounded-full border border-secondary/30 bg-secondary/10 py-0.5 pl-2.5 pr-1.5 text-xs font-medium text-secondary"
+              title={`Viewing ${walletStore.watchAddress} read-only`}
+            >
+              <Eye aria-hidden className="h-3 w-3" />
+              <span className="hidden sm:inline">
+                Viewing {shortenAddress(walletStore.watchAddress)}, not connected
+              </span>
+              <span className="sm:hidden">Viewing</span>
+              <button
+                onClick={() => walletStore.stopWatching()}
+                aria-label={
+                  walletStore.address ? "Back to the connected wallet" : "Stop viewing this address"
+                }
+                className="cursor-pointer rounded-full p-0.5 hover:text-foreground"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          )}
           <ConnectButton />
         </div>
       </div>
       {/* Mobile nav */}
       <nav className="flex items-center justify-around border-t border-border/60 py-2 md:hidden">
-        {navItems.map((item) => (
+        {items.map((item) => (
           <NavLink
             key={item.to}
             to={item.to}
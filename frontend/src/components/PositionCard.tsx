@@ -0,0 +1,104 @@
+import { observer } from "mobx-react-lite";
+import { Link } from "react-router";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/UI/Card";
+import { Skeleton } from "@/components/UI/Skeleton";
+import { NATIVE_UNIT } from "@/config/networks";
+import { useStore } from "@/stores/store";
+import { formatAmount, formatFiat, formatPercent } from "@/utils/format";
+import { cn } from "@/utils/cn";
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex justify-between">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-data font-medium">{children}</span>
+    </div>
+  );
+}
+
+const signed = (value: bigint) => `${value > 0n ? "+" : ""}${formatAmount(value)}`;
+
+/** The viewed account's stQRL position and its lifetime profit and loss. */
+export const PositionCard = observer(() => {
+  const { pnlStore, priceStore, protocolStore } = useStore();
+  const account = protocolStore.account;
+  if (!account) return null;
+
+  const pnl = pnlStore.pnl;
+  const failed = protocolStore.activityError !== null || pnlStore.transfersError !== null;
+  const fiat = priceStore.value(account.qrlValue);
+  const fiatCost = pnlStore.fiatPrincipal;
+  const currency = priceStore.currency;
+  const placeholder = <Skeleton className="h-4 w-20" />;
+
+  return (
+    <Card className="border-l-2 border-l-blue-accent">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Your position</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-1.5 text-sm">
+        <Row label="stQRL balance">{formatAmount(account.shares)} stQRL</Row>
+        <Row label="Current value">
+          {formatAmount(account.qrlValue)} {NATIVE_UNIT}
+          {fiat !== null && (
+            <span className="ml-1 text-xs font-normal text-muted-foreground">
+              ≈ {formatFiat(fiat, currency)}
+            </span>
+          )}
+        </Row>
+        {account.lockedShares > 0n && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Locked in withdrawals</span>
+            <Link to="/withdrawals" className="font-data text-blue-accent hover:underline">
+              {formatAmount(account.lockedShares)} stQRL
+            </Link>
+          </div>
+        )}
+
+        {failed ? (
+          <p className="pt-2 text-xs text-muted-foreground">
+            Profit and loss is unavailable: the account's history couldn't be loaded.
+          </p>
+        ) : (
+          <div className="space-y-1.5 border-t border-border/60 pt-2">
+            <Row label="Net deposited">
+              {pnl ? `${formatAmount(pnl.netPrincipal)} ${NATIVE_UNIT}` : placeholder}
+            </Row>
+            <Row label="Profit">
+              {pnl ? (
+                <span className={cn(pnl.profit < 0n ? "text-destructive" : "text-success")}>
+                  {signed(pnl.profit)} {NATIVE_UNIT}
+                </span>
+              ) : (
+                placeholder
+              )}
+            </Row>
+            {pnl && fiat !== null && fiatCost !== null && (
+              <Row label={`Profit in ${currency.toUpperCase()}`}>
+                <span className={cn(fiat < fiatCost ? "text-destructive" : "text-success")}>
+                  {fiat >= fiatCost ? "+" : "-"}
+                  {formatFiat(Math.abs(fiat - fiatCost), currency)}
+                </span>
+              </Row>
+            )}
+            <Row label="Rewards earned">
+              {pnl ? `${formatAmount(pnl.rewards)} ${NATIVE_UNIT}` : placeholder}
+            </Row>
+            {pnl && pnl.slashing > 0n && (
+              <Row label="Slashing borne">
+                {formatAmount(pnl.slashing)} {NATIVE_UNIT}
+              </Row>
+            )}
+            <Row label="Annualized return">
+              {pnl
+                ? pnl.annualizedReturn !== null
+                  ? formatPercent(pnl.annualizedReturn)
+                  : "—"
+                : placeholder}
+            </Row>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
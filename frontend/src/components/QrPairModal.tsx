@@ -6,13 +6,13 @@ import { useStore } from "@/stores/store";
 /**
  * "Pair MyQRLWallet" modal for the relay (connect SDK) path, now the shared
  * <qrl-pairing-modal> web component from @qrlwallet/connect-ui instead of a
- * hand-copied QR card. Self-gates on poolStore.pairingUri; the element's
+ * hand-copied QR card. Self-gates on walletStore.pairingUri; the element's
  * qrl-new-connection / qrl-cancel events map onto the store actions.
  */
 export const QrPairModal = observer(() => {
-  const { poolStore } = useStore();
-  const uri = poolStore.pairingUri;
-  const status = poolStore.pairingStatus;
+  const { walletStore } = useStore();
+  const uri = walletStore.pairingUri;
+  const status = walletStore.pairingStatus;
   const hostRef = useRef<HTMLSpanElement | null>(null);
   const elRef = useRef<QrlPairingModal | null>(null);
   const statusRef = useRef(status);
@@ -24,8 +24,8 @@ export const QrPairModal = observer(() => {
     const el = new QrlPairingModal();
     el.setAttribute("uri", uri);
     if (statusRef.current) el.setAttribute("status", statusRef.current);
-    const onNew = () => void poolStore.newConnection();
-    const onDismiss = () => void poolStore.cancelPairing();
+    const onNew = () => void walletStore.newConnection();
+    const onDismiss = () => void walletStore.cancelPairing();
     el.addEventListener("qrl-new-connection", onNew);
     el.addEventListener("qrl-cancel", onDismiss);
     hostRef.current?.append(el);
@@ -38,7 +38,7 @@ export const QrPairModal = observer(() => {
       el.remove();
       elRef.current = null;
     };
-  }, [uri, poolStore]);
+  }, [uri, walletStore]);
 
   useEffect(() => {
     if (!elRef.current) return;
@@ -0,0 +1,62 @@
+import type { TimedRatePoint } from "@/stores/rateStore";
+import { formatRate } from "@/utils/format";
+
+const WIDTH = 600;
+const HEIGHT = 160;
+
+const dateLabel = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+/** stQRL exchange rate over time, as a plain SVG line (no chart dependency). */
+export function RateChart({ points }: { points: readonly TimedRatePoint[] }) {
+  if (points.length < 2) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        Not enough history to chart yet.
+      </p>
+    );
+  }
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const rates = points.map((point) => point.rate);
+  const min = rates.reduce((a, b) => (b < a ? b : a));
+  const max = rates.reduce((a, b) => (b > a ? b : a));
+  const span = Number(max - min) || 1;
+  const duration = last.timestamp - first.timestamp || 1;
+  const coordinates = points.map((point) => {
+    const x = ((point.timestamp - first.timestamp) / duration) * WIDTH;
+    const y = HEIGHT - (Number(point.rate - min) / span) * HEIGHT;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  return (
+    <figure className="space-y-1">
+      <p className="font-data text-xs text-muted-foreground">{formatRate(max, 6)}</p>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="h-40 w-full overflow-visible"
+        role="img"
+        aria-label={`Exchange rate from ${formatRate(first.rate, 6)} to ${formatRate(
+          last.rate,
+          6,
+        )}`}
+      >
+        <polyline
+          points={coordinates.join(" ")}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+          className="text-primary"
+        />
+      </svg>
+      <p className="font-data text-xs text-muted-foreground">{formatRate(min, 6)}</p>
+      <figcaption className="flex justify-between text-xs text-muted-foreground">
+        <span>{dateLabel(first.timestamp)}</span>
+        <span>{dateLabel(last.timestamp)}</span>
+      </figcaption>
+    </figure>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { observer } from "mobx-react-lite";
+import {
+  CheckCircle2,
+  ExternalLink,
+  History,
+  Loader2,
+  Undo2,
+  X,
+  XCircle,
+  Zap,
+} from "lucide-react";
+import { useStore } from "@/stores/store";
+import { getExplorerTxUrl } from "@/config/networks";
+import type { TrackedState } from "@/utils/txQueue";
+import { cn } from "@/utils/cn";
+
+const STATE_META: Record<
+  TrackedState,
+  { label: string; icon: React.ComponentType<{ className?: string }>; color: string }
+> = {
+  pending: { label: "Pending", icon: Loader2, color: "text-blue-accent" },
+  confirmed: { label: "Confirmed", icon: CheckCircle2, color: "text-success" },
+  failed: { label: "Reverted", icon: XCircle, color: "text-destructive" },
+  replaced: { label: "Replaced", icon: XCircle, color: "text-secondary" },
+  dropped: { label: "Dropped", icon: XCircle, color: "text-muted-foreground" },
+};
+
+/**
+ * Recent transactions on the selected network, opened from a floating button
+ * beside the tx banner. Pending entries keep updating after a reload, and
+ * extension users can speed up or cancel them.
+ */
+export const RecentTxDrawer = observer(() => {
+  const { txStore, networkStore } = useStore();
+  const [open, setOpen] = useState(false);
+  const { recent, pendingCount } = txStore;
+
+  if (recent.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-20 right-4 z-50 flex flex-col items-end gap-2 sm:bottom-4">
+      {open && (
+        <div className="w-80 max-w-[calc(100vw-2rem)] rounded-lg border bg-background/95 p-4 text-sm shadow-lg backdrop-blur">
+          <div className="mb-3 flex items-center justify-between">
+            <p className="font-medium">Recent transactions</p>
+            <button
+              onClick={() => setOpen(false)}
+              aria-label="Close"
+              className="cursor-pointer text-muted-foreground hover:text-foreground"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <ul className="max-h-80 space-y-3 overflow-y-auto">
+            {recent.map((tx) => {
+              const meta = STATE_META[tx.state];
+              const Icon = meta.icon;
+              return (
+                <li key={tx.hash} className="flex gap-2">
+                  <Icon
+                    className={cn(
+                      "mt-0.5 h-4 w-4 shrink-0",
+                      meta.color,
+                      tx.state === "pending" && "animate-spin",
+                    )}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <p className="flex justify-between gap-2">
+                      <span>{tx.label}</span>
+                      <span className={cn("text-xs", meta.color)}>{meta.label}</span>
+                    </p>
+                    {(tx.outcome ?? tx.preview) && (
+                      <p className="break-words text-xs text-muted-foreground">
+                        {tx.outcome ?? tx.preview}
+                      </p>
+                    )}
+                    <a
+                      href={getExplorerTxUrl(networkStore.network, tx.hash)}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="inline-flex items-center gap-1 text-xs text-blue-accent hover:underline"
+                    >
+                      {new Date(tx.submittedAt).toLocaleString()}
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                    {txStore.canReplace(tx) && (
+                      <div className="mt-1 flex gap-3 text-xs">
+                        <button
+                          onClick={() => void txStore.speedUpTx(tx.hash)}
+                          className="inline-flex cursor-pointer items-center gap-1 hover:text-primary"
+                        >
+                          <Zap className="h-3 w-3" /> Speed up
+                        </button>
+                        <button
+                          onClick={() => void txStore.cancelTx(tx.hash)}
+                          className="inline-flex cursor-pointer items-center gap-1 text-muted-foreground hover:text-foreground"
+                        >
+                          <Undo2 className="h-3 w-3" /> Cancel
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+          {recent.length > pendingCount && (
+            <button
+              onClick={() => txStore.clearSettled()}
+              className="mt-3 cursor-pointer text-xs text-muted-foreground hover:text-foreground"
+            >
+              Clear finished
+            </button>
+          )}
+        </div>
+      )}
+      <button
+        onClick={() => setOpen(!open)}
+        aria-label="Recent transactions"
+        aria-expanded={open}
+        className="relative cursor-pointer rounded-full border bg-background/95 p-3 shadow-lg backdrop-blur hover:text-primary"
+      >
+        <History className="h-5 w-5" />
+        {pendingCount > 0 && (
+          <span className="absolute -right-1 -top-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-blue-accent px-1 text-xs font-bold text-background">
+            {pendingCount}
+          </span>
+        )}
+      </button>
+    </div>
+  );
+});
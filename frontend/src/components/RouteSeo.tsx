@@ -14,11 +14,21 @@ const ROUTE_META: Record<string, { title: string; description: string }> = {
     description:
       "Request and claim QRL withdrawals from your stQRL position on QuantaPool, liquid staking on QRL 2.0, the post-quantum blockchain.",
   },
+  "/portfolio": {
+    title: "Portfolio | QuantaPool",
+    description:
+      "Your stQRL positions and withdrawals across several QRL addresses on QuantaPool, liquid staking on QRL 2.0, the post-quantum blockchain.",
+  },
   "/stats": {
     title: "Protocol Stats | QuantaPool",
     description:
       "Live QuantaPool protocol statistics: total QRL staked, stQRL exchange rate, and validator status on QRL 2.0, the post-quantum blockchain.",
   },
+  "/validators": {
+    title: "Validators | QuantaPool",
+    description:
+      "Every QuantaPool validator with its pubkey, status and lifecycle blocks, read from the ValidatorManager contract on QRL 2.0, the post-quantum blockchain.",
+  },
   "/how-it-works": {
     title: "How It Works | QuantaPool",
     description:
@@ -40,8 +50,10 @@ export function RouteSeo() {
   const { pathname } = useLocation();
 
   useEffect(() => {
-    const meta = ROUTE_META[pathname] ?? ROUTE_META["/"];
-    const canonicalPath = pathname in ROUTE_META ? pathname : "/";
+    // Validator detail pages share the list's metadata and canonical URL.
+    const route = pathname.startsWith("/validators/") ? "/validators" : pathname;
+    const meta = ROUTE_META[route] ?? ROUTE_META["/"];
+    const canonicalPath = route in ROUTE_META ? route : "/";
     const canonicalUrl =
       canonicalPath === "/"
         ? `${CANONICAL_ORIGIN}/`
@@ -2,19 +2,27 @@ import { observer } from "mobx-react-lite";
 import { Skeleton } from "@/components/UI/Skeleton";
 import { NATIVE_UNIT } from "@/config/networks";
 import { useStore } from "@/stores/store";
-import { formatAmount, formatRate, formatUsd } from "@/utils/format";
+import { formatAmount, formatFiat, formatPercent, formatRate } from "@/utils/format";
+import { cn } from "@/utils/cn";
 
 /** Compact protocol stats row shown under the stake widget (Lido-style). */
 export const StatsBar = observer(() => {
-  const { poolStore } = useStore();
-  const pool = poolStore.pool;
-  const tvlUsd = pool ? poolStore.usdValue(pool.totalPooled) : null;
+  const { priceStore, protocolStore, rateStore } = useStore();
+  const pool = protocolStore.pool;
+  const tvlFiat = pool ? priceStore.value(pool.totalPooled) : null;
+  const apr = rateStore.headline;
 
   const stats = [
+    {
+      label: apr?.label ?? "APR",
+      // Until the rate history loads, or with no rewards synced yet.
+      value: apr ? formatPercent(apr.value) : pool && rateStore.history.length > 0 ? "-" : null,
+      sub: "realized, from exchange rate",
+    },
     {
       label: "Total staked",
       value: pool ? `${formatAmount(pool.totalPooled, 18, 0)} ${NATIVE_UNIT}` : null,
-      sub: tvlUsd !== null ? `≈ ${formatUsd(tvlUsd)}` : undefined,
+      sub: tvlFiat !== null ? `≈ ${formatFiat(tvlFiat, priceStore.currency)}` : undefined,
     },
     {
       label: "stQRL exchange rate",
@@ -31,9 +39,12 @@ export const StatsBar = observer(() => {
   ];
 
   return (
-    <dl className="grid grid-cols-2 gap-px overflow-hidden rounded-lg border bg-border/60 sm:grid-cols-4">
-      {stats.map((stat) => (
-        <div key={stat.label} className="bg-background p-4">
+    <dl className="grid grid-cols-2 gap-px overflow-hidden rounded-lg border bg-border/60 sm:grid-cols-5">
+      {stats.map((stat, i) => (
+        <div
+          key={stat.label}
+          className={cn("bg-background p-4", i === 0 && "col-span-2 sm:col-span-1")}
+        >
           <dt className="text-xs text-muted-foreground">{stat.label}</dt>
           <dd className="font-data mt-1 text-sm font-semibold">
             {stat.value ?? <Skeleton className="h-5 w-24" />}
@@ -6,8 +6,8 @@ import { cn } from "@/utils/cn";
 
 /** Floating transaction status banner (pending / confirmed / failed). */
 export const TxBanner = observer(() => {
-  const { poolStore } = useStore();
-  const { tx } = poolStore;
+  const { txStore, networkStore } = useStore();
+  const { tx } = txStore;
 
   if (tx.state === "idle") return null;
 
@@ -36,13 +36,20 @@ export const TxBanner = observer(() => {
           {tx.state === "confirmed" && " confirmed"}
           {tx.state === "failed" && " failed"}
         </p>
-        {tx.state === "pending" && !tx.txHash && (
-          <p className="text-muted-foreground">Confirm the transaction in your wallet.</p>
+        {tx.state === "pending" && (
+          <p className="text-muted-foreground">{tx.preview ?? "Simulating the transaction…"}</p>
         )}
-        {tx.error && <p className="truncate text-muted-foreground">{tx.error}</p>}
+        {tx.state === "pending" && !tx.txHash && tx.preview && (
+          <p className="text-xs text-muted-foreground">Confirm the transaction in your wallet.</p>
+        )}
+        {tx.state === "confirmed" && tx.outcome && (
+          <p className="break-words text-muted-foreground">{tx.outcome}</p>
+        )}
+        {tx.error && <p className="line-clamp-3 break-words text-muted-foreground">{tx.error}</p>}
+        {tx.action && <p className="mt-0.5 text-xs text-muted-foreground">{tx.action}</p>}
         {tx.txHash && (
           <a
-            href={getExplorerTxUrl(tx.txHash)}
+            href={getExplorerTxUrl(networkStore.network, tx.txHash)}
             target="_blank"
             rel="noreferrer"
             className="inline-flex items-center gap-1 text-blue-accent hover:underline"
@@ -54,7 +61,7 @@ export const TxBanner = observer(() => {
 
       {tx.state !== "pending" && (
         <button
-          onClick={() => poolStore.clearTx()}
+          onClick={() => txStore.clearTx()}
           className="cursor-pointer shrink-0 text-muted-foreground hover:text-foreground"
           aria-label="Dismiss"
         >
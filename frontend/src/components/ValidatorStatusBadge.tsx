@@ -0,0 +1,26 @@
+import { cn } from "@/utils/cn";
+import { VALIDATOR_STATUS_LABELS, type ValidatorStatus } from "@/utils/validators";
+
+const STATUS_COLORS: Record<ValidatorStatus, string> = {
+  none: "text-muted-foreground",
+  pending: "text-secondary",
+  active: "text-success",
+  exiting: "text-blue-accent",
+  exited: "text-muted-foreground",
+  slashed: "text-destructive",
+};
+
+/** ValidatorManager status as a colored label. */
+export function ValidatorStatusBadge({
+  status,
+  className,
+}: {
+  status: ValidatorStatus;
+  className?: string;
+}) {
+  return (
+    <span className={cn("text-xs font-medium", STATUS_COLORS[status], className)}>
+      {VALIDATOR_STATUS_LABELS[status]}
+    </span>
+  );
+}
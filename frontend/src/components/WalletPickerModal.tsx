@@ -1,29 +1,35 @@
+import { useState } from "react";
 import { observer } from "mobx-react-lite";
-import { X } from "lucide-react";
+import { Eye, X } from "lucide-react";
+import { Button } from "@/components/UI/Button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/UI/Card";
+import { Input } from "@/components/UI/Input";
 import { useStore } from "@/stores/store";
 
 /**
  * EIP-6963 wallet picker. Lists the QRL-capable wallets the store discovered
  * (the QRL browser extension and MyQRLWallet via the connect relay) and hands
- * a click back to the store to run the right connect path.
+ * a click back to the store to run the right connect path. Any Q-address can
+ * also be opened read-only, without a wallet.
  */
 export const WalletPickerModal = observer(() => {
-  const { poolStore } = useStore();
-  if (!poolStore.walletPickerOpen) return null;
-  const wallets = poolStore.discoveredWallets;
+  const { walletStore } = useStore();
+  const [watchInput, setWatchInput] = useState("");
+  const [watchError, setWatchError] = useState<string | null>(null);
+  if (!walletStore.walletPickerOpen) return null;
+  const wallets = walletStore.discoveredWallets;
 
   return (
     <div
       className="fixed inset-0 z-50 grid place-items-center bg-background/80 p-4 backdrop-blur"
-      onClick={() => poolStore.closeWalletPicker()}
+      onClick={() => walletStore.closeWalletPicker()}
     >
       <Card className="w-full max-w-sm" onClick={(e) => e.stopPropagation()}>
         <CardHeader className="pb-3">
           <div className="flex items-center justify-between">
             <CardTitle className="text-lg">Connect a wallet</CardTitle>
             <button
-              onClick={() => poolStore.closeWalletPicker()}
+              onClick={() => walletStore.closeWalletPicker()}
               aria-label="Close"
               className="text-muted-foreground hover:text-foreground"
             >
@@ -45,7 +51,7 @@ export const WalletPickerModal = observer(() => {
             wallets.map((w) => (
               <button
                 key={w.uuid}
-                onClick={() => void poolStore.connectWallet(w.uuid)}
+                onClick={() => void walletStore.connectWallet(w.uuid)}
                 className="cursor-pointer flex w-full items-center gap-3 rounded-md border border-border bg-muted/30 px-3 py-3 text-left transition-colors hover:border-primary/40 hover:bg-primary/10"
               >
                 {w.icon ? (
@@ -58,6 +64,37 @@ export const WalletPickerModal = observer(() => {
               </button>
             ))
           )}
+          <form
+            className="space-y-2 border-t border-border pt-3"
+            onSubmit={(event) => {
+              event.preventDefault();
+              if (walletStore.watch(watchInput)) {
+                setWatchInput("");
+                setWatchError(null);
+              } else {
+                setWatchError("Enter a valid Q-address");
+              }
+            }}
+          >
+            <label htmlFor="watch-address" className="text-xs text-muted-foreground">
+              Or view an address without connecting
+            </label>
+            <div className="flex gap-2">
+              <Input
+                id="watch-address"
+                value={watchInput}
+                onChange={(event) => setWatchInput(event.target.value)}
+                placeholder="Q…"
+                spellCheck={false}
+                className="font-data"
+              />
+              <Button type="submit" variant="outline" disabled={watchInput.trim() === ""}>
+                <Eye className="h-4 w-4" />
+                Watch
+              </Button>
+            </div>
+            {watchError && <p className="text-xs text-destructive">{watchError}</p>}
+          </form>
         </CardContent>
       </Card>
     </div>
@@ -1,59 +1,109 @@
+import { parseEndpointList } from "@/utils/endpointPool";
+
 export type NetworkId = "TEST_NET" | "MAIN_NET";
 
 export interface NetworkConfig {
   id: NetworkId;
   name: string;
   shortName: string;
-  rpcUrl: string;
+  /** JSON-RPC endpoints in order of preference; later ones are fallbacks. */
+  rpcUrls: string[];
+  /** Optional websocket endpoint for `newHeads`; blocks are polled without it. */
+  wsUrl?: string;
+  /** Optional qrysm beacon-node REST API; the validator page's beacon data needs one. */
+  beaconApi?: string;
   explorer: string;
   contracts: {
     depositPool: string;
     stQRL: string;
     validatorManager: string;
   };
+  /**
+   * What this network's beacon chain signs deposits for: the GENESIS_FORK_VERSION
+   * (0x-hex) and the deposit CLI's network name. An empty fork version means
+   * none is known yet, and deposit data is refused.
+   */
+  beaconChain: { forkVersion: string; networkName: string };
+  /** Block each contract was deployed at; event indexes start scanning there. */
+  deploymentBlocks: Record<keyof NetworkConfig["contracts"], bigint>;
 }
 
 const env = import.meta.env;
 
+/** A deployment block from the env, or genesis when unset or malformed. */
+const blockFrom = (value: string | undefined): bigint =>
+  value && /^\d+$/.test(value.trim()) ? BigInt(value.trim()) : 0n;
+
+/** Env endpoints (comma-separated, ranked) go first, then the built-in default. */
+const endpoints = (override: string | undefined, fallback: string): string[] => [
+  ...new Set([...parseEndpointList(override), fallback]),
+];
+
 export const NETWORKS: Record<NetworkId, NetworkConfig> = {
   TEST_NET: {
     id: "TEST_NET",
     name: "QRL 2.0 Testnet",
     shortName: "Testnet",
-    rpcUrl: env.VITE_RPC_URL_TESTNET || "https://qrlwallet.com/api/qrl-rpc/testnet",
+    rpcUrls: endpoints(env.VITE_RPC_URL_TESTNET, "https://qrlwallet.com/api/qrl-rpc/testnet"),
+    wsUrl: env.VITE_WS_URL_TESTNET || undefined,
+    beaconApi: env.VITE_BEACON_API_TESTNET || undefined,
     explorer: env.VITE_EXPLORER_URL || "https://zondscan.com",
     contracts: {
       // Defaults mirror config/testnet-hyperion.json at the repo root
-      depositPool: env.VITE_DEPOSIT_POOL_ADDRESS || "Q8e01Ea0bC7e337806154573A5B46Bb37F50Ea8fC",
-      stQRL: env.VITE_STQRL_ADDRESS || "Q7d4cA4872502a1ab02bCA855C093449aaE2bee58",
+      depositPool:
+        env.VITE_DEPOSIT_POOL_ADDRESS_TESTNET || "Q8e01Ea0bC7e337806154573A5B46Bb37F50Ea8fC",
+      stQRL: env.VITE_STQRL_ADDRESS_TESTNET || "Q7d4cA4872502a1ab02bCA855C093449aaE2bee58",
       validatorManager:
-        env.VITE_VALIDATOR_MANAGER_ADDRESS || "Qd84648a8F7314652B3E98D346645415eA03cce5f",
+        env.VITE_VALIDATOR_MANAGER_ADDRESS_TESTNET || "Qd84648a8F7314652B3E98D346645415eA03cce5f",
+    },
+    beaconChain: { forkVersion: "0x20000089", networkName: "testnet" },
+    deploymentBlocks: {
+      depositPool: blockFrom(env.VITE_DEPOSIT_POOL_DEPLOY_BLOCK_TESTNET),
+      stQRL: blockFrom(env.VITE_STQRL_DEPLOY_BLOCK_TESTNET),
+      validatorManager: blockFrom(env.VITE_VALIDATOR_MANAGER_DEPLOY_BLOCK_TESTNET),
     },
   },
   MAIN_NET: {
     id: "MAIN_NET",
     name: "QRL 2.0 Mainnet",
     shortName: "Mainnet",
-    rpcUrl: env.VITE_RPC_URL_MAINNET || "https://qrlwallet.com/api/qrl-rpc/mainnet",
+    rpcUrls: endpoints(env.VITE_RPC_URL_MAINNET, "https://qrlwallet.com/api/qrl-rpc/mainnet"),
+    wsUrl: env.VITE_WS_URL_MAINNET || undefined,
+    beaconApi: env.VITE_BEACON_API_MAINNET || undefined,
     explorer: env.VITE_EXPLORER_URL || "https://zondscan.com",
     contracts: {
       // Not deployed to mainnet yet
-      depositPool: env.VITE_DEPOSIT_POOL_ADDRESS || "",
-      stQRL: env.VITE_STQRL_ADDRESS || "",
-      validatorManager: env.VITE_VALIDATOR_MANAGER_ADDRESS || "",
+      depositPool: env.VITE_DEPOSIT_POOL_ADDRESS_MAINNET || "",
+      stQRL: env.VITE_STQRL_ADDRESS_MAINNET || "",
+      validatorManager: env.VITE_VALIDATOR_MANAGER_ADDRESS_MAINNET || "",
+    },
+    // Set once the mainnet beacon chain's genesis is published
+    beaconChain: { forkVersion: "", networkName: "mainnet" },
+    deploymentBlocks: {
+      depositPool: blockFrom(env.VITE_DEPOSIT_POOL_DEPLOY_BLOCK_MAINNET),
+      stQRL: blockFrom(env.VITE_STQRL_DEPLOY_BLOCK_MAINNET),
+      validatorManager: blockFrom(env.VITE_VALIDATOR_MANAGER_DEPLOY_BLOCK_MAINNET),
     },
   },
 };
 
 const requestedNetwork = (env.VITE_NETWORK || "TEST_NET") as NetworkId;
-export const ACTIVE_NETWORK: NetworkConfig =
+/** Network shown until the user picks one in the header (then persisted). */
+export const DEFAULT_NETWORK: NetworkConfig =
   NETWORKS[requestedNetwork] ?? NETWORKS.TEST_NET;
 
-export const getExplorerTxUrl = (txHash: string): string =>
-  `${ACTIVE_NETWORK.explorer}/tx/${txHash}`;
+/** Whether QuantaPool's contracts exist on `network` (MAIN_NET: not yet). */
+export const isNetworkDeployed = (network: NetworkConfig): boolean =>
+  Object.values(network.contracts).every(Boolean);
+
+export const getExplorerTxUrl = (network: NetworkConfig, txHash: string): string =>
+  `${network.explorer}/tx/${txHash}`;
+
+export const getExplorerAddressUrl = (network: NetworkConfig, address: string): string =>
+  `${network.explorer}/address/${address}`;
 
-export const getExplorerAddressUrl = (address: string): string =>
-  `${ACTIVE_NETWORK.explorer}/address/${address}`;
+export const getExplorerValidatorUrl = (network: NetworkConfig, pubkey: string): string =>
+  `${network.explorer}/validator/${pubkey}`;
 
 /** Display unit for native coin amounts. The asset/network name stays "QRL". */
 export const NATIVE_UNIT = "Quanta";
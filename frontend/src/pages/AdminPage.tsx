@@ -0,0 +1,456 @@
+import { useEffect, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Link } from "react-router";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/UI/Button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/UI/Card";
+import { Input } from "@/components/UI/Input";
+import { Skeleton } from "@/components/UI/Skeleton";
+import { NATIVE_UNIT } from "@/config/networks";
+import { useStore } from "@/stores/store";
+import {
+  addressError,
+  amountError,
+  CONFIRMATION_PHRASES,
+  isConfirmed,
+  type AdminContract,
+  type AdminState,
+} from "@/utils/admin";
+import { formatAmount, parseUnits } from "@/utils/format";
+
+const CONTRACT_LABELS: Record<AdminContract, string> = {
+  depositPool: "DepositPool",
+  stQRL: "stQRL",
+};
+
+type AmountAction = Parameters<typeof amountError>[0];
+
+/** The typed amount in base units, or an error to show under the field. */
+function parseAmount(
+  input: string,
+  action: AmountAction,
+  state: AdminState,
+): { value: bigint | null; error: string | null } {
+  if (!input) return { value: null, error: null };
+  let value: bigint;
+  try {
+    value = parseUnits(input);
+  } catch {
+    return { value: null, error: "Enter a valid amount" };
+  }
+  const error = amountError(action, value, state);
+  return { value: error ? null : value, error };
+}
+
+function FieldError({ error }: { error: string | null }) {
+  return error ? <p className="text-xs text-destructive">{error}</p> : null;
+}
+
+/** An amount field and its submit button, validated against the current state. */
+const AmountForm = observer(
+  ({
+    action,
+    label,
+    state,
+    onSubmit,
+  }: {
+    action: AmountAction;
+    label: string;
+    state: AdminState;
+    onSubmit: (value: bigint) => Promise<boolean>;
+  }) => {
+    const { txStore } = useStore();
+    const [input, setInput] = useState("");
+    const { value, error } = parseAmount(input, action, state);
+    const submit = async () => {
+      if (value !== null && (await onSubmit(value))) setInput("");
+    };
+    return (
+      <div className="space-y-1.5">
+        <div className="flex gap-2">
+          <Input
+            value={input}
+            onChange={(event) => setInput(event.target.value)}
+            placeholder={`Amount in ${NATIVE_UNIT}`}
+            inputMode="decimal"
+            className="font-data"
+            aria-label={`${label} amount`}
+          />
+          <Button
+            variant="secondary"
+            className="shrink-0"
+            disabled={value === null || txStore.signing}
+            onClick={() => void submit()}
+          >
+            {label}
+          </Button>
+        </div>
+        <FieldError error={error} />
+      </div>
+    );
+  },
+);
+
+function ConfirmationInput({
+  phrase,
+  value,
+  onChange,
+}: {
+  phrase: string;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <label className="block space-y-1 text-xs text-muted-foreground">
+      <span>
+        Type <span className="font-data text-foreground">{phrase}</span> to confirm
+      </span>
+      <Input value={value} onChange={(event) => onChange(event.target.value)} autoComplete="off" />
+    </label>
+  );
+}
+
+function Row({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div className="flex items-center justify-between gap-3 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-data min-w-0 truncate font-medium">{value}</span>
+    </div>
+  );
+}
+
+const amount = (value: bigint) => `${formatAmount(value)} ${NATIVE_UNIT}`;
+
+const PauseCard = observer(
+  ({ contracts, state }: { contracts: AdminContract[]; state: AdminState }) => {
+    const { txStore } = useStore();
+    return (
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Pause</CardTitle>
+          <CardDescription>
+            A paused DepositPool takes no deposits or withdrawals; a paused stQRL blocks transfers,
+            minting and burning.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {contracts.map((contract) => {
+            const paused = state.paused[contract];
+            return (
+              <div key={contract} className="flex items-center justify-between gap-3 text-sm">
+                <span>
+                  {CONTRACT_LABELS[contract]}{" "}
+                  <span className={paused ? "text-destructive" : "text-success"}>
+                    {paused ? "paused" : "running"}
+                  </span>
+                </span>
+                <Button
+                  size="sm"
+                  variant={paused ? "secondary" : "destructive"}
+                  disabled={txStore.signing}
+                  onClick={() =>
+                    void (paused ? txStore.unpause(contract) : txStore.pause(contract))
+                  }
+                >
+                  {paused ? "Unpause" : "Pause"}
+                </Button>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    );
+  },
+);
+
+const EmergencyWithdrawCard = observer(({ state }: { state: AdminState }) => {
+  const { txStore } = useStore();
+  const [to, setTo] = useState("");
+  const [input, setInput] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const { value, error } = parseAmount(input, "emergencyWithdraw", state);
+  const toError = to ? addressError(to) : null;
+  const ready =
+    value !== null &&
+    to !== "" &&
+    toError === null &&
+    isConfirmed("emergencyWithdraw", confirmation) &&
+    !txStore.signing;
+
+  const submit = async () => {
+    if (!ready || value === null) return;
+    if (await txStore.emergencyWithdraw(to.trim(), value)) {
+      setInput("");
+      setConfirmation("");
+    }
+  };
+
+  return (
+    <Card className="border-destructive/40">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base text-destructive">
+          <AlertTriangle className="h-4 w-4" /> Emergency withdraw
+        </CardTitle>
+        <CardDescription>
+          Recovers QRL the pool doesn't account for. Pooled funds and the withdrawal reserve can't
+          be withdrawn.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Row label="Recoverable now" value={amount(state.recoverable)} />
+        <div className="space-y-1.5">
+          <Input
+            value={to}
+            onChange={(event) => setTo(event.target.value)}
+            placeholder="Recipient Q-address"
+            className="font-data"
+            aria-label="Recipient"
+          />
+          <FieldError error={toError} />
+        </div>
+        <div className="space-y-1.5">
+          <Input
+            value={input}
+            onChange={(event) => setInput(event.target.value)}
+            placeholder={`Amount in ${NATIVE_UNIT}`}
+            inputMode="decimal"
+            className="font-data"
+            aria-label="Amount"
+          />
+          <FieldError error={error} />
+        </div>
+        <ConfirmationInput
+          phrase={CONFIRMATION_PHRASES.emergencyWithdraw}
+          value={confirmation}
+          onChange={setConfirmation}
+        />
+        <Button
+          variant="destructive"
+          className="w-full"
+          disabled={!ready}
+          onClick={() => void submit()}
+        >
+          Withdraw
+        </Button>
+      </CardContent>
+    </Card>
+  );
+});
+
+const OwnershipCard = observer(({ contracts }: { contracts: AdminContract[] }) => {
+  const { txStore } = useStore();
+  const [contract, setContract] = useState<AdminContract>(contracts[0]);
+  const [newOwner, setNewOwner] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const target = contracts.includes(contract) ? contract : contracts[0];
+  const ownerError = newOwner ? addressError(newOwner) : null;
+  const ready =
+    newOwner !== "" &&
+    ownerError === null &&
+    isConfirmed("transferOwnership", confirmation) &&
+    !txStore.signing;
+
+  const submit = async () => {
+    if (!ready) return;
+    if (await txStore.transferOwnership(target, newOwner.trim())) {
+      setNewOwner("");
+      setConfirmation("");
+    }
+  };
+
+  return (
+    <Card className="border-destructive/40">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base text-destructive">
+          <AlertTriangle className="h-4 w-4" /> Transfer ownership
+        </CardTitle>
+        <CardDescription>
+          Takes effect at once and can't be undone from this account. Check the address twice.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {contracts.length > 1 && (
+          <div className="flex gap-1.5">
+            {contracts.map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={option === target ? "default" : "outline"}
+                onClick={() => setContract(option)}
+              >
+                {CONTRACT_LABELS[option]}
+              </Button>
+            ))}
+          </div>
+        )}
+        <div className="space-y-1.5">
+          <Input
+            value={newOwner}
+            onChange={(event) => setNewOwner(event.target.value)}
+            placeholder={`New ${CONTRACT_LABELS[target]} owner Q-address`}
+            className="font-data"
+            aria-label="New owner"
+          />
+          <FieldError error={ownerError} />
+        </div>
+        <ConfirmationInput
+          phrase={CONFIRMATION_PHRASES.transferOwnership}
+          value={confirmation}
+          onChange={setConfirmation}
+        />
+        <Button
+          variant="destructive"
+          className="w-full"
+          disabled={!ready}
+          onClick={() => void submit()}
+        >
+          Transfer {CONTRACT_LABELS[target]} ownership
+        </Button>
+      </CardContent>
+    </Card>
+  );
+});
+
+/**
+ * Owner-only pool administration. Every action goes through the same
+ * simulate-then-send path as staking; the forms check inputs against the
+ * contracts' limits first and the destructive ones need a typed confirmation.
+ */
+export const AdminPage = observer(() => {
+  const { adminStore, txStore, walletStore } = useStore();
+
+  useEffect(() => adminStore.open(), [adminStore]);
+
+  const state = adminStore.state;
+  const owned = adminStore.owned;
+  const ownsPool = owned.includes("depositPool");
+
+  let body: React.ReactNode;
+  if (!walletStore.address) {
+    body = "Connect the owner account to administer the pool.";
+  } else if (!state) {
+    body = adminStore.error ? (
+      `Pool state is unavailable right now: ${adminStore.error}`
+    ) : (
+      <Skeleton className="h-40 w-full" />
+    );
+  } else if (!adminStore.isOwner) {
+    body = "The connected account doesn't own a pool contract.";
+  }
+  if (body || !state) {
+    return (
+      <div className="page-enter mx-auto max-w-2xl space-y-4 py-6">
+        <h1 className="text-2xl font-bold">Admin</h1>
+        {typeof body === "string" ? <p className="text-sm text-muted-foreground">{body}</p> : body}
+      </div>
+    );
+  }
+
+  return (
+    <div className="page-enter mx-auto max-w-2xl space-y-4 py-6">
+      <h1 className="text-2xl font-bold">Admin</h1>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Owners</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {(Object.keys(CONTRACT_LABELS) as AdminContract[]).map((contract) => (
+            <Row
+              key={contract}
+              label={CONTRACT_LABELS[contract]}
+              value={
+                <span title={state.owners[contract]}>
+                  {owned.includes(contract) ? "You" : state.owners[contract]}
+                </span>
+              }
+            />
+          ))}
+          <Row
+            label="ValidatorManager"
+            value={
+              <span title={state.validatorOperator}>
+                {adminStore.operatesValidators ? "You" : state.validatorOperator}
+              </span>
+            }
+          />
+        </CardContent>
+      </Card>
+
+      {(adminStore.operatesValidators || ownsPool) && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Validators</CardTitle>
+            <CardDescription>
+              Fund validators from verified deposit data, register them and move them through
+              their lifecycle, one at a time or in bulk.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild variant="secondary">
+              <Link to="/admin/validators">Open validator operations</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {owned.length > 0 && <PauseCard contracts={owned} state={state} />}
+
+      {ownsPool && (
+        <>
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Minimum deposit</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Row label="Minimum deposit" value={amount(state.minDeposit)} />
+              <AmountForm
+                action="setMinDeposit"
+                label="Set minimum"
+                state={state}
+                onSubmit={(value) => txStore.setMinDeposit(value)}
+              />
+              <Row label="Floor" value={amount(state.minDepositFloor)} />
+              <Row label="Absolute minimum" value={amount(state.absoluteMinDeposit)} />
+              <AmountForm
+                action="setMinDepositFloor"
+                label="Set floor"
+                state={state}
+                onSubmit={(value) => txStore.setMinDepositFloor(value)}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Withdrawal reserve</CardTitle>
+              <CardDescription>
+                Funding moves buffered QRL into the reserve that pays withdrawals; releasing moves
+                it back.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Row label="Reserve" value={amount(state.withdrawalReserve)} />
+              <AmountForm
+                action="fundWithdrawalReserve"
+                label="Fund"
+                state={state}
+                onSubmit={(value) => txStore.fundWithdrawalReserve(value)}
+              />
+              <AmountForm
+                action="releaseWithdrawalReserve"
+                label="Release"
+                state={state}
+                onSubmit={(value) => txStore.releaseWithdrawalReserve(value)}
+              />
+            </CardContent>
+          </Card>
+
+          <EmergencyWithdrawCard state={state} />
+        </>
+      )}
+
+      {owned.length > 0 && <OwnershipCard contracts={owned} />}
+    </div>
+  );
+});
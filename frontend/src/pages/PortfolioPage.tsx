@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Link } from "react-router";
+import { ArrowRight, BookmarkPlus, Download, ExternalLink, Plus, Trash2 } from "lucide-react";
+import { ExportModal } from "@/components/ExportModal";
+import { Button } from "@/components/UI/Button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/UI/Card";
+import { Input } from "@/components/UI/Input";
+import { Skeleton } from "@/components/UI/Skeleton";
+import { getExplorerAddressUrl, NATIVE_UNIT } from "@/config/networks";
+import { useStore } from "@/stores/store";
+import type { PortfolioEntry } from "@/stores/portfolioStore";
+import { formatAmount, formatFiat, shortenAddress } from "@/utils/format";
+import { saveError } from "@/utils/portfolio";
+
+const Row = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div className="flex justify-between gap-2">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="font-data text-right">{children}</span>
+  </div>
+);
+
+const withdrawalsText = (count: number, amount: bigint) =>
+  count === 0 ? "None" : `${count} · ${formatAmount(amount)} ${NATIVE_UNIT}`;
+
+export const PortfolioPage = observer(() => {
+  const { portfolioStore, priceStore, protocolStore, walletStore } = useStore();
+  const [input, setInput] = useState("");
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => portfolioStore.open(), [portfolioStore]);
+
+  const { entries, total } = portfolioStore;
+  const totalFiat = priceStore.value(total.qrlValue);
+
+  const onAdd = () => {
+    const error = portfolioStore.save(input);
+    setInputError(error);
+    if (!error) setInput("");
+  };
+
+  return (
+    <div className="page-enter mx-auto max-w-2xl space-y-4 py-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Portfolio</h1>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={entries.length === 0}
+          onClick={() => setExporting(true)}
+        >
+          <Download className="h-4 w-4" /> Export history
+        </Button>
+      </div>
+      {exporting && (
+        <ExportModal
+          initial={entries.map((entry) => entry.address)}
+          onClose={() => setExporting(false)}
+        />
+      )}
+
+      <Card className="surface-ember">
+        <CardHeader className="pb-4">
+          <CardTitle className="text-xl">
+            Total across {entries.length} address{entries.length === 1 ? "" : "es"}
+          </CardTitle>
+          <CardDescription>
+            Saved addresses plus the connected or watched one, read at the same block.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-1.5 text-sm">
+          <Row label="stQRL">{formatAmount(total.shares)}</Row>
+          <Row label="Value">
+            {formatAmount(total.qrlValue)} {NATIVE_UNIT}
+            {totalFiat !== null && (
+              <span className="ml-2 text-muted-foreground">
+                {formatFiat(totalFiat, priceStore.currency)}
+              </span>
+            )}
+          </Row>
+          <Row label="Locked in withdrawals">{formatAmount(total.lockedShares)} stQRL</Row>
+          {protocolStore.hasMaturityLock && (
+            <Row label="Still maturing">{formatAmount(total.immatureShares)} stQRL</Row>
+          )}
+          <Row label="Pending withdrawals">
+            {withdrawalsText(total.pendingCount, total.pendingQrl)}
+          </Row>
+          <Row label="Claimable now">
+            {withdrawalsText(total.claimableCount, total.claimableQrl)}
+          </Row>
+          {portfolioStore.error && (
+            <p className="pt-2 text-destructive">Could not refresh: {portfolioStore.error}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <form
+        className="space-y-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          onAdd();
+        }}
+      >
+        <div className="flex gap-2">
+          <Input
+            value={input}
+            onChange={(event) => setInput(event.target.value)}
+            placeholder="Add an address (Q…)"
+            aria-label="Address to add"
+            spellCheck={false}
+            className="font-data"
+          />
+          <Button type="submit" variant="outline" disabled={input.trim() === ""}>
+            <Plus className="h-4 w-4" />
+            Add
+          </Button>
+        </div>
+        {inputError && <p className="text-xs text-destructive">{inputError}</p>}
+      </form>
+
+      {entries.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">
+          Add an address, or connect a wallet, to see its position here.
+        </p>
+      ) : (
+        entries.map((entry) => (
+          <AddressCard
+            key={entry.address}
+            entry={entry}
+            onOpen={() => walletStore.watch(entry.address)}
+          />
+        ))
+      )}
+    </div>
+  );
+});
+
+const AddressCard = observer(
+  ({ entry, onOpen }: { entry: PortfolioEntry; onOpen: () => void }) => {
+    const { portfolioStore, protocolStore, walletStore } = useStore();
+    const { address, summary } = entry;
+    // A full list can't take the connected or watched address either.
+    const unsaveable = entry.saved ? null : saveError(portfolioStore.saved, address);
+    const tag = entry.connected
+      ? "Connected"
+      : address === walletStore.watchAddress
+        ? "Watching"
+        : null;
+
+    return (
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between gap-2">
+            <a
+              href={getExplorerAddressUrl(protocolStore.network, address)}
+              target="_blank"
+              rel="noreferrer"
+              className="inline-flex items-center gap-1 font-data text-sm text-blue-accent hover:underline"
+            >
+              {shortenAddress(address, 6)}
+              <ExternalLink className="h-3 w-3" />
+            </a>
+            <div className="flex items-center gap-2 text-xs">
+              {tag && <span className="text-muted-foreground">{tag}</span>}
+              {entry.saved ? (
+                <button
+                  onClick={() => portfolioStore.remove(address)}
+                  aria-label="Remove from portfolio"
+                  className="cursor-pointer text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              ) : (
+                <button
+                  onClick={() => portfolioStore.save(address)}
+                  disabled={unsaveable !== null}
+                  title={unsaveable ?? undefined}
+                  aria-label="Save to portfolio"
+                  className="cursor-pointer text-muted-foreground hover:text-primary disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  <BookmarkPlus className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-1.5 text-sm">
+          {summary ? (
+            <>
+              <Row label="stQRL">{formatAmount(summary.shares)}</Row>
+              <Row label="Value">
+                {formatAmount(summary.qrlValue)} {NATIVE_UNIT}
+              </Row>
+              <Row label="Locked in withdrawals">{formatAmount(summary.lockedShares)} stQRL</Row>
+              {protocolStore.hasMaturityLock && summary.immatureShares > 0n && (
+                <Row label="Still maturing">{formatAmount(summary.immatureShares)} stQRL</Row>
+              )}
+              <Row label="Pending withdrawals">
+                {withdrawalsText(summary.pendingCount, summary.pendingQrl)}
+              </Row>
+              <Row label="Claimable now">
+                {withdrawalsText(summary.claimableCount, summary.claimableQrl)}
+              </Row>
+            </>
+          ) : (
+            <Skeleton className="h-24 w-full" />
+          )}
+          <Link
+            to="/withdrawals"
+            onClick={onOpen}
+            className="inline-flex items-center gap-1 pt-1 text-xs text-blue-accent hover:underline"
+          >
+            Withdrawals
+            <ArrowRight className="h-3 w-3" />
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  },
+);
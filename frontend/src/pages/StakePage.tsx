@@ -1,4 +1,4 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { observer } from "mobx-react-lite";
 import { Link } from "react-router";
 import { Zap } from "lucide-react";
@@ -6,10 +6,13 @@ import { Button } from "@/components/UI/Button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/UI/Card";
 import { AmountInput } from "@/components/AmountInput";
 import { ActivityCard } from "@/components/ActivityCard";
+import { FeeEstimate } from "@/components/FeeEstimate";
+import { PositionCard } from "@/components/PositionCard";
 import { StatsBar } from "@/components/StatsBar";
 import { NATIVE_UNIT } from "@/config/networks";
 import { useStore } from "@/stores/store";
-import { formatAmount, formatRate, formatUsd, parseUnits } from "@/utils/format";
+import { quoteFee, spendableBalance } from "@/utils/feeQuote";
+import { formatAmount, formatRate, parseUnits } from "@/utils/format";
 
 const FAQ_ITEMS: { question: string; answer: string }[] = [
   {
@@ -44,11 +47,11 @@ const FAQ_ITEMS: { question: string; answer: string }[] = [
 ];
 
 export const StakePage = observer(() => {
-  const { poolStore } = useStore();
+  const { walletStore, protocolStore, txStore } = useStore();
   const [amount, setAmount] = useState("");
 
-  const pool = poolStore.pool;
-  const account = poolStore.account;
+  const pool = protocolStore.pool;
+  const account = protocolStore.account;
 
   const parsedAmount = useMemo(() => {
     if (!amount) return null;
@@ -59,7 +62,16 @@ export const StakePage = observer(() => {
     }
   }, [amount]);
 
-  const stakeBalance = poolStore.stakeableBalance;
+  const feeQuote = quoteFee(txStore.gasEstimates.stake, protocolStore.feeMarket);
+  // Max keeps back the quoted maximum fee.
+  const stakeBalance = account ? spendableBalance(account.qrlBalance, feeQuote) : null;
+
+  // Quote the typed amount, or the minimum deposit so Max has a fee to keep back.
+  const quoteAmount =
+    account && parsedAmount !== null && parsedAmount > 0n && parsedAmount <= account.qrlBalance
+      ? parsedAmount
+      : (pool?.minDeposit ?? null);
+  useEffect(() => txStore.quoteFee("stake", quoteAmount), [txStore, quoteAmount, account?.address]);
 
   const validationError = useMemo(() => {
     if (!account || !amount) return null;
@@ -69,23 +81,27 @@ export const StakePage = observer(() => {
       return `Minimum deposit is ${formatAmount(pool.minDeposit)} ${NATIVE_UNIT}`;
     }
     if (parsedAmount > account.qrlBalance) return `Insufficient ${NATIVE_UNIT} balance`;
+    if (stakeBalance !== null && parsedAmount > stakeBalance) {
+      return "Leave enough for the network fee";
+    }
     return null;
-  }, [account, amount, parsedAmount, pool]);
+  }, [account, amount, parsedAmount, pool, stakeBalance]);
 
   const previewShares =
-    parsedAmount !== null && parsedAmount > 0n ? poolStore.sharesForQrl(parsedAmount) : null;
+    parsedAmount !== null && parsedAmount > 0n ? protocolStore.sharesForQrl(parsedAmount) : null;
 
   const canStake =
     !!account &&
     parsedAmount !== null &&
     parsedAmount > 0n &&
     !validationError &&
-    poolStore.tx.state !== "pending" &&
+    !txStore.signing &&
+    !walletStore.watching &&
     !(pool?.paused ?? false);
 
   const onStake = async () => {
     if (!canStake) return;
-    const ok = await poolStore.stake(amount);
+    const ok = await txStore.stake(amount);
     if (ok) setAmount("");
   };
 
@@ -125,7 +141,7 @@ export const StakePage = observer(() => {
               onChange={setAmount}
               balance={stakeBalance}
               symbol={NATIVE_UNIT}
-              disabled={poolStore.tx.state === "pending"}
+              disabled={txStore.signing}
             />
 
             {validationError && (
@@ -155,6 +171,7 @@ export const StakePage = observer(() => {
                 <span className="text-muted-foreground">Protocol fee</span>
                 <span>None</span>
               </div>
+              {account && <FeeEstimate quote={feeQuote} error={txStore.feeErrors.stake} />}
             </div>
 
             {pool?.paused && (
@@ -166,58 +183,28 @@ export const StakePage = observer(() => {
             {account ? (
               <Button className="w-full" size="lg" disabled={!canStake} onClick={() => void onStake()}>
                 <Zap className="h-4 w-4" />
-                {poolStore.tx.state === "pending" ? "Waiting for confirmation…" : "Stake QRL"}
+                {walletStore.watching
+                  ? walletStore.address
+                    ? "Viewing another address - stop viewing to stake"
+                    : "Viewing only - connect a wallet to stake"
+                  : txStore.signing
+                    ? "Confirm in your wallet…"
+                    : "Stake QRL"}
               </Button>
             ) : (
               <Button
                 className="w-full"
                 size="lg"
-                disabled={poolStore.isConnecting}
-                onClick={() => void poolStore.connect()}
+                disabled={walletStore.isConnecting}
+                onClick={() => void walletStore.connect()}
               >
-                {poolStore.isConnecting ? "Connecting…" : "Connect wallet to stake"}
+                {walletStore.isConnecting ? "Connecting…" : "Connect wallet to stake"}
               </Button>
             )}
           </CardContent>
         </Card>
 
-        {/* Position */}
-        {account && (
-          <Card className="border-l-2 border-l-blue-accent">
-            <CardHeader className="pb-2">
-              <CardTitle className="text-base">Your position</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-1.5 text-sm">
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">stQRL balance</span>
-                <span className="font-data font-medium">{formatAmount(account.shares)} stQRL</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Current value</span>
-                <span className="font-data font-medium">
-                  {formatAmount(account.qrlValue)} {NATIVE_UNIT}
-                  {(() => {
-                    const usd = poolStore.usdValue(account.qrlValue);
-                    return usd !== null ? (
-                      <span className="ml-1 text-xs font-normal text-muted-foreground">
-                        ≈ {formatUsd(usd)}
-                      </span>
-                    ) : null;
-                  })()}
-                </span>
-              </div>
-              {account.lockedShares > 0n && (
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Locked in withdrawals</span>
-                  <Link to="/withdrawals" className="font-data text-blue-accent hover:underline">
-                    {formatAmount(account.lockedShares)} stQRL
-                  </Link>
-                </div>
-              )}
-            </CardContent>
-          </Card>
-        )}
-
+        <PositionCard />
         <ActivityCard />
       </section>
 
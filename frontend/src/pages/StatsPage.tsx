@@ -1,9 +1,11 @@
 import { observer } from "mobx-react-lite";
+import { Link } from "react-router";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/UI/Card";
 import { Skeleton } from "@/components/UI/Skeleton";
 import { useStore } from "@/stores/store";
 import { getExplorerAddressUrl, NATIVE_UNIT, VALIDATOR_STAKE_QRL } from "@/config/networks";
-import { formatAmount, formatRate, formatUsd, shortenAddress } from "@/utils/format";
+import { RateChart } from "@/components/RateChart";
+import { formatAmount, formatFiat, formatPercent, formatRate, shortenAddress } from "@/utils/format";
 
 function Row({ label, value }: { label: string; value: React.ReactNode | null }) {
   return (
@@ -14,10 +16,17 @@ function Row({ label, value }: { label: string; value: React.ReactNode | null })
   );
 }
 
+/** Endpoint URL without the scheme - enough to tell providers apart. */
+const endpointLabel = (url: string) => url.replace(/^https?:\/\//, "");
+
 export const StatsPage = observer(() => {
-  const { poolStore } = useStore();
-  const pool = poolStore.pool;
-  const { contracts } = poolStore.network;
+  const { priceStore, protocolStore, rateStore } = useStore();
+  const pool = protocolStore.pool;
+  const { apr } = rateStore;
+  // Null (skeleton) while the history loads; "-" once loaded without enough of it.
+  const aprValue = (value: number | null) =>
+    value !== null ? formatPercent(value) : rateStore.history.length > 0 ? "-" : null;
+  const { contracts } = protocolStore.network;
 
   const bufferProgress = pool
     ? Math.min(100, Number((pool.buffered * 100n) / VALIDATOR_STAKE_QRL))
@@ -38,8 +47,8 @@ export const StatsPage = observer(() => {
               value={
                 pool
                   ? `${formatAmount(pool.totalPooled)} ${NATIVE_UNIT}${(() => {
-                      const usd = poolStore.usdValue(pool.totalPooled);
-                      return usd !== null ? ` (≈ ${formatUsd(usd)})` : "";
+                      const fiat = priceStore.value(pool.totalPooled);
+                      return fiat !== null ? ` (≈ ${formatFiat(fiat, priceStore.currency)})` : "";
                     })()}`
                   : null
               }
@@ -78,9 +87,40 @@ export const StatsPage = observer(() => {
           </CardContent>
         </Card>
 
+        <Card className="sm:col-span-2">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Exchange rate history</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-2 sm:grid-cols-3">
+              <Row label="APR (7d)" value={aprValue(apr.week)} />
+              <Row label="APR (30d)" value={aprValue(apr.month)} />
+              <Row label="APR (since launch)" value={aprValue(apr.inception)} />
+            </div>
+            {rateStore.error ? (
+              <p className="text-sm text-muted-foreground">
+                Rate history unavailable: {rateStore.error}
+              </p>
+            ) : rateStore.history.length > 0 ? (
+              <RateChart points={rateStore.chart} />
+            ) : (
+              <Skeleton className="h-40 w-full" />
+            )}
+            <p className="text-xs text-muted-foreground">
+              Rebuilt from reward, slashing and pooled-QRL events. APR is the realized change in
+              the stQRL exchange rate, annualized without compounding.
+            </p>
+          </CardContent>
+        </Card>
+
         <Card className="border-l-2 border-l-blue-accent">
           <CardHeader className="pb-3">
-            <CardTitle className="text-base">Validators</CardTitle>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-base">Validators</CardTitle>
+              <Link to="/validators" className="text-xs text-blue-accent hover:underline">
+                All validators
+              </Link>
+            </div>
           </CardHeader>
           <CardContent className="space-y-2">
             <Row label="Active" value={pool ? pool.activeValidators.toString() : null} />
@@ -126,32 +166,79 @@ export const StatsPage = observer(() => {
 
         <Card className="sm:col-span-2">
           <CardHeader className="pb-3">
-            <CardTitle className="text-base">Contracts ({poolStore.network.name})</CardTitle>
+            <CardTitle className="text-base">Contracts ({protocolStore.network.name})</CardTitle>
           </CardHeader>
           <CardContent className="space-y-2">
             {(
               [
-                ["DepositPool", contracts.depositPool],
-                ["stQRL token", contracts.stQRL],
-                ["ValidatorManager", contracts.validatorManager],
+                ["DepositPool", "depositPool"],
+                ["stQRL token", "stQRL"],
+                ["ValidatorManager", "validatorManager"],
               ] as const
-            ).map(([label, address]) => (
-              <div key={label} className="flex items-center justify-between text-sm">
-                <span className="text-muted-foreground">{label}</span>
-                {address ? (
-                  <a
-                    href={getExplorerAddressUrl(address)}
-                    target="_blank"
-                    rel="noreferrer"
-                    className="font-data text-xs text-blue-accent hover:underline"
-                  >
-                    {shortenAddress(address, 6)}
-                  </a>
-                ) : (
-                  <span className="text-xs text-muted-foreground">Not deployed</span>
-                )}
-              </div>
-            ))}
+            ).map(([label, key]) => {
+              const address = contracts[key];
+              const version = protocolStore.deployment?.versions[key];
+              return (
+                <div key={label} className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {label}
+                    {version && <span className="ml-2 font-data text-xs">{version}</span>}
+                  </span>
+                  {address ? (
+                    <a
+                      href={getExplorerAddressUrl(protocolStore.network, address)}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="font-data text-xs text-blue-accent hover:underline"
+                    >
+                      {shortenAddress(address, 6)}
+                    </a>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">Not deployed</span>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+
+        <Card className="sm:col-span-2">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">RPC endpoints</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {protocolStore.rpcEndpoints.length === 0 ? (
+              <Row label="In use" value={null} />
+            ) : (
+              protocolStore.rpcEndpoints.map((endpoint) => {
+                const inUse = endpoint.url === protocolStore.rpcEndpoint;
+                const backingOff = endpoint.benchedUntil > Date.now();
+                return (
+                  <div key={endpoint.url} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="min-w-0 truncate font-data text-xs">
+                      {endpointLabel(endpoint.url)}
+                    </span>
+                    <span className="shrink-0 text-xs">
+                      {backingOff ? (
+                        <span className="text-secondary">Unreachable, retrying</span>
+                      ) : inUse ? (
+                        <span className="inline-flex items-center gap-1.5 text-success">
+                          <span aria-hidden className="glow-dot h-1.5 w-1.5 rounded-full bg-success" />
+                          In use
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">Fallback</span>
+                      )}
+                      {endpoint.latencyMs !== null && (
+                        <span className="ml-2 font-data text-muted-foreground">
+                          {Math.round(endpoint.latencyMs)} ms
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                );
+              })
+            )}
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,195 @@
+import { useEffect } from "react";
+import { observer } from "mobx-react-lite";
+import { Link, useParams } from "react-router";
+import { ArrowLeft, ExternalLink } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/UI/Card";
+import { Skeleton } from "@/components/UI/Skeleton";
+import { ValidatorStatusBadge } from "@/components/ValidatorStatusBadge";
+import { getExplorerValidatorUrl, NATIVE_UNIT } from "@/config/networks";
+import { useStore } from "@/stores/store";
+import type { BeaconPerformance } from "@/utils/beaconPerformance";
+import { formatAmount, formatPercent } from "@/utils/format";
+
+/** Beacon-chain balances use 9 decimals. */
+const BEACON_DECIMALS = 9;
+
+function Row({ label, value }: { label: string; value: React.ReactNode | null }) {
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-data font-medium">{value ?? "-"}</span>
+    </div>
+  );
+}
+
+function Performance({ performance }: { performance: BeaconPerformance }) {
+  const { validator, effectiveness, epochsChecked, proposals, missed } = performance;
+  const beaconAmount = (value: bigint) =>
+    `${formatAmount(value, BEACON_DECIMALS)} ${NATIVE_UNIT}`;
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Row label="Beacon index" value={validator.index} />
+        <Row label="Beacon status" value={validator.status.replace(/_/g, " ")} />
+        <Row label="Balance" value={beaconAmount(validator.balance)} />
+        <Row label="Effective balance" value={beaconAmount(validator.effectiveBalance)} />
+        <Row
+          label={`Attestation effectiveness (last ${epochsChecked} epochs)`}
+          value={effectiveness === null ? null : formatPercent(effectiveness, 1)}
+        />
+        <Row
+          label="Proposals"
+          value={`${proposals.filter((duty) => duty.proposed).length} of ${proposals.length}`}
+        />
+        {validator.slashed && (
+          <p className="text-sm text-destructive">This validator has been slashed.</p>
+        )}
+      </div>
+
+      {proposals.length > 0 && (
+        <div className="space-y-1">
+          <h3 className="text-xs font-medium text-muted-foreground">Recent proposals</h3>
+          <ul className="space-y-0.5 text-sm">
+            {proposals.map((duty) => (
+              <li key={duty.slot.toString()} className="flex justify-between">
+                <span className="font-data">Slot {duty.slot.toString()}</span>
+                <span className={duty.proposed ? "text-success" : "text-destructive"}>
+                  {duty.proposed ? "Proposed" : "Missed"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <h3 className="text-xs font-medium text-muted-foreground">Recent missed duties</h3>
+        {missed.length === 0 ? (
+          <p className="text-sm text-muted-foreground">None in the checked epochs.</p>
+        ) : (
+          <ul className="space-y-0.5 text-sm">
+            {missed.map((duty) =>
+              duty.kind === "attestation" ? (
+                <li key={`a${duty.epoch}`} className="text-destructive">
+                  Attestation, epoch <span className="font-data">{duty.epoch.toString()}</span>
+                </li>
+              ) : (
+                <li key={`p${duty.slot}`} className="text-destructive">
+                  Block proposal, slot <span className="font-data">{duty.slot.toString()}</span>
+                </li>
+              ),
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const BeaconCard = observer(() => {
+  const { beaconStore } = useStore();
+  let content: React.ReactNode;
+  if (!beaconStore.configured) {
+    content = "No beacon node is configured for this network.";
+  } else if (beaconStore.error && !beaconStore.performance) {
+    content = `The beacon node is unavailable right now: ${beaconStore.error}`;
+  } else if (beaconStore.notFound) {
+    content = "The beacon chain doesn't know this validator yet.";
+  } else if (!beaconStore.performance) {
+    content = (
+      <div className="space-y-2">
+        <Skeleton className="h-4 w-full" />
+        <Skeleton className="h-4 w-full" />
+        <Skeleton className="h-4 w-2/3" />
+      </div>
+    );
+  } else {
+    content = <Performance performance={beaconStore.performance} />;
+  }
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Beacon chain</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {typeof content === "string" ? (
+          <p className="text-sm text-muted-foreground">{content}</p>
+        ) : (
+          content
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+const blockValue = (block: bigint | null) => block?.toString() ?? null;
+
+/** One pool validator: its ValidatorManager record and its beacon-chain performance. */
+export const ValidatorDetailPage = observer(() => {
+  const { beaconStore, networkStore, validatorStore } = useStore();
+  const { id = "" } = useParams();
+  const validators = validatorStore.validators;
+  const validator = /^\d+$/.test(id)
+    ? validators?.find((record) => record.id === BigInt(id))
+    : undefined;
+  const pubkey = validator?.pubkey;
+
+  useEffect(() => validatorStore.open(), [validatorStore]);
+  useEffect(() => (pubkey ? beaconStore.open(pubkey) : undefined), [beaconStore, pubkey]);
+
+  return (
+    <div className="page-enter mx-auto max-w-3xl space-y-4 py-6">
+      <Link
+        to="/validators"
+        className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="h-4 w-4" /> All validators
+      </Link>
+      <div className="flex items-center gap-3">
+        <h1 className="text-2xl font-bold">Validator #{id}</h1>
+        {validator && <ValidatorStatusBadge status={validator.status} className="text-sm" />}
+      </div>
+
+      {validatorStore.error && !validators ? (
+        <p className="text-sm text-muted-foreground">
+          Validators are unavailable right now: {validatorStore.error}
+        </p>
+      ) : !validators ? (
+        <Skeleton className="h-40 w-full" />
+      ) : !validator ? (
+        <p className="text-sm text-muted-foreground">The pool has no validator #{id}.</p>
+      ) : (
+        <>
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">On-chain record</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <div className="flex items-start gap-2 text-sm">
+                <span className="font-data min-w-0 flex-1 break-all">{validator.pubkey}</span>
+                <a
+                  href={getExplorerValidatorUrl(networkStore.network, validator.pubkey)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="shrink-0 text-muted-foreground hover:text-blue-accent"
+                  aria-label="View validator on explorer"
+                >
+                  <ExternalLink className="h-4 w-4" />
+                </a>
+              </div>
+              <Row label="Registered at block" value={blockValue(validator.registeredBlock)} />
+              <Row label="Activated at block" value={blockValue(validator.activatedBlock)} />
+              <Row
+                label="Exit requested at block"
+                value={blockValue(validator.exitRequestedBlock)}
+              />
+              <Row label="Exited at block" value={blockValue(validator.exitedBlock)} />
+              <Row label="Slashed at block" value={blockValue(validator.slashedBlock)} />
+            </CardContent>
+          </Card>
+          <BeaconCard />
+        </>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,375 @@
+import { useEffect, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Link } from "react-router";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/UI/Button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/UI/Card";
+import { Skeleton } from "@/components/UI/Skeleton";
+import { ValidatorStatusBadge } from "@/components/ValidatorStatusBadge";
+import { useStore } from "@/stores/store";
+import { NATIVE_UNIT, VALIDATOR_STAKE_QRL } from "@/config/networks";
+import type { AdminState } from "@/utils/admin";
+import { cn } from "@/utils/cn";
+import { checkDeposit, parseDepositFile, type DepositTarget } from "@/utils/depositData";
+import { errorMessage } from "@/utils/errors";
+import { formatAmount } from "@/utils/format";
+import {
+  actionsFor,
+  countByStatus,
+  isRegistered,
+  planTransition,
+  pubkeyError,
+  VALIDATOR_STATUS_LABELS,
+  type ValidatorAction,
+  type ValidatorRecord,
+  type ValidatorStatus,
+} from "@/utils/validators";
+
+/** Statuses an operator can still move a validator out of. */
+const WORKING_STATUSES = ["pending", "active", "exiting"] as const satisfies ValidatorStatus[];
+
+const ACTION_LABELS: Record<ValidatorAction, string> = {
+  activate: "Activate",
+  requestExit: "Request exit",
+  markExited: "Mark exited",
+  markSlashed: "Mark slashed",
+};
+
+const shortPubkey = (pubkey: string) => `${pubkey.slice(0, 10)}…${pubkey.slice(-8)}`;
+
+const RegisterCard = observer(({ validators }: { validators: readonly ValidatorRecord[] }) => {
+  const { txStore } = useStore();
+  const [pubkey, setPubkey] = useState("");
+  const trimmed = pubkey.trim();
+  const error = trimmed ? pubkeyError(trimmed, validators) : null;
+
+  const submit = async () => {
+    if (!trimmed || error) return;
+    const hex = trimmed.startsWith("0x") ? trimmed : `0x${trimmed}`;
+    if (await txStore.registerValidator(hex.toLowerCase())) setPubkey("");
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Register a validator</CardTitle>
+        <CardDescription>
+          Records a Dilithium pubkey as pending. Register a validator before funding it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <textarea
+          value={pubkey}
+          onChange={(event) => setPubkey(event.target.value)}
+          placeholder="0x… validator pubkey"
+          rows={3}
+          spellCheck={false}
+          aria-label="Validator pubkey"
+          className="font-data w-full resize-y rounded-md border border-input bg-foreground/[0.04] px-3 py-2 text-xs break-all placeholder:text-muted-foreground/70 focus-visible:border-primary/60 focus-visible:outline-none"
+        />
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        <Button
+          variant="secondary"
+          disabled={!trimmed || error !== null || txStore.signing}
+          onClick={() => void submit()}
+        >
+          Register
+        </Button>
+      </CardContent>
+    </Card>
+  );
+});
+
+/**
+ * Funds validators from a deposit_data JSON file, checked in the browser
+ * first: lengths, credentials pointing at this DepositPool and the stake
+ * amount. fundValidator doesn't touch ValidatorManager, so a pubkey that
+ * isn't registered there yet is only warned about.
+ */
+const FundValidatorCard = observer(
+  ({ state, validators }: { state: AdminState; validators: readonly ValidatorRecord[] }) => {
+    const { networkStore, txStore } = useStore();
+    const [upload, setUpload] = useState<unknown[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [funded, setFunded] = useState<ReadonlySet<number>>(new Set());
+
+    const load = async (file: File | undefined) => {
+      if (!file) return;
+      setFunded(new Set());
+      try {
+        setUpload(parseDepositFile(await file.text()));
+        setError(null);
+      } catch (loadError) {
+        setUpload(null);
+        setError(errorMessage(loadError));
+      }
+    };
+
+    // Checked on every render so a network switch re-targets the pool and fork checks.
+    const { contracts, beaconChain } = networkStore.network;
+    const target: DepositTarget = {
+      poolAddress: contracts.depositPool,
+      validatorStake: VALIDATOR_STAKE_QRL,
+      ...beaconChain,
+    };
+    const checks = upload?.map((entry, index) => checkDeposit(entry, index, target)) ?? [];
+
+    const fund = async (index: number) => {
+      const deposit = checks[index]?.deposit;
+      if (deposit && (await txStore.fundValidator(deposit))) {
+        setFunded(new Set(funded).add(index));
+      }
+    };
+
+    return (
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Fund a validator</CardTitle>
+          <CardDescription>
+            Upload the deposit_data JSON from the deposit CLI. Each entry stakes{" "}
+            {formatAmount(VALIDATOR_STAKE_QRL)} {NATIVE_UNIT} from the buffer, which holds{" "}
+            {formatAmount(state.buffered)} {NATIVE_UNIT}
+            {state.canFundValidator ? "." : " - not enough for a validator yet."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <input
+            type="file"
+            accept="application/json,.json"
+            aria-label="Deposit data file"
+            onChange={(event) => void load(event.target.files?.[0])}
+            className="block w-full text-sm text-muted-foreground file:mr-3 file:cursor-pointer file:rounded-md file:border-0 file:bg-secondary file:px-3 file:py-1.5 file:text-sm file:text-secondary-foreground"
+          />
+          {error && <p className="text-xs text-destructive">{error}</p>}
+          {upload && (
+            <ul className="divide-y divide-border/60">
+              {checks.map(({ index, deposit, errors }) => {
+                const pubkey = (upload[index] as { pubkey?: unknown } | null)?.pubkey;
+                return (
+                  <li key={index} className="flex items-start gap-3 py-2.5 text-sm">
+                    <span className="font-data w-10 shrink-0 text-muted-foreground">
+                      {index + 1}
+                    </span>
+                    <div className="min-w-0 flex-1">
+                      <p className="font-data truncate">
+                        {typeof pubkey === "string" ? shortPubkey(pubkey) : "No pubkey"}
+                      </p>
+                      {errors.map((message) => (
+                        <p key={message} className="text-xs text-destructive">
+                          {message}
+                        </p>
+                      ))}
+                      {deposit && !isRegistered(deposit.pubkey, validators) && (
+                        <p className="text-xs text-muted-foreground">
+                          Not registered on ValidatorManager yet, so its status won't be tracked.
+                        </p>
+                      )}
+                    </div>
+                    {funded.has(index) ? (
+                      <span className="text-xs text-muted-foreground">Funded</span>
+                    ) : (
+                      deposit && (
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          disabled={!state.canFundValidator || txStore.signing}
+                          title={
+                            state.canFundValidator
+                              ? undefined
+                              : "The buffer doesn't cover a validator's stake yet"
+                          }
+                          onClick={() => void fund(index)}
+                        >
+                          Fund
+                        </Button>
+                      )
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    );
+  },
+);
+
+/**
+ * Operator view of ValidatorManager: validators by status, selectable in
+ * bulk, with the status transitions each group allows. Selections are checked
+ * against the contract's transition rules before anything is sent. DepositPool
+ * owners fund validators here too.
+ */
+export const ValidatorOperationsPage = observer(() => {
+  const { adminStore, txStore, validatorStore, walletStore } = useStore();
+  const [status, setStatus] = useState<(typeof WORKING_STATUSES)[number]>("pending");
+  const [selected, setSelected] = useState<ReadonlySet<bigint>>(new Set());
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => validatorStore.open(), [validatorStore]);
+  useEffect(() => adminStore.open(), [adminStore]);
+
+  const validators = validatorStore.validators;
+  const counts = validators ? countByStatus(validators) : null;
+  const shown = validators?.filter((validator) => validator.status === status) ?? [];
+  const selection = validators?.filter((validator) => selected.has(validator.id)) ?? [];
+  const allSelected = shown.length > 0 && shown.every((validator) => selected.has(validator.id));
+
+  const choose = (next: (typeof WORKING_STATUSES)[number]) => {
+    setStatus(next);
+    setSelected(new Set());
+  };
+  const toggle = (id: bigint) => {
+    const next = new Set(selected);
+    if (!next.delete(id)) next.add(id);
+    setSelected(next);
+  };
+  const toggleAll = () =>
+    setSelected(allSelected ? new Set() : new Set(shown.map((validator) => validator.id)));
+
+  /** Activation is one batch transaction; other transitions go one validator at a time. */
+  const run = async (action: ValidatorAction, ids: bigint[]) => {
+    setRunning(true);
+    try {
+      let ok = true;
+      if (action === "activate") {
+        ok = await txStore.activateValidators(ids);
+      } else {
+        for (const id of ids) {
+          ok = await txStore.transitionValidator(action, id);
+          if (!ok) break;
+        }
+      }
+      if (ok) setSelected(new Set());
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const fundsValidators = adminStore.owned.includes("depositPool");
+  let notice: string | null = null;
+  if (!walletStore.address) notice = "Connect the ValidatorManager or DepositPool owner account.";
+  else if (adminStore.state && !adminStore.operatesValidators && !fundsValidators) {
+    notice = "The connected account doesn't own ValidatorManager or DepositPool.";
+  }
+
+  return (
+    <div className="page-enter mx-auto max-w-3xl space-y-4 py-6">
+      <Link
+        to="/admin"
+        className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="h-4 w-4" /> Admin
+      </Link>
+      <h1 className="text-2xl font-bold">Validator operations</h1>
+
+      {notice ? (
+        <p className="text-sm text-muted-foreground">{notice}</p>
+      ) : validatorStore.error && !validators ? (
+        <p className="text-sm text-muted-foreground">
+          Validators are unavailable right now: {validatorStore.error}
+        </p>
+      ) : !validators || !adminStore.state ? (
+        <Skeleton className="h-40 w-full" />
+      ) : (
+        <>
+          {fundsValidators && (
+            <FundValidatorCard state={adminStore.state} validators={validators} />
+          )}
+
+          {adminStore.operatesValidators && (
+            <Card>
+              <CardHeader className="space-y-3 pb-3">
+                <div className="flex flex-wrap gap-1.5">
+                  {WORKING_STATUSES.map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => choose(option)}
+                      className={cn(
+                        "cursor-pointer rounded-full border px-3 py-1 text-xs font-medium transition-colors",
+                        status === option
+                          ? "border-primary/40 bg-primary/15 text-primary"
+                          : "border-border text-muted-foreground hover:text-foreground",
+                      )}
+                    >
+                      {VALIDATOR_STATUS_LABELS[option]}
+                      <span className="ml-1 font-data">{counts?.[option]}</span>
+                    </button>
+                  ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      disabled={shown.length === 0}
+                      onChange={toggleAll}
+                    />
+                    Select all {VALIDATOR_STATUS_LABELS[status].toLowerCase()}
+                  </label>
+                  <span className="flex-1" />
+                  {actionsFor(status).map((action) => {
+                    const { ids, rejected } = planTransition(selection, action);
+                    const busy = running || txStore.signing;
+                    const disallowed =
+                      rejected.length > 0
+                        ? `Not allowed for ${rejected.map((v) => `#${v.id}`).join(", ")} ` +
+                          `(${rejected.map((v) => VALIDATOR_STATUS_LABELS[v.status]).join(", ")})`
+                        : undefined;
+                    return (
+                      <Button
+                        key={action}
+                        size="sm"
+                        variant={action === "markSlashed" ? "destructive" : "secondary"}
+                        disabled={ids.length === 0 || rejected.length > 0 || busy}
+                        title={disallowed}
+                        onClick={() => void run(action, ids)}
+                      >
+                        {ACTION_LABELS[action]}
+                        {ids.length > 0 && ` (${ids.length})`}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </CardHeader>
+              <CardContent>
+                {shown.length === 0 ? (
+                  <p className="py-3 text-center text-sm text-muted-foreground">
+                    No {VALIDATOR_STATUS_LABELS[status].toLowerCase()} validators.
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-border/60">
+                    {shown.map((validator) => (
+                      <li key={validator.id.toString()}>
+                        <label className="flex cursor-pointer items-center gap-3 py-2.5 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={selected.has(validator.id)}
+                            onChange={() => toggle(validator.id)}
+                          />
+                          <span className="font-data w-10 shrink-0 text-muted-foreground">
+                            #{validator.id.toString()}
+                          </span>
+                          <span
+                            className="font-data min-w-0 flex-1 truncate"
+                            title={validator.pubkey}
+                          >
+                            {shortPubkey(validator.pubkey)}
+                          </span>
+                          <ValidatorStatusBadge status={validator.status} />
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {adminStore.operatesValidators && <RegisterCard validators={validators} />}
+        </>
+      )}
+    </div>
+  );
+});
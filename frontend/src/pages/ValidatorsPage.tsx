@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Link } from "react-router";
+import { ExternalLink, Search } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/UI/Card";
+import { Input } from "@/components/UI/Input";
+import { Skeleton } from "@/components/UI/Skeleton";
+import { ValidatorStatusBadge } from "@/components/ValidatorStatusBadge";
+import { getExplorerValidatorUrl } from "@/config/networks";
+import { useStore } from "@/stores/store";
+import { cn } from "@/utils/cn";
+import {
+  countByStatus,
+  filterValidators,
+  VALIDATOR_STATUS_LABELS,
+  VALIDATOR_STATUSES,
+  type ValidatorRecord,
+  type ValidatorStatus,
+} from "@/utils/validators";
+
+/** Statuses worth a filter button ("none" never appears in the list). */
+const FILTERS = VALIDATOR_STATUSES.filter((status) => status !== "none");
+
+const shortPubkey = (pubkey: string) => `${pubkey.slice(0, 10)}…${pubkey.slice(-8)}`;
+
+function BlockCell({ label, block }: { label: string; block: bigint | null }) {
+  if (block === null) return null;
+  return (
+    <span>
+      {label} <span className="font-data text-foreground">{block.toString()}</span>
+    </span>
+  );
+}
+
+const ValidatorRow = observer(({ validator }: { validator: ValidatorRecord }) => {
+  const { networkStore } = useStore();
+  return (
+    <li className="space-y-1 py-3 text-sm">
+      <div className="flex items-center gap-3">
+        <span className="font-data w-10 shrink-0 text-muted-foreground">
+          #{validator.id.toString()}
+        </span>
+        <Link
+          to={`/validators/${validator.id}`}
+          className="font-data min-w-0 flex-1 truncate hover:text-blue-accent"
+          title={validator.pubkey}
+        >
+          {shortPubkey(validator.pubkey)}
+        </Link>
+        <ValidatorStatusBadge status={validator.status} />
+        <a
+          href={getExplorerValidatorUrl(networkStore.network, validator.pubkey)}
+          target="_blank"
+          rel="noreferrer"
+          className="shrink-0 text-muted-foreground hover:text-blue-accent"
+          aria-label="View validator on explorer"
+        >
+          <ExternalLink className="h-4 w-4" />
+        </a>
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-0.5 pl-13 text-xs text-muted-foreground">
+        <BlockCell label="Registered" block={validator.registeredBlock} />
+        <BlockCell label="Activated" block={validator.activatedBlock} />
+        <BlockCell label="Exit requested" block={validator.exitRequestedBlock} />
+        <BlockCell label="Exited" block={validator.exitedBlock} />
+        <BlockCell label="Slashed" block={validator.slashedBlock} />
+      </div>
+    </li>
+  );
+});
+
+/** Every validator the pool has registered, from ValidatorManager. */
+export const ValidatorsPage = observer(() => {
+  const { validatorStore } = useStore();
+  const [status, setStatus] = useState<ValidatorStatus | "all">("all");
+  const [query, setQuery] = useState("");
+
+  useEffect(() => validatorStore.open(), [validatorStore]);
+
+  const validators = validatorStore.validators;
+  const counts = validators ? countByStatus(validators) : null;
+  const shown = validators ? filterValidators(validators, status, query) : [];
+
+  return (
+    <div className="page-enter mx-auto max-w-3xl space-y-4 py-6">
+      <h1 className="text-2xl font-bold">Validators</h1>
+
+      <Card>
+        <CardHeader className="space-y-3 pb-3">
+          <CardTitle className="text-base">
+            {validators ? `${validators.length} registered` : "Pool validators"}
+          </CardTitle>
+          <div className="flex flex-wrap gap-1.5">
+            {(["all", ...FILTERS] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setStatus(option)}
+                className={cn(
+                  "cursor-pointer rounded-full border px-3 py-1 text-xs font-medium transition-colors",
+                  status === option
+                    ? "border-primary/40 bg-primary/15 text-primary"
+                    : "border-border text-muted-foreground hover:text-foreground",
+                )}
+              >
+                {option === "all" ? "All" : VALIDATOR_STATUS_LABELS[option]}
+                {counts && (
+                  <span className="ml-1 font-data">
+                    {option === "all" ? validators?.length : counts[option]}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+          <label className="relative block">
+            <span className="sr-only">Search by pubkey or id</span>
+            <Search className="pointer-events-none absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              placeholder="Search by pubkey or id"
+              className="pl-9 font-data"
+            />
+          </label>
+        </CardHeader>
+        <CardContent>
+          {validatorStore.error && !validators ? (
+            <p className="py-3 text-center text-sm text-muted-foreground">
+              Validators are unavailable right now: {validatorStore.error}
+            </p>
+          ) : !validators ? (
+            <div className="space-y-2">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : shown.length === 0 ? (
+            <p className="py-3 text-center text-sm text-muted-foreground">
+              {validators.length === 0
+                ? "The pool hasn't registered a validator yet."
+                : "No validators match."}
+            </p>
+          ) : (
+            <ul className="divide-y divide-border/60">
+              {shown.map((validator) => (
+                <ValidatorRow key={validator.id.toString()} validator={validator} />
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+});
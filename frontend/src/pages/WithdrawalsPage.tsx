@@ -1,19 +1,21 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { observer } from "mobx-react-lite";
 import { Clock, Download, Undo2 } from "lucide-react";
 import { Button } from "@/components/UI/Button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/UI/Card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/UI/Tabs";
 import { AmountInput } from "@/components/AmountInput";
+import { FeeEstimate } from "@/components/FeeEstimate";
 import { useStore } from "@/stores/store";
 import { BLOCK_TIME_SECONDS, NATIVE_UNIT, WITHDRAWAL_DELAY_BLOCKS } from "@/config/networks";
+import { quoteFee } from "@/utils/feeQuote";
 import { blocksToTime, formatAmount, parseUnits } from "@/utils/format";
 
 export const WithdrawalsPage = observer(() => {
-  const { poolStore } = useStore();
+  const { walletStore, protocolStore, txStore } = useStore();
   const [shares, setShares] = useState("");
 
-  const account = poolStore.account;
+  const account = protocolStore.account;
   const unlockedShares = account
     ? account.shares - account.lockedShares - account.immatureShares
     : null;
@@ -37,25 +39,33 @@ export const WithdrawalsPage = observer(() => {
     return null;
   }, [account, shares, parsedShares, unlockedShares]);
 
+  const feeQuote = quoteFee(txStore.gasEstimates.requestWithdrawal, protocolStore.feeMarket);
+  const quoteShares = validationError === null ? parsedShares : null;
+  useEffect(
+    () => txStore.quoteFee("requestWithdrawal", quoteShares),
+    [txStore, quoteShares, account?.address],
+  );
+
   const previewQrl =
-    parsedShares !== null && parsedShares > 0n ? poolStore.qrlForShares(parsedShares) : null;
+    parsedShares !== null && parsedShares > 0n ? protocolStore.qrlForShares(parsedShares) : null;
 
   const canRequest =
     !!account &&
     parsedShares !== null &&
     parsedShares > 0n &&
     !validationError &&
-    poolStore.tx.state !== "pending" &&
-    !(poolStore.pool?.paused ?? false);
+    !txStore.signing &&
+    !walletStore.watching &&
+    !(protocolStore.pool?.paused ?? false);
 
   const onRequest = async () => {
     if (!canRequest) return;
-    const ok = await poolStore.requestUnstake(shares);
+    const ok = await txStore.requestUnstake(shares);
     if (ok) setShares("");
   };
 
-  const pending = poolStore.pendingWithdrawals;
-  const claimableCount = poolStore.claimableWithdrawals.length;
+  const pending = protocolStore.pendingWithdrawals;
+  const claimableCount = protocolStore.claimableWithdrawals.length;
 
   if (!account) {
     return (
@@ -66,10 +76,10 @@ export const WithdrawalsPage = observer(() => {
         </p>
         <Button
           className="mt-6"
-          disabled={poolStore.isConnecting}
-          onClick={() => void poolStore.connect()}
+          disabled={walletStore.isConnecting}
+          onClick={() => void walletStore.connect()}
         >
-          {poolStore.isConnecting ? "Connecting…" : "Connect wallet"}
+          {walletStore.isConnecting ? "Connecting…" : "Connect wallet"}
         </Button>
       </div>
     );
@@ -97,10 +107,10 @@ export const WithdrawalsPage = observer(() => {
                   Available: {unlockedShares !== null ? formatAmount(unlockedShares) : "-"} stQRL
                 </span>
               </div>
-              {account && account.immatureShares > 0n && (() => {
+              {protocolStore.hasMaturityLock && account && account.immatureShares > 0n && (() => {
                 const blocksLeft =
-                  poolStore.currentBlock > 0n && account.matureAtBlock > poolStore.currentBlock
-                    ? account.matureAtBlock - poolStore.currentBlock
+                  protocolStore.currentBlock > 0n && account.matureAtBlock > protocolStore.currentBlock
+                    ? account.matureAtBlock - protocolStore.currentBlock
                     : null;
                 return (
                   <p className="mt-1 text-xs text-muted-foreground">
@@ -125,7 +135,7 @@ export const WithdrawalsPage = observer(() => {
                 onChange={setShares}
                 balance={unlockedShares}
                 symbol="stQRL"
-                disabled={poolStore.tx.state === "pending"}
+                disabled={txStore.signing}
               />
 
               {validationError && <p className="text-sm text-destructive">{validationError}</p>}
@@ -143,9 +153,10 @@ export const WithdrawalsPage = observer(() => {
                     {blocksToTime(WITHDRAWAL_DELAY_BLOCKS, BLOCK_TIME_SECONDS)}
                   </span>
                 </div>
+                <FeeEstimate quote={feeQuote} error={txStore.feeErrors.requestWithdrawal} />
               </div>
 
-              {poolStore.pool?.paused && (
+              {protocolStore.pool?.paused && (
                 <p className="text-sm text-secondary">
                   Withdrawal requests are temporarily paused by the protocol.
                 </p>
@@ -158,9 +169,11 @@ export const WithdrawalsPage = observer(() => {
                 onClick={() => void onRequest()}
               >
                 <Clock className="h-4 w-4" />
-                {poolStore.tx.state === "pending"
-                  ? "Waiting for confirmation…"
-                  : "Request withdrawal"}
+                {walletStore.watching
+                  ? "Viewing only"
+                  : txStore.signing
+                    ? "Confirm in your wallet…"
+                    : "Request withdrawal"}
               </Button>
             </CardContent>
           </Card>
@@ -216,8 +229,8 @@ export const WithdrawalsPage = observer(() => {
                       <Button
                         variant="ghost"
                         size="sm"
-                        disabled={poolStore.tx.state === "pending"}
-                        onClick={() => void poolStore.cancel(request.id)}
+                        disabled={txStore.signing || walletStore.watching}
+                        onClick={() => void txStore.cancel(request.id)}
                         aria-label={`Cancel request ${request.id}`}
                       >
                         <Undo2 className="h-4 w-4" />
@@ -231,12 +244,14 @@ export const WithdrawalsPage = observer(() => {
               <Button
                 className="w-full"
                 size="lg"
-                disabled={claimableCount === 0 || poolStore.tx.state === "pending"}
-                onClick={() => void poolStore.claim()}
+                disabled={claimableCount === 0 || txStore.signing || walletStore.watching}
+                onClick={() => void txStore.claim()}
               >
                 <Download className="h-4 w-4" />
-                {poolStore.tx.state === "pending"
-                  ? "Waiting for confirmation…"
+                {walletStore.watching
+                  ? "Viewing only"
+                  : txStore.signing
+                    ? "Confirm in your wallet…"
                   : claimableCount > 0
                     ? "Claim oldest request"
                     : "Nothing to claim yet"}
@@ -0,0 +1,144 @@
+import { makeAutoObservable, observable, reaction, runInAction } from "mobx";
+import type { NetworkStore } from "@/stores/networkStore";
+import type { WalletStore } from "@/stores/walletStore";
+import {
+  operatesValidators,
+  ownedContracts,
+  readAdminState,
+  type AdminContract,
+  type AdminState,
+} from "@/utils/admin";
+import type { ChainClient } from "@/utils/web3/chainClient";
+import { errorMessage } from "@/utils/errors";
+import type { HeadWatcher } from "@/utils/headWatcher";
+
+/**
+ * Owner-side pool state for the admin console. Read once per connected
+ * account (enough to know whether to show the console at all), then once per
+ * head while the console is open, in one snapshot.
+ */
+export class AdminStore {
+  state: AdminState | null = null;
+  error: string | null = null;
+
+  private initStarted = false;
+  private viewers = 0;
+  private stopHeads: (() => void) | null = null;
+  /** Highest block a refresh has been started for - one refresh per head. */
+  private requestedBlock = 0n;
+  private loadedBlock = 0n;
+
+  constructor(
+    private readonly wallet: Pick<WalletStore, "address">,
+    private readonly networks: Pick<NetworkStore, "chain" | "deployed">,
+    private readonly heads: Pick<HeadWatcher, "onHead">,
+  ) {
+    makeAutoObservable(this, {
+      wallet: false,
+      networks: false,
+      chain: false,
+      heads: false,
+      initStarted: false,
+      viewers: false,
+      stopHeads: false,
+      requestedBlock: false,
+      loadedBlock: false,
+      state: observable.ref,
+    } as Parameters<typeof makeAutoObservable>[1]);
+  }
+
+  private get chain(): ChainClient {
+    return this.networks.chain;
+  }
+
+  /** DepositPool / stQRL as owned by the connected account. */
+  get owned(): AdminContract[] {
+    return ownedContracts(this.state, this.wallet.address);
+  }
+
+  /** The connected account owns ValidatorManager. */
+  get operatesValidators(): boolean {
+    return operatesValidators(this.state, this.wallet.address);
+  }
+
+  /** Owns any pool contract - shows the Admin link. */
+  get isOwner(): boolean {
+    return this.owned.length > 0 || this.operatesValidators;
+  }
+
+  init(): void {
+    if (this.initStarted) return;
+    this.initStarted = true;
+    // The store is a singleton living for the whole app session, so the
+    // reaction is intentionally never disposed.
+    reaction(
+      () => this.wallet.address,
+      (address) => {
+        if (address) void this.refresh();
+      },
+      { fireImmediately: true },
+    );
+  }
+
+  /**
+   * Start reading for the mounted console: now, then once per head.
+   * Returns the cleanup for the view's effect.
+   */
+  open(): () => void {
+    this.viewers += 1;
+    if (!this.stopHeads) {
+      this.stopHeads = this.heads.onHead((blockNumber) => {
+        if (typeof document !== "undefined" && document.hidden) return;
+        this.syncTo(blockNumber);
+      });
+    }
+    void this.refresh();
+    return () => {
+      this.viewers -= 1;
+      if (this.viewers > 0 || !this.stopHeads) return;
+      this.stopHeads();
+      this.stopHeads = null;
+    };
+  }
+
+  resetForNetwork(): void {
+    this.state = null;
+    this.error = null;
+    this.requestedBlock = 0n;
+    this.loadedBlock = 0n;
+    if (this.wallet.address || this.viewers > 0) void this.refresh();
+  }
+
+  /** Re-read at `blockNumber` while the console is open (e.g. after an admin transaction). */
+  syncTo(blockNumber: bigint): void {
+    if (this.viewers === 0 || blockNumber <= this.requestedBlock) return;
+    this.requestedBlock = blockNumber;
+    void this.refresh(blockNumber);
+  }
+
+  private async refresh(blockNumber?: bigint): Promise<void> {
+    if (!this.networks.deployed) return;
+    const chain = this.chain;
+    try {
+      const [reader, deployment] = await Promise.all([
+        chain.snapshot(blockNumber),
+        chain.deployment(),
+      ]);
+      if (reader.blockNumber > this.requestedBlock) this.requestedBlock = reader.blockNumber;
+      const [state] = await Promise.all([
+        readAdminState(reader, deployment, chain.network.contracts.depositPool),
+        reader.flush(),
+      ]);
+      runInAction(() => {
+        if (chain !== this.chain || reader.blockNumber < this.loadedBlock) return;
+        this.loadedBlock = reader.blockNumber;
+        this.state = state;
+        this.error = null;
+      });
+    } catch (error) {
+      runInAction(() => {
+        if (chain === this.chain) this.error = errorMessage(error);
+      });
+    }
+  }
+}
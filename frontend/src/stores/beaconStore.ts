@@ -0,0 +1,90 @@
+import { makeAutoObservable, observable, runInAction } from "mobx";
+import type { NetworkStore } from "@/stores/networkStore";
+import { readBeaconPerformance } from "@/utils/beaconApi";
+import type { BeaconPerformance } from "@/utils/beaconPerformance";
+import { errorMessage } from "@/utils/errors";
+import type { HeadWatcher } from "@/utils/headWatcher";
+
+/** Duties only settle per epoch (minutes), so heads re-read at most this often. */
+const REFRESH_MS = 60_000;
+
+/**
+ * Beacon-chain performance of the validator open on the detail page, from the
+ * network's beacon API. Reads only while the page is open: now, then on heads
+ * at most once a minute.
+ */
+export class BeaconStore {
+  /** Pubkey of the open validator; null when no page is open. */
+  pubkey: string | null = null;
+  /** Null until the first read lands, or when the node doesn't know the validator. */
+  performance: BeaconPerformance | null = null;
+  /** The beacon node doesn't know the validator (deposit not processed yet). */
+  notFound = false;
+  error: string | null = null;
+
+  private fetchedAt = 0;
+
+  constructor(
+    private readonly networks: Pick<NetworkStore, "network">,
+    private readonly heads: Pick<HeadWatcher, "onHead">,
+  ) {
+    makeAutoObservable(this, {
+      networks: false,
+      heads: false,
+      fetchedAt: false,
+      performance: observable.ref,
+    } as Parameters<typeof makeAutoObservable>[1]);
+  }
+
+  /** Whether the current network has a beacon API configured. */
+  get configured(): boolean {
+    return Boolean(this.networks.network.beaconApi);
+  }
+
+  /** Start reading for the validator with `pubkey`; returns the page effect's cleanup. */
+  open(pubkey: string): () => void {
+    this.pubkey = pubkey;
+    this.clear();
+    const stopHeads = this.heads.onHead(() => {
+      if (typeof document !== "undefined" && document.hidden) return;
+      if (Date.now() - this.fetchedAt >= REFRESH_MS) void this.refresh();
+    });
+    void this.refresh();
+    return () => {
+      stopHeads();
+      if (this.pubkey === pubkey) this.pubkey = null;
+    };
+  }
+
+  resetForNetwork(): void {
+    this.clear();
+    if (this.pubkey) void this.refresh();
+  }
+
+  private clear(): void {
+    this.performance = null;
+    this.notFound = false;
+    this.error = null;
+    this.fetchedAt = 0;
+  }
+
+  private async refresh(): Promise<void> {
+    const pubkey = this.pubkey;
+    const baseUrl = this.networks.network.beaconApi;
+    if (!pubkey || !baseUrl) return;
+    this.fetchedAt = Date.now();
+    try {
+      const performance = await readBeaconPerformance(baseUrl, pubkey);
+      runInAction(() => {
+        if (pubkey !== this.pubkey || baseUrl !== this.networks.network.beaconApi) return;
+        this.performance = performance;
+        this.notFound = performance === null;
+        this.error = null;
+      });
+    } catch (error) {
+      runInAction(() => {
+        if (pubkey === this.pubkey) this.error = errorMessage(error);
+      });
+    }
+  }
+}
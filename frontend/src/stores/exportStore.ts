@@ -0,0 +1,137 @@
+import { makeAutoObservable, runInAction } from "mobx";
+import type { NetworkStore } from "@/stores/networkStore";
+import {
+  ACTIVITY_EVENT_NAMES,
+  toActivityList,
+  type ProtocolStore,
+} from "@/stores/protocolStore";
+import { transferRange } from "@/stores/pnlStore";
+import type { PriceStore } from "@/stores/priceStore";
+import type { RateStore } from "@/stores/rateStore";
+import type { ChainClient } from "@/utils/web3/chainClient";
+import { errorMessage } from "@/utils/errors";
+import { indexKey, type EventIndex } from "@/utils/eventIndex";
+import {
+  buildExportRows,
+  exportBlocks,
+  toCsv,
+  toJson,
+  type DateRange,
+  type ExportFormat,
+  type HistoryInput,
+} from "@/utils/historyExport";
+import { rateAt } from "@/utils/rateHistory";
+
+export interface ExportFile {
+  name: string;
+  type: string;
+  content: string;
+  rows: number;
+}
+
+/**
+ * Staking history export for one or more addresses. Brings each address's
+ * activity and transfer indexes (the same entries the activity card and
+ * position card use) up to the head, reads the block times in one batch,
+ * prices each row at its day's price and renders the rows as CSV or JSON.
+ */
+export class ExportStore {
+  busy = false;
+  error: string | null = null;
+
+
+  constructor(
+    private readonly networks: Pick<NetworkStore, "chain" | "deployed">,
+    private readonly protocol: Pick<ProtocolStore, "currentBlock">,
+    private readonly rates: Pick<RateStore, "history">,
+    private readonly prices: Pick<PriceStore, "currency" | "historicalLookup">,
+    private readonly index: EventIndex,
+  ) {
+    makeAutoObservable(this, {
+      networks: false,
+      protocol: false,
+      rates: false,
+      prices: false,
+      chain: false,
+      index: false,
+    } as Parameters<typeof makeAutoObservable>[1]);
+  }
+
+  private get chain(): ChainClient {
+    return this.networks.chain;
+  }
+
+  /** Build the export file; null (with `error` set) when it couldn't be. */
+  async build(
+    addresses: readonly string[],
+    range: DateRange,
+    format: ExportFormat,
+  ): Promise<ExportFile | null> {
+    const head = this.protocol.currentBlock;
+    if (addresses.length === 0 || head === 0n || !this.networks.deployed) return null;
+    const chain = this.chain;
+    const { id, contracts, deploymentBlocks } = chain.network;
+    this.busy = true;
+    this.error = null;
+    try {
+      // One address at a time: each sync may walk the whole chain in chunks.
+      const inputs: HistoryInput[] = [];
+      for (const address of addresses) {
+        const activityLogs = await this.index.sync(
+          indexKey(id, contracts.depositPool, address),
+          head,
+          (fromBlock, toBlock) =>
+            chain.logs("depositPool", ACTIVITY_EVENT_NAMES, { user: address }, fromBlock, toBlock),
+          deploymentBlocks.depositPool,
+        );
+        const transfers = await this.index.sync(
+          indexKey(id, contracts.stQRL, address),
+          head,
+          transferRange(chain, address),
+          deploymentBlocks.stQRL,
+        );
+        inputs.push({ address, activity: toActivityList(activityLogs), transfers });
+      }
+
+      const blocks = exportBlocks(inputs);
+      const reader = await chain.snapshot(head);
+      const reads = blocks.map((block) => reader.blockTimestamp(block));
+      await reader.flush();
+      const values = await Promise.all(reads);
+      const times = new Map(blocks.map((block, i) => [block, values[i]]));
+
+      // Only price the days that make it into the file.
+      const priceAt = await this.prices.historicalLookup(
+        values.filter(
+          (time) =>
+            (range.from === null || time >= range.from) && (range.to === null || time <= range.to),
+        ),
+      );
+      const history = this.rates.history;
+      const rows = buildExportRows(
+        inputs,
+        {
+          rateAt: (block) => rateAt(history, block),
+          timestampOf: (block) => times.get(block) ?? 0,
+          priceAt,
+          currency: this.prices.currency,
+        },
+        range,
+      );
+
+      const name = `quantapool-${id}-history.${format}`;
+      return format === "csv"
+        ? { name, type: "text/csv", content: toCsv(rows), rows: rows.length }
+        : { name, type: "application/json", content: toJson(rows), rows: rows.length };
+    } catch (error) {
+      runInAction(() => {
+        this.error = errorMessage(error);
+      });
+      return null;
+    } finally {
+      runInAction(() => {
+        this.busy = false;
+      });
+    }
+  }
+}
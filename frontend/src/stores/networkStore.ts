@@ -0,0 +1,85 @@
+import { makeAutoObservable, observable, runInAction } from "mobx";
+import {
+  DEFAULT_NETWORK,
+  isNetworkDeployed,
+  NETWORKS,
+  type NetworkConfig,
+  type NetworkId,
+} from "@/config/networks";
+import type { WalletStore } from "@/stores/walletStore";
+import { ChainClient } from "@/utils/web3/chainClient";
+
+const STORAGE_KEY = "quantapool:network";
+
+function loadNetwork(): NetworkConfig {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved && saved in NETWORKS) return NETWORKS[saved as NetworkId];
+  } catch {
+    // Storage disabled (privacy mode, sandboxed iframe) - use the default.
+  }
+  return DEFAULT_NETWORK;
+}
+
+/**
+ * The network the app reads from, chosen at runtime and remembered per
+ * browser. Owns the ChainClient for it; switching builds a fresh client so no
+ * contract instance or endpoint health leaks across networks.
+ */
+export class NetworkStore {
+  network: NetworkConfig = loadNetwork();
+  /** Read client for `network`; replaced (not mutated) on every switch. */
+  chain: ChainClient = new ChainClient(this.network);
+  /** Chain id reported by the network's RPC; null until known. */
+  chainId: bigint | null = null;
+
+  constructor(private readonly wallet: Pick<WalletStore, "chainId">) {
+    makeAutoObservable(this, {
+      wallet: false,
+      chain: observable.ref,
+      network: observable.ref,
+    } as Parameters<typeof makeAutoObservable>[1]);
+  }
+
+  /** False for networks without contract addresses; reads are skipped there. */
+  get deployed(): boolean {
+    return isNetworkDeployed(this.network);
+  }
+
+  /** The connected wallet reports a chain other than the one shown. */
+  get walletOnOtherChain(): boolean {
+    return (
+      this.wallet.chainId !== null &&
+      this.chainId !== null &&
+      this.wallet.chainId !== this.chainId
+    );
+  }
+
+  /** Switch networks; returns false when `id` is already selected. */
+  select(id: NetworkId): boolean {
+    if (id === this.network.id) return false;
+    try {
+      localStorage.setItem(STORAGE_KEY, id);
+    } catch {
+      // Not persisted - the switch still applies for this session.
+    }
+    this.network = NETWORKS[id];
+    this.chain = new ChainClient(this.network);
+    this.chainId = null;
+    void this.readChainId();
+    return true;
+  }
+
+  async readChainId(): Promise<void> {
+    const chain = this.chain;
+    try {
+      const chainId = await chain.chainId();
+      runInAction(() => {
+        // Ignore answers for a network the user has already left.
+        if (this.chain === chain) this.chainId = chainId;
+      });
+    } catch {
+      // Unknown chain id just disables the wallet-mismatch warning.
+    }
+  }
+}
@@ -0,0 +1,183 @@
+import { comparer, computed, makeAutoObservable, observable, reaction, runInAction } from "mobx";
+import { BLOCK_TIME_SECONDS } from "@/config/networks";
+import type { NetworkStore } from "@/stores/networkStore";
+import type { PriceStore } from "@/stores/priceStore";
+import type { ProtocolStore } from "@/stores/protocolStore";
+import type { RateStore } from "@/stores/rateStore";
+import type { ChainClient } from "@/utils/web3/chainClient";
+import { errorMessage } from "@/utils/errors";
+import { indexKey, type EventIndex, type IndexedLog, type RangeFetcher } from "@/utils/eventIndex";
+import {
+  computePnl,
+  fiatPrincipal,
+  shareFlows,
+  type PnlSummary,
+  type ShareFlow,
+} from "@/utils/pnl";
+import { rateAt } from "@/utils/rateHistory";
+
+const RATE_BASE = 10n ** 18n;
+
+/** Fetches an account's stQRL Transfer logs in both directions, for EventIndex.sync. */
+export const transferRange =
+  (chain: ChainClient, address: string): RangeFetcher =>
+  async (fromBlock, toBlock) => {
+    const [sent, received] = await Promise.all([
+      chain.logs("stQRL", ["Transfer"], { from: address }, fromBlock, toBlock),
+      chain.logs("stQRL", ["Transfer"], { to: address }, fromBlock, toBlock),
+    ]);
+    return [...sent, ...received];
+  };
+
+/**
+ * The viewed account's profit and loss. Combines its DepositPool activity
+ * (from ProtocolStore), its stQRL transfers (indexed here, persisted like the
+ * activity) and the exchange-rate history (from RateStore). The fiat cost of
+ * the principal uses each flow's daily price (from PriceStore).
+ */
+export class PnlStore {
+  /** stQRL Transfer logs to or from the viewed account, oldest first. */
+  transfers: IndexedLog[] = [];
+  transfersError: string | null = null;
+  /** Net principal in the display currency at the prices of the time. */
+  fiatPrincipal: number | null = null;
+
+  /** Block times are immutable - read each once per network. */
+  private timestamps = new Map<bigint, number>();
+  /** Bumped per fiat update so an older one can't land over a newer one. */
+  private fiatRun = 0;
+
+  constructor(
+    private readonly networks: Pick<NetworkStore, "chain" | "deployed">,
+    private readonly protocol: Pick<
+      ProtocolStore,
+      "account" | "activity" | "activityError" | "currentBlock"
+    >,
+    private readonly rates: Pick<RateStore, "history">,
+    private readonly prices: Pick<PriceStore, "currency" | "historicalLookup">,
+    private readonly index: EventIndex,
+  ) {
+    makeAutoObservable(this, {
+      networks: false,
+      protocol: false,
+      rates: false,
+      prices: false,
+      chain: false,
+      index: false,
+      timestamps: false,
+      fiatRun: false,
+      transfers: observable.ref,
+      flows: computed,
+      pnl: computed,
+    } as Parameters<typeof makeAutoObservable>[1]);
+
+    // The store is a singleton living for the whole app session, so the
+    // reaction is intentionally never disposed.
+    reaction(
+      () => [this.protocol.account?.address ?? null, this.protocol.currentBlock] as const,
+      ([address, blockNumber], previous) => {
+        if (address !== previous?.[0]) {
+          this.transfers = [];
+          this.transfersError = null;
+        }
+        if (address && blockNumber > 0n) void this.syncTransfers(address, blockNumber);
+      },
+    );
+    reaction(
+      () => [this.flows, this.prices.currency] as const,
+      ([flows]) => void this.updateFiat(flows),
+      { equals: comparer.structural },
+    );
+  }
+
+  private get chain(): ChainClient {
+    return this.networks.chain;
+  }
+
+  resetForNetwork(): void {
+    this.transfers = [];
+    this.transfersError = null;
+    this.fiatPrincipal = null;
+    this.timestamps = new Map();
+  }
+
+  /**
+   * Null until the account, its history and the rate series are all known;
+   * without the account's events there is no principal to measure against.
+   */
+  get flows(): ShareFlow[] | null {
+    const { account, activity, activityError } = this.protocol;
+    const history = this.rates.history;
+    if (!account || history.length === 0 || activityError || this.transfersError) return null;
+    return shareFlows(activity, this.transfers, account.address, (block) =>
+      rateAt(history, block) ?? RATE_BASE,
+    );
+  }
+
+  get pnl(): PnlSummary | null {
+    const { account, currentBlock } = this.protocol;
+    const flows = this.flows;
+    if (!account || !flows) return null;
+    const history = this.rates.history;
+    return computePnl(
+      flows,
+      history,
+      { value: account.qrlValue, blockNumber: currentBlock },
+      BLOCK_TIME_SECONDS,
+    );
+  }
+
+  /** Price each flow at its block's day; needs one timestamp batch plus the daily prices. */
+  private async updateFiat(flows: ShareFlow[] | null): Promise<void> {
+    const run = ++this.fiatRun;
+    this.fiatPrincipal = null;
+    if (!flows || flows.length === 0) return;
+    const chain = this.chain;
+    try {
+      const missing = [...new Set(flows.map((flow) => flow.blockNumber))].filter(
+        (block) => !this.timestamps.has(block),
+      );
+      if (missing.length > 0) {
+        const reader = await chain.snapshot();
+        const reads = missing.map((block) => reader.blockTimestamp(block));
+        await reader.flush();
+        const values = await Promise.all(reads);
+        missing.forEach((block, i) => this.timestamps.set(block, values[i]));
+      }
+      const timeOf = (block: bigint) => this.timestamps.get(block) ?? 0;
+      const priceAt = await this.prices.historicalLookup(
+        flows.map((flow) => timeOf(flow.blockNumber)),
+      );
+      const total = fiatPrincipal(flows, (flow) => priceAt(timeOf(flow.blockNumber)));
+      runInAction(() => {
+        if (run === this.fiatRun && chain === this.chain) this.fiatPrincipal = total;
+      });
+    } catch {
+      // Fiat cost is cosmetic - the card just leaves it out.
+    }
+  }
+
+  /** Extend the account's transfer index to `toBlock` (both directions). */
+  private async syncTransfers(address: string, toBlock: bigint): Promise<void> {
+    if (!this.networks.deployed) return;
+    const chain = this.chain;
+    const key = indexKey(chain.network.id, chain.network.contracts.stQRL, address);
+    try {
+      const logs = await this.index.sync(
+        key,
+        toBlock,
+        transferRange(chain, address),
+        chain.network.deploymentBlocks.stQRL,
+      );
+      runInAction(() => {
+        if (chain !== this.chain || this.protocol.account?.address !== address) return;
+        this.transfers = logs;
+        this.transfersError = null;
+      });
+    } catch (error) {
+      runInAction(() => {
+        if (chain === this.chain) this.transfersError = errorMessage(error);
+      });
+    }
+  }
+}
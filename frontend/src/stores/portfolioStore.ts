@@ -0,0 +1,233 @@
+import { makeAutoObservable, reaction, runInAction } from "mobx";
+import type { NetworkStore } from "@/stores/networkStore";
+import {
+  readPositions,
+  type AccountPosition,
+  type WithdrawalRequestView,
+} from "@/stores/protocolStore";
+import type { WalletStore } from "@/stores/walletStore";
+import type { ChainClient } from "@/utils/web3/chainClient";
+import { errorMessage } from "@/utils/errors";
+import type { HeadWatcher } from "@/utils/headWatcher";
+import {
+  addAddress,
+  parseAddressList,
+  removeAddress,
+  saveError,
+  summarizePosition,
+  sumSummaries,
+  type PositionSummary,
+} from "@/utils/portfolio";
+
+const STORAGE_KEY = "quantapool:portfolio";
+
+function loadSaved(): string[] {
+  try {
+    return parseAddressList(localStorage.getItem(STORAGE_KEY));
+  } catch {
+    return []; // Storage disabled - the list lasts this session only.
+  }
+}
+
+export interface PortfolioEntry {
+  address: string;
+  /** Null until the first refresh that included this address lands. */
+  position: AccountPosition | null;
+  summary: PositionSummary | null;
+  /** In the saved list (as opposed to only connected or watched right now). */
+  saved: boolean;
+  connected: boolean;
+}
+
+/**
+ * Positions across a saved list of addresses plus the connected and watched
+ * ones. Reads only while the portfolio page is open: one refresh per head,
+ * with every address in the same two-batch snapshot, never a refresh per
+ * address.
+ */
+export class PortfolioStore {
+  /** Saved addresses, in the order they were added; persisted per browser. */
+  saved: string[] = loadSaved();
+  /** Latest position per address (lowercased) on the selected network. */
+  positions = new Map<string, AccountPosition>();
+  error: string | null = null;
+
+  /** Open portfolio views; reads stop when it drops to zero. */
+  private viewers = 0;
+  private stopHeads: (() => void) | null = null;
+  /** Highest block a refresh has been started for - one refresh per head. */
+  private requestedBlock = 0n;
+  /** Block `positions` were last read at. */
+  private loadedBlock = 0n;
+  /** Immutable (claimed/cancelled) requests per address; see readPositions. */
+  private finalized = new Map<string, Map<number, WithdrawalRequestView>>();
+
+  constructor(
+    private readonly networks: Pick<NetworkStore, "chain" | "deployed">,
+    private readonly wallet: Pick<WalletStore, "address" | "watchAddress">,
+    private readonly heads: Pick<HeadWatcher, "onHead">,
+  ) {
+    makeAutoObservable(this, {
+      networks: false,
+      chain: false,
+      wallet: false,
+      heads: false,
+      viewers: false,
+      stopHeads: false,
+      requestedBlock: false,
+      loadedBlock: false,
+      finalized: false,
+    } as Parameters<typeof makeAutoObservable>[1]);
+
+    // The store is a singleton living for the whole app session, so the
+    // reaction is intentionally never disposed.
+    reaction(
+      () => this.addresses.join(),
+      () => {
+        if (this.viewers > 0) void this.refresh();
+      },
+    );
+  }
+
+  private get chain(): ChainClient {
+    return this.networks.chain;
+  }
+
+  /** Connected, then watched, then saved addresses, without duplicates. */
+  get addresses(): string[] {
+    const live = [this.wallet.address, this.wallet.watchAddress].filter(
+      (address): address is string => address !== null,
+    );
+    return [...live, ...this.saved].reduce<string[]>(
+      (list, address) =>
+        list.some((other) => other.toLowerCase() === address.toLowerCase())
+          ? list
+          : [...list, address],
+      [],
+    );
+  }
+
+  get entries(): PortfolioEntry[] {
+    const connected = this.wallet.address?.toLowerCase();
+    return this.addresses.map((address) => {
+      const key = address.toLowerCase();
+      const position = this.positions.get(key) ?? null;
+      return {
+        address,
+        position,
+        summary: position ? summarizePosition(position) : null,
+        saved: this.saved.some((other) => other.toLowerCase() === key),
+        connected: key === connected,
+      };
+    });
+  }
+
+  /** Sum over every address whose position has loaded. */
+  get total(): PositionSummary {
+    return sumSummaries(
+      this.entries.flatMap((entry) => (entry.summary ? [entry.summary] : [])),
+    );
+  }
+
+  /** Save `address`; returns why it wasn't saved (invalid, or the list is full), or null. */
+  save(address: string): string | null {
+    const trimmed = address.trim();
+    const error = saveError(this.saved, trimmed);
+    if (error) return error;
+    this.saved = addAddress(this.saved, trimmed);
+    this.persist();
+    return null;
+  }
+
+  remove(address: string): void {
+    this.saved = removeAddress(this.saved, address);
+    this.persist();
+  }
+
+  /**
+   * Start reading for a mounted portfolio view: now, then once per head.
+   * Returns the cleanup for the view's effect.
+   */
+  open(): () => void {
+    this.viewers += 1;
+    if (!this.stopHeads) {
+      this.stopHeads = this.heads.onHead((blockNumber) => {
+        if (typeof document !== "undefined" && document.hidden) return;
+        this.syncTo(blockNumber);
+      });
+    }
+    void this.refresh();
+    return () => {
+      this.viewers -= 1;
+      if (this.viewers > 0 || !this.stopHeads) return;
+      this.stopHeads();
+      this.stopHeads = null;
+    };
+  }
+
+  /** Drop every position read from the previous network. */
+  resetForNetwork(): void {
+    this.positions = new Map();
+    this.error = null;
+    this.requestedBlock = 0n;
+    this.loadedBlock = 0n;
+    this.finalized = new Map();
+    if (this.viewers > 0) void this.refresh();
+  }
+
+  private syncTo(blockNumber: bigint): void {
+    if (blockNumber <= this.requestedBlock) return;
+    this.requestedBlock = blockNumber;
+    void this.refresh(blockNumber);
+  }
+
+  private async refresh(blockNumber?: bigint): Promise<void> {
+    const addresses = this.addresses;
+    if (!this.networks.deployed || addresses.length === 0) return;
+    const chain = this.chain;
+    const finalized = this.finalized;
+    const finalizedFor = (address: string) => {
+      const key = address.toLowerCase();
+      let requests = finalized.get(key);
+      if (!requests) finalized.set(key, (requests = new Map()));
+      return requests;
+    };
+    try {
+      const [reader, deployment] = await Promise.all([
+        chain.snapshot(blockNumber),
+        chain.deployment(),
+      ]);
+      if (reader.blockNumber > this.requestedBlock) this.requestedBlock = reader.blockNumber;
+      const read = readPositions(reader, addresses, deployment, finalizedFor);
+      await reader.flush();
+      const positions = await read;
+      runInAction(() => {
+        // Read on a network the user has since left.
+        if (chain !== this.chain) return;
+        this.error = null;
+        // Overlapping refreshes can settle out of order; an older one only
+        // fills in addresses added since.
+        const stale = reader.blockNumber < this.loadedBlock;
+        if (!stale) this.loadedBlock = reader.blockNumber;
+        const next = new Map(this.positions);
+        for (const position of positions) {
+          const key = position.account.address.toLowerCase();
+          if (!stale || !next.has(key)) next.set(key, position);
+        }
+        this.positions = next;
+      });
+    } catch (error) {
+      runInAction(() => {
+        if (chain === this.chain) this.error = errorMessage(error);
+      });
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.saved));
+    } catch {
+      // Not persisted - the list still applies for this session.
+    }
+  }
+}
@@ -0,0 +1,151 @@
+import { makeAutoObservable, observable, runInAction } from "mobx";
+import type { NetworkStore } from "@/stores/networkStore";
+import { formatUnits } from "@/utils/format";
+import type { HeadWatcher } from "@/utils/headWatcher";
+import {
+  aggregateCurrent,
+  aggregateHistorical,
+  isFiatCurrency,
+  utcDay,
+  type FiatCurrency,
+  type PriceProvider,
+} from "@/utils/price";
+import { coinGeckoProvider, coinPaprikaProvider, zondscanProvider } from "@/utils/priceProviders";
+
+const STORAGE_KEY = "quantapool:currency";
+
+/** Sources are rate limited - at most one round per minute, however fast blocks come. */
+const REFRESH_MS = 60_000;
+
+function loadCurrency(): FiatCurrency {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isFiatCurrency(saved)) return saved;
+  } catch {
+    // Storage disabled (privacy mode, sandboxed iframe) - use the default.
+  }
+  return "usd";
+}
+
+/**
+ * QRL price in the user's fiat currency: the median of the configured
+ * sources, refreshed with the chain head. Cosmetic - every figure that uses it
+ * degrades to "no price" when no source answers. Also serves daily historical
+ * prices for the export and the position card.
+ */
+export class PriceStore {
+  /** Display currency, remembered per browser. */
+  currency: FiatCurrency = loadCurrency();
+  /** Fiat per QRL; null until a source answers. */
+  price: number | null = null;
+  change24h: number | null = null;
+  /** Sources the current price is the median of. */
+  sources: string[] = [];
+
+  private readonly providers: PriceProvider[];
+  private initStarted = false;
+  private fetchedAt = 0;
+  /** Daily prices by "currency:day" - past days never change. */
+  private readonly daily = new Map<string, Promise<number | null>>();
+
+  constructor(
+    networks: Pick<NetworkStore, "network">,
+    private readonly heads: Pick<HeadWatcher, "onHead">,
+  ) {
+    this.providers = [
+      zondscanProvider(() => networks.network.explorer),
+      coinGeckoProvider,
+      coinPaprikaProvider,
+    ];
+    makeAutoObservable(this, {
+      heads: false,
+      providers: false,
+      initStarted: false,
+      fetchedAt: false,
+      daily: false,
+      sources: observable.ref,
+    } as Parameters<typeof makeAutoObservable>[1]);
+  }
+
+  /** Fiat value of a QRL base-unit amount, or null when no price is known. */
+  value(amount: bigint): number | null {
+    if (this.price === null) return null;
+    return Number(formatUnits(amount)) * this.price;
+  }
+
+  init(): void {
+    if (this.initStarted) return;
+    this.initStarted = true;
+    // The store is a singleton living for the whole app session, so the
+    // listener is intentionally never removed.
+    this.heads.onHead(() => {
+      if (typeof document !== "undefined" && document.hidden) return;
+      void this.refresh();
+    });
+    void this.refresh();
+  }
+
+  setCurrency(currency: FiatCurrency): void {
+    if (currency === this.currency) return;
+    try {
+      localStorage.setItem(STORAGE_KEY, currency);
+    } catch {
+      // Not persisted - the choice still applies for this session.
+    }
+    this.currency = currency;
+    this.price = null;
+    this.change24h = null;
+    this.sources = [];
+    this.fetchedAt = 0;
+    void this.refresh();
+  }
+
+  /** Daily price in the display currency for the UTC day of `timestamp`. */
+  historical(timestamp: number): Promise<number | null> {
+    const day = utcDay(timestamp);
+    // Sources only publish a day's figure once it is over.
+    if (day === utcDay(Date.now() / 1000)) return Promise.resolve(this.price);
+    const key = `${this.currency}:${day}`;
+    let cached = this.daily.get(key);
+    if (!cached) {
+      cached = aggregateHistorical(this.providers, this.currency, day);
+      this.daily.set(key, cached);
+      // Keep answers only; a miss may be a rate limit, so allow a retry later.
+      void cached.then((price) => {
+        if (price === null) this.daily.delete(key);
+      });
+    }
+    return cached;
+  }
+
+  /**
+   * Daily prices for many times, one day at a time to stay inside the
+   * sources' rate limits. Resolves to a lookup by unix time.
+   */
+  async historicalLookup(
+    timestamps: readonly number[],
+  ): Promise<(timestamp: number) => number | null> {
+    const prices = new Map<string, number | null>();
+    for (const timestamp of timestamps) {
+      const day = utcDay(timestamp);
+      if (!prices.has(day)) prices.set(day, await this.historical(timestamp));
+    }
+    return (timestamp) => prices.get(utcDay(timestamp)) ?? null;
+  }
+
+  private async refresh(): Promise<void> {
+    const now = Date.now();
+    if (now - this.fetchedAt < REFRESH_MS) return;
+    this.fetchedAt = now;
+    const currency = this.currency;
+    const quote = await aggregateCurrent(this.providers, currency);
+    runInAction(() => {
+      // Keep the last known price on failure, and drop answers for a
+      // currency the user has since switched away from.
+      if (!quote || currency !== this.currency) return;
+      this.price = quote.price;
+      this.change24h = quote.change24h;
+      this.sources = quote.sources;
+    });
+  }
+}
@@ -0,0 +1,544 @@
+import { makeAutoObservable, reaction, runInAction } from "mobx";
+import type { NetworkConfig } from "@/config/networks";
+import type { NetworkStore } from "@/stores/networkStore";
+import type { WalletStore } from "@/stores/walletStore";
+import type { BlockReader, ChainClient, PoolEvent } from "@/utils/web3/chainClient";
+import { errorMessage } from "@/utils/errors";
+import type { DeploymentProfile } from "@/utils/capabilities";
+import type { EndpointHealth } from "@/utils/endpointPool";
+import { indexKey, type EventIndex, type IndexedLog } from "@/utils/eventIndex";
+import type { FeeMarket } from "@/utils/feeQuote";
+import type { HeadWatcher } from "@/utils/headWatcher";
+
+export interface PoolStats {
+  totalPooled: bigint;
+  totalShares: bigint;
+  buffered: bigint;
+  validators: bigint;
+  pendingWithdrawalShares: bigint;
+  reserveBalance: bigint;
+  /** QRL per stQRL share, 1e18-scaled (1e18 = 1:1). */
+  exchangeRate: bigint;
+  minDeposit: bigint;
+  totalRewards: bigint;
+  totalSlashing: bigint;
+  netRewards: bigint;
+  activeValidators: bigint;
+  pendingValidators: bigint;
+  paused: boolean;
+}
+
+export interface AccountState {
+  address: string;
+  qrlBalance: bigint;
+  /** stQRL share balance (stable; balanceOf semantics). */
+  shares: bigint;
+  /** Shares locked by pending withdrawal requests. */
+  lockedShares: bigint;
+  /** Shares that have not yet reached the maturity lock period (v2.3+). */
+  immatureShares: bigint;
+  /**
+   * Block number at which the current immature bucket matures.
+   * 0n if never deposited or the contract does not support this feature.
+   */
+  matureAtBlock: bigint;
+  /** Current QRL value of all shares. */
+  qrlValue: bigint;
+  /**
+   * Number of withdrawal requests already processed (claimed or cancelled).
+   * Equals the contract's nextWithdrawalIndex (total - pending); lets us show
+   * a completed count without fetching the immutable historical requests.
+   */
+  completedWithdrawalsCount: number;
+}
+
+export interface WithdrawalRequestView {
+  id: number;
+  shares: bigint;
+  /**
+   * Current QRL estimate while pending, or the settled payout after claim.
+   * Pending shares continue receiving rewards and bearing slashing losses.
+   */
+  qrlPayout: bigint;
+  requestBlock: bigint;
+  canClaim: boolean;
+  blocksRemaining: bigint;
+  claimed: boolean;
+}
+
+/** One account's balances and live withdrawal requests, read at one block. */
+export interface AccountPosition {
+  account: AccountState;
+  withdrawals: WithdrawalRequestView[];
+}
+
+export type ActivityType = "deposit" | "request" | "claim" | "cancel";
+
+export interface StakingActivity {
+  type: ActivityType;
+  /** QRL amount involved (absent for cancellations). */
+  qrlAmount: bigint | null;
+  shares: bigint | null;
+  blockNumber: bigint;
+  txHash: string;
+}
+
+/** DepositPool events that make up an account's activity. */
+const ACTIVITY_EVENTS: Partial<Record<PoolEvent, ActivityType>> = {
+  Deposited: "deposit",
+  WithdrawalRequested: "request",
+  WithdrawalClaimed: "claim",
+  WithdrawalCancelled: "cancel",
+};
+
+export const ACTIVITY_EVENT_NAMES = Object.keys(ACTIVITY_EVENTS) as PoolEvent[];
+
+const optionalBig = (value: string | undefined): bigint | null =>
+  value === undefined ? null : BigInt(value);
+
+/** Indexed logs (oldest first) to activity rows (newest first). */
+export function toActivityList(logs: IndexedLog[]): StakingActivity[] {
+  return logs
+    .flatMap((log) => {
+      const type = ACTIVITY_EVENTS[log.event as PoolEvent];
+      if (!type) return [];
+      return {
+        type,
+        qrlAmount: optionalBig(log.values.qrlAmount),
+        shares: optionalBig(log.values.shares ?? log.values.sharesReceived),
+        blockNumber: log.blockNumber,
+        txHash: log.transactionHash,
+      };
+    })
+    .reverse();
+}
+
+const RATE_BASE = 10n ** 18n;
+
+const emptyAccount = (address: string): AccountState => ({
+  address,
+  qrlBalance: 0n,
+  shares: 0n,
+  lockedShares: 0n,
+  immatureShares: 0n,
+  matureAtBlock: 0n,
+  qrlValue: 0n,
+  completedWithdrawalsCount: 0,
+});
+
+/**
+ * Queue the balance reads of every address on `reader`. Once the caller's
+ * flush lands, the pending withdrawal requests of all of them are read in one
+ * second batch pinned to the same block, so any number of addresses costs two
+ * round trips. Requests already in an address's `finalized` map (claimed or
+ * cancelled, so immutable) are not read again; newly settled ones are added.
+ */
+export async function readPositions(
+  reader: BlockReader,
+  addresses: readonly string[],
+  deployment: DeploymentProfile,
+  finalizedFor: (address: string) => Map<number, WithdrawalRequestView>,
+): Promise<AccountPosition[]> {
+  const accounts = await Promise.all(
+    addresses.map((address) => readAccount(reader, address, deployment)),
+  );
+  // Requests at indices [0, completedWithdrawalsCount) are already processed
+  // (claimed or cancelled-and-skipped) and immutable, so only fetch the live
+  // tail. This keeps the fan-out bounded by pending requests rather than a
+  // user's entire withdrawal history.
+  const requestReads = accounts.map(({ account, pending }) =>
+    Array.from({ length: pending }, (_, i) =>
+      readWithdrawalRequest(
+        reader,
+        account.address,
+        account.completedWithdrawalsCount + i,
+        finalizedFor(account.address),
+      ),
+    ),
+  );
+  await reader.flush();
+  const requests = await Promise.all(requestReads.map((reads) => Promise.all(reads)));
+
+  return accounts.map(({ account }, i) => ({
+    account,
+    // Cancelled requests are zeroed on-chain - hide them.
+    withdrawals: requests[i].filter((w) => w.shares > 0n),
+  }));
+}
+
+/** Queue one address's balance reads; resolves after the caller's flush. */
+async function readAccount(
+  reader: BlockReader,
+  address: string,
+  deployment: DeploymentProfile,
+): Promise<{ account: AccountState; pending: number }> {
+  // v2.2 stQRL has no maturity lock - don't ask it (the call would revert).
+  const { maturityLock } = deployment.capabilities;
+  const [qrlBalance, shares, lockedShares, qrlValue, counts, immatureShares, matureAtBlock] =
+    await Promise.all([
+      reader.balance(address),
+      reader.call("stQRL", "balanceOf", address),
+      reader.call("stQRL", "lockedSharesOf", address),
+      reader.call("stQRL", "getQRLValue", address),
+      reader.call("depositPool", "getWithdrawalRequestCount", address),
+      maturityLock ? reader.call("stQRL", "immatureSharesOf", address) : 0n,
+      maturityLock ? reader.call("stQRL", "matureAtBlockOf", address) : 0n,
+    ]);
+
+  const pending = Number(counts.pending);
+  return {
+    account: {
+      address,
+      qrlBalance,
+      shares,
+      lockedShares,
+      immatureShares,
+      matureAtBlock,
+      qrlValue,
+      completedWithdrawalsCount: Number(counts.total) - pending,
+    },
+    pending,
+  };
+}
+
+async function readWithdrawalRequest(
+  reader: BlockReader,
+  address: string,
+  id: number,
+  finalized: Map<number, WithdrawalRequestView>,
+): Promise<WithdrawalRequestView> {
+  const cached = finalized.get(id);
+  if (cached) return cached;
+
+  const [live, stored] = await Promise.all([
+    reader.call("depositPool", "getWithdrawalRequest", address, BigInt(id)),
+    reader.call("depositPool", "withdrawalRequests", address, BigInt(id)),
+  ]);
+  const view: WithdrawalRequestView = {
+    id,
+    shares: live.shares,
+    qrlPayout:
+      live.shares === 0n ? 0n : live.claimed ? stored.qrlAmount : live.currentQRLValue,
+    requestBlock: live.requestBlock,
+    canClaim: live.canClaim,
+    blocksRemaining: live.blocksRemaining,
+    claimed: live.claimed,
+  };
+  // Claimed requests (and cancelled ones, zeroed with shares=0) never change.
+  if (view.claimed || view.shares === 0n) finalized.set(id, view);
+  return view;
+}
+
+/**
+ * Chain reads: pool and validator stats, and the viewed account's position,
+ * withdrawals and activity. Follows the wallet's address
+ * (or the watched one) but never touches the wallet transport.
+ */
+export class ProtocolStore {
+  rpcError: string | null = null;
+
+  pool: PoolStats | null = null;
+
+  /** Base fee and suggested tip at `currentBlock`, for fee quotes. */
+  feeMarket: FeeMarket | null = null;
+
+  account: AccountState | null = null;
+  withdrawals: WithdrawalRequestView[] = [];
+  /** The account's staking history, newest first (from DepositPool events). */
+  activity: StakingActivity[] = [];
+  activityError: string | null = null;
+
+  /** Interface revisions the deployment implements; null until probed. */
+  deployment: DeploymentProfile | null = null;
+
+  /** RPC endpoint health as of the last refresh (the pool itself isn't observable). */
+  rpcEndpoints: EndpointHealth[] = [];
+  /** Endpoint that served the last successful request. */
+  rpcEndpoint: string | null = null;
+
+  /** Block the current pool/account snapshot was read at (0n before the first refresh). */
+  currentBlock: bigint = 0n;
+
+  private initStarted = false;
+  /** Highest block a refresh has been started for - one refresh per head. */
+  private requestedBlock = 0n;
+  /**
+   * Claimed/cancelled requests are immutable on-chain - cache them so the
+   * periodic refresh only refetches requests that can still change. Replaced,
+   * not cleared, on account or network change, so a read still in flight
+   * fills the old map.
+   */
+  private finalizedRequests = new Map<number, WithdrawalRequestView>();
+
+  constructor(
+    private readonly networks: Pick<NetworkStore, "chain" | "deployed">,
+    private readonly wallet: Pick<WalletStore, "viewedAddress" | "connectionCount">,
+    private readonly heads: Pick<HeadWatcher, "onHead">,
+    private readonly activityIndex: EventIndex,
+  ) {
+    makeAutoObservable(this, {
+      networks: false,
+      chain: false,
+      wallet: false,
+      heads: false,
+      initStarted: false,
+      requestedBlock: false,
+      finalizedRequests: false,
+      activityIndex: false,
+    } as Parameters<typeof makeAutoObservable>[1]);
+
+    // The store is a singleton living for the whole app session, so the
+    // reaction is intentionally never disposed.
+    reaction(
+      () => [this.wallet.viewedAddress, this.wallet.connectionCount] as const,
+      ([address]) => this.followAccount(address),
+    );
+  }
+
+  get network(): NetworkConfig {
+    return this.chain.network;
+  }
+
+  private get chain(): ChainClient {
+    return this.networks.chain;
+  }
+
+  get pendingWithdrawals(): WithdrawalRequestView[] {
+    return this.withdrawals.filter((w) => !w.claimed);
+  }
+
+  get claimableWithdrawals(): WithdrawalRequestView[] {
+    return this.withdrawals.filter((w) => !w.claimed && w.canClaim);
+  }
+
+  /** Whether stQRL enforces the minimum-stake maturity lock (v2.3+). */
+  get hasMaturityLock(): boolean {
+    return this.deployment?.capabilities.maturityLock ?? false;
+  }
+
+  /** Convert a QRL amount into stQRL shares at the current rate (approximate). */
+  sharesForQrl(amount: bigint): bigint {
+    if (!this.pool || this.pool.exchangeRate === 0n) return amount;
+    return (amount * RATE_BASE) / this.pool.exchangeRate;
+  }
+
+  /** Convert stQRL shares into their current QRL value (approximate). */
+  qrlForShares(shares: bigint): bigint {
+    if (!this.pool) return shares;
+    return (shares * this.pool.exchangeRate) / RATE_BASE;
+  }
+
+  /** Follow the chain head: refresh once for every new block. */
+  init(): void {
+    if (this.initStarted) return;
+    this.initStarted = true;
+    // The store is a singleton living for the whole app session, so the
+    // listener is intentionally never removed.
+    this.heads.onHead((blockNumber) => {
+      // Skip blocks while the tab is hidden - the watcher re-announces the
+      // head when the user returns, which catches up in one refresh.
+      if (typeof document !== "undefined" && document.hidden) return;
+      this.syncTo(blockNumber);
+    });
+  }
+
+  /** Refresh at `blockNumber` unless a refresh for it (or later) already ran. */
+  syncTo(blockNumber: bigint): void {
+    if (blockNumber <= this.requestedBlock) return;
+    this.requestedBlock = blockNumber;
+    void this.refresh(blockNumber);
+  }
+
+  /**
+   * Drop everything read from the previous network. The account (if any) is
+   * kept but emptied; the next head of the new network refills it.
+   */
+  resetForNetwork(): void {
+    const address = this.account?.address ?? null;
+    this.pool = null;
+    this.feeMarket = null;
+    this.deployment = null;
+    this.account = address ? emptyAccount(address) : null;
+    this.withdrawals = [];
+    this.activity = [];
+    this.activityError = null;
+    this.rpcError = null;
+    this.rpcEndpoints = [];
+    this.rpcEndpoint = null;
+    this.currentBlock = 0n;
+    this.requestedBlock = 0n;
+    this.finalizedRequests = new Map();
+    if (address) void this.loadCachedActivity(address);
+  }
+
+  /** Re-read pool and account state at `blockNumber` (default: latest). */
+  async refresh(blockNumber?: bigint): Promise<void> {
+    // Nothing to read where the contracts don't exist (yet).
+    if (!this.networks.deployed) return;
+    const chain = this.chain;
+    try {
+      // One snapshot per refresh: pool and account values all come from the
+      // same block, in two or three JSON-RPC round trips in total.
+      const [reader, deployment] = await Promise.all([
+        chain.snapshot(blockNumber),
+        chain.deployment(),
+      ]);
+      // A latest-block refresh (account switch, tx settled) covers its head too.
+      if (reader.blockNumber > this.requestedBlock) this.requestedBlock = reader.blockNumber;
+      const address = this.account?.address ?? null;
+      const poolRead = this.readPool(reader);
+      const finalized = this.finalizedRequests;
+      const positionRead = address
+        ? readPositions(reader, [address], deployment, () => finalized).then(([p]) => p)
+        : null;
+      // Fee quotes are a nicety - a node without the fee-market methods
+      // shouldn't fail the refresh.
+      const feeRead = reader.feeMarket().catch(() => null);
+      await reader.flush();
+      const [pool, position, feeMarket] = await Promise.all([poolRead, positionRead, feeRead]);
+
+      runInAction(() => {
+        // The user switched networks mid-refresh - these values are for the old one.
+        if (chain !== this.chain) return;
+        this.rpcError = null;
+        this.deployment = deployment;
+        this.captureEndpointHealth();
+        // Overlapping refreshes can settle out of order - never let an older
+        // block overwrite a newer snapshot.
+        if (reader.blockNumber < this.currentBlock) return;
+        this.currentBlock = reader.blockNumber;
+        this.pool = pool;
+        if (feeMarket) this.feeMarket = feeMarket;
+        // The user may have disconnected or switched accounts while we were
+        // fetching - don't resurrect stale state.
+        if (!position || this.account?.address !== position.account.address) return;
+        this.account = position.account;
+        this.withdrawals = position.withdrawals;
+      });
+      if (address && chain === this.chain) void this.syncActivity(address, reader.blockNumber);
+    } catch (error) {
+      runInAction(() => {
+        if (chain !== this.chain) return;
+        this.rpcError = errorMessage(error);
+        this.captureEndpointHealth();
+      });
+    }
+  }
+
+  private captureEndpointHealth(): void {
+    const { endpoints } = this.chain;
+    this.rpcEndpoints = endpoints.endpoints.map((endpoint) => ({ ...endpoint }));
+    this.rpcEndpoint = endpoints.current;
+  }
+
+  /** Adopt (or drop) the wallet's account and fetch its position. */
+  private followAccount(address: string | null): void {
+    if (!address) {
+      runInAction(() => {
+        this.account = null;
+        this.withdrawals = [];
+        this.activity = [];
+        this.activityError = null;
+      });
+      this.finalizedRequests = new Map();
+      return;
+    }
+    if (this.account?.address !== address) {
+      runInAction(() => {
+        this.account = emptyAccount(address);
+        this.withdrawals = [];
+        this.activity = [];
+      });
+      this.finalizedRequests = new Map();
+      void this.loadCachedActivity(address);
+    }
+    void this.refresh();
+  }
+
+  /** Queue the pool-wide reads on `reader`; resolves after it is flushed. */
+  private async readPool(reader: BlockReader): Promise<PoolStats> {
+    const [status, rewards, minDeposit, paused, validatorStats] = await Promise.all([
+      reader.call("depositPool", "getPoolStatus"),
+      reader.call("depositPool", "getRewardStats"),
+      reader.call("depositPool", "minDeposit"),
+      reader.call("depositPool", "paused"),
+      reader.call("validatorManager", "getStats"),
+    ]);
+
+    return {
+      totalPooled: status.totalPooled,
+      totalShares: status.totalShares,
+      buffered: status.buffered,
+      validators: status.validators,
+      pendingWithdrawalShares: status.pendingWithdrawalShares,
+      reserveBalance: status.reserveBalance,
+      exchangeRate: status.exchangeRate,
+      minDeposit,
+      totalRewards: rewards.totalRewards,
+      totalSlashing: rewards.totalSlashing,
+      netRewards: rewards.netRewards,
+      activeValidators: validatorStats.active,
+      pendingValidators: validatorStats.pending,
+      paused,
+    };
+  }
+
+  /**
+   * Add events from a receipt the user just confirmed, ahead of the next
+   * activity sync (which indexes the same logs and replaces the list).
+   */
+  recordActivity(logs: IndexedLog[]): void {
+    const address = this.account?.address.toLowerCase();
+    const fresh = logs.filter(
+      (log) =>
+        log.values.user?.toLowerCase() === address &&
+        !this.activity.some((row) => row.txHash === log.transactionHash),
+    );
+    if (fresh.length === 0) return;
+    this.activity = [...toActivityList(fresh), ...this.activity].sort((a, b) =>
+      a.blockNumber === b.blockNumber ? 0 : a.blockNumber > b.blockNumber ? -1 : 1,
+    );
+  }
+
+  /** Show the locally indexed history straight away, before any RPC. */
+  private async loadCachedActivity(address: string): Promise<void> {
+    const key = this.activityKey(address);
+    const logs = await this.activityIndex.cached(key);
+    runInAction(() => {
+      // A sync may already have landed, or the account or network changed.
+      if (!this.account || this.activityKey(this.account.address) !== key) return;
+      if (this.activity.length > 0) return;
+      this.activity = toActivityList(logs);
+    });
+  }
+
+  /** Extend the account's event index to `toBlock` and publish it. */
+  private async syncActivity(address: string, toBlock: bigint): Promise<void> {
+    const key = this.activityKey(address);
+    const chain = this.chain;
+    try {
+      const logs = await this.activityIndex.sync(
+        key,
+        toBlock,
+        (fromBlock, rangeEnd) =>
+          chain.logs("depositPool", ACTIVITY_EVENT_NAMES, { user: address }, fromBlock, rangeEnd),
+        chain.network.deploymentBlocks.depositPool,
+      );
+      runInAction(() => {
+        if (!this.account || this.activityKey(this.account.address) !== key) return;
+        this.activity = toActivityList(logs);
+        this.activityError = null;
+      });
+    } catch (error) {
+      // Some RPC proxies don't expose log queries - degrade gracefully.
+      runInAction(() => {
+        if (chain !== this.chain) return;
+        this.activityError = errorMessage(error);
+      });
+    }
+  }
+
+  private activityKey(address: string): string {
+    return indexKey(this.network.id, this.network.contracts.depositPool, address);
+  }
+}
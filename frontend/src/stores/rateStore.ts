@@ -0,0 +1,180 @@
+import { makeAutoObservable, observable, reaction, runInAction } from "mobx";
+import { BLOCK_TIME_SECONDS } from "@/config/networks";
+import type { NetworkStore } from "@/stores/networkStore";
+import type { ProtocolStore } from "@/stores/protocolStore";
+import type { ChainClient } from "@/utils/web3/chainClient";
+import { errorMessage } from "@/utils/errors";
+import { indexKey, type EventIndex } from "@/utils/eventIndex";
+import {
+  annualizedRate,
+  buildRateHistory,
+  downsample,
+  POOLED_EVENT,
+  RATE_EVENTS,
+  rateAt,
+  type RatePoint,
+} from "@/utils/rateHistory";
+
+/** Realized APR over trailing windows, as fractions; null without enough history. */
+export interface AprFigures {
+  week: number | null;
+  month: number | null;
+  inception: number | null;
+}
+
+const NO_APR: AprFigures = { week: null, month: null, inception: null };
+
+/** Points drawn in the rate chart (each needs its block's timestamp). */
+const CHART_POINTS = 60;
+
+const DAY_BLOCKS = BigInt((24 * 60 * 60) / BLOCK_TIME_SECONDS);
+
+/** A chart point with its block's time (unix seconds). */
+export interface TimedRatePoint extends RatePoint {
+  timestamp: number;
+}
+
+/**
+ * stQRL exchange-rate history and the APR it implies, from an event index of
+ * reward, slashing and pooled-QRL updates. Follows ProtocolStore's snapshots:
+ * each new pool read extends the index and re-anchors the series at the
+ * current rate.
+ */
+export class RateStore {
+  /** Rate series, oldest first; empty until the first sync lands. */
+  history: RatePoint[] = [];
+  /** Downsampled series with block times, for the chart. */
+  chart: TimedRatePoint[] = [];
+  apr: AprFigures = NO_APR;
+  error: string | null = null;
+
+  /** Block times are immutable - read each once per network. */
+  private timestamps = new Map<bigint, number>();
+
+  constructor(
+    private readonly networks: Pick<NetworkStore, "chain" | "deployed">,
+    private readonly protocol: Pick<ProtocolStore, "pool" | "currentBlock">,
+    private readonly index: EventIndex,
+  ) {
+    makeAutoObservable(this, {
+      networks: false,
+      protocol: false,
+      chain: false,
+      history: observable.ref,
+      chart: observable.ref,
+      timestamps: false,
+      index: false,
+    } as Parameters<typeof makeAutoObservable>[1]);
+
+    // The store is a singleton living for the whole app session, so the
+    // reaction is intentionally never disposed.
+    reaction(
+      () => this.protocol.currentBlock,
+      () => void this.update(),
+    );
+  }
+
+  private get chain(): ChainClient {
+    return this.networks.chain;
+  }
+
+  /** The APR to headline: 30-day once there is a month of history. */
+  get headline(): { label: string; value: number } | null {
+    if (this.apr.month !== null) return { label: "APR (30d)", value: this.apr.month };
+    if (this.apr.inception !== null) {
+      return { label: "APR (since launch)", value: this.apr.inception };
+    }
+    return null;
+  }
+
+  resetForNetwork(): void {
+    this.history = [];
+    this.chart = [];
+    this.apr = NO_APR;
+    this.error = null;
+    this.timestamps = new Map();
+  }
+
+  private async update(): Promise<void> {
+    const { pool, currentBlock } = this.protocol;
+    if (!pool || currentBlock === 0n || !this.networks.deployed) return;
+    const chain = this.chain;
+    const now: RatePoint = {
+      blockNumber: currentBlock,
+      rate: pool.exchangeRate,
+      totalPooled: pool.totalPooled,
+    };
+    try {
+      const key = indexKey(chain.network.id, chain.network.contracts.depositPool, "rates");
+      // Only DepositPool updates stQRL's pooled total, so neither log predates the pool.
+      const logs = await this.index.sync(
+        key,
+        currentBlock,
+        async (fromBlock, toBlock) => {
+          const [poolLogs, tokenLogs] = await Promise.all([
+            chain.logs("depositPool", RATE_EVENTS, {}, fromBlock, toBlock),
+            chain.logs("stQRL", [POOLED_EVENT], {}, fromBlock, toBlock),
+          ]);
+          return [...poolLogs, ...tokenLogs];
+        },
+        chain.network.deploymentBlocks.depositPool,
+      );
+      const history = buildRateHistory(logs, now);
+      const sampled = downsample(history, CHART_POINTS);
+      const start = history[0].blockNumber;
+      const windowStart = (days: bigint) => {
+        const block = currentBlock - days * DAY_BLOCKS;
+        return block >= start ? block : null;
+      };
+      const week = windowStart(7n);
+      const month = windowStart(30n);
+      const times = await this.readTimestamps(chain, currentBlock, [
+        ...sampled.map((point) => point.blockNumber),
+        ...(week !== null ? [week] : []),
+        ...(month !== null ? [month] : []),
+      ]);
+
+      const aprFrom = (block: bigint | null) => {
+        const rate = block === null ? null : rateAt(history, block);
+        if (block === null || rate === null) return null;
+        return annualizedRate(rate, now.rate, times(currentBlock) - times(block));
+      };
+      runInAction(() => {
+        if (chain !== this.chain) return;
+        // Overlapping updates can settle out of order - keep the newer one.
+        const latest = this.history[this.history.length - 1]?.blockNumber ?? 0n;
+        if (currentBlock < latest) return;
+        this.history = history;
+        this.chart = sampled.map((point) => ({ ...point, timestamp: times(point.blockNumber) }));
+        this.apr = {
+          week: aprFrom(week),
+          month: aprFrom(month),
+          inception: history.length > 1 ? aprFrom(start) : null,
+        };
+        this.error = null;
+      });
+    } catch (error) {
+      runInAction(() => {
+        if (chain === this.chain) this.error = errorMessage(error);
+      });
+    }
+  }
+
+  /** Fetch the block times not read yet, in one batch; returns a lookup. */
+  private async readTimestamps(
+    chain: ChainClient,
+    head: bigint,
+    blocks: readonly bigint[],
+  ): Promise<(block: bigint) => number> {
+    const cache = this.timestamps;
+    const missing = [...new Set([head, ...blocks])].filter((block) => !cache.has(block));
+    if (missing.length > 0) {
+      const reader = await chain.snapshot(head);
+      const reads = missing.map((block) => reader.blockTimestamp(block));
+      await reader.flush();
+      const values = await Promise.all(reads);
+      missing.forEach((block, i) => cache.set(block, values[i]));
+    }
+    return (block) => cache.get(block) ?? 0;
+  }
+}
@@ -1,14 +1,130 @@
 import { createContext, useContext } from "react";
 import { configure } from "mobx";
-import { PoolStore } from "./poolStore";
+import { BLOCK_TIME_SECONDS, type NetworkId } from "@/config/networks";
+import { EventIndex } from "@/utils/eventIndex";
+import { HeadWatcher } from "@/utils/headWatcher";
+import { browserIndexStorage } from "@/utils/indexedDbStorage";
+import { AdminStore } from "./adminStore";
+import { BeaconStore } from "./beaconStore";
+import { ExportStore } from "./exportStore";
+import { NetworkStore } from "./networkStore";
+import { PnlStore } from "./pnlStore";
+import { PortfolioStore } from "./portfolioStore";
+import { PriceStore } from "./priceStore";
+import { ProtocolStore } from "./protocolStore";
+import { RateStore } from "./rateStore";
+import { TxStore } from "./txStore";
+import { ValidatorStore } from "./validatorStore";
+import { WalletStore } from "./walletStore";
 
 configure({
   enforceActions: "never",
   useProxies: "always",
 });
 
-class RootStore {
-  poolStore = new PoolStore();
+export class RootStore {
+  walletStore = new WalletStore();
+  networkStore = new NetworkStore(this.walletStore);
+  // Both callbacks read the current chain, so a network switch only needs a
+  // restart rather than a new watcher.
+  heads = new HeadWatcher({
+    fetchHead: () => this.networkStore.chain.blockNumber(),
+    subscribe: (onHead, onError) => {
+      const subscribe = this.networkStore.chain.headSubscriber;
+      return subscribe
+        ? subscribe(onHead, onError)
+        : Promise.reject(new Error("No websocket endpoint configured"));
+    },
+    blockTimeMs: BLOCK_TIME_SECONDS * 1000,
+  });
+  // One event index for every store, so slices reading the same key (activity
+  // in protocol and export, transfers in pnl and export) share one sync and
+  // its checkpoints instead of scanning and writing them twice.
+  eventIndex = new EventIndex(browserIndexStorage());
+  protocolStore = new ProtocolStore(
+    this.networkStore,
+    this.walletStore,
+    this.heads,
+    this.eventIndex,
+  );
+  priceStore = new PriceStore(this.networkStore, this.heads);
+  rateStore = new RateStore(this.networkStore, this.protocolStore, this.eventIndex);
+  pnlStore = new PnlStore(
+    this.networkStore,
+    this.protocolStore,
+    this.rateStore,
+    this.priceStore,
+    this.eventIndex,
+  );
+  exportStore = new ExportStore(
+    this.networkStore,
+    this.protocolStore,
+    this.rateStore,
+    this.priceStore,
+    this.eventIndex,
+  );
+  portfolioStore = new PortfolioStore(this.networkStore, this.walletStore, this.heads);
+  validatorStore = new ValidatorStore(this.networkStore, this.heads, this.eventIndex);
+  beaconStore = new BeaconStore(this.networkStore, this.heads);
+  adminStore = new AdminStore(this.walletStore, this.networkStore, this.heads);
+  txStore = new TxStore(this.walletStore, this.networkStore, this.heads, (blockNumber, logs) => {
+    this.protocolStore.recordActivity(logs);
+    this.protocolStore.syncTo(blockNumber);
+    this.adminStore.syncTo(blockNumber);
+    this.validatorStore.syncTo(blockNumber);
+  });
+
+  private initStarted = false;
+
+  /** Start wallet discovery and block-driven refreshes. Idempotent. */
+  async init(): Promise<void> {
+    if (this.initStarted) return;
+    this.initStarted = true;
+    this.walletStore.setupWallets();
+    // `?address=Q…` opens the app watching that account, read-only.
+    if (typeof window !== "undefined") {
+      const watched = new URLSearchParams(window.location.search).get("address");
+      if (watched) this.walletStore.watch(watched);
+    }
+    this.protocolStore.init();
+    this.priceStore.init();
+    this.adminStore.init();
+    if (typeof document !== "undefined") {
+      // Catch up as soon as the user comes back rather than at the next block.
+      document.addEventListener("visibilitychange", () => {
+        if (!document.hidden) void this.heads.poke();
+      });
+    }
+    void this.networkStore.readChainId();
+    await this.startHeads();
+  }
+
+  /**
+   * Point the app at another network: fresh contracts and endpoint health,
+   * no cached requests or activity from the old one. Refused while the wallet
+   * is signing; submitted transactions stay queued and resume tracking when
+   * their network is selected again.
+   */
+  async switchNetwork(id: NetworkId): Promise<void> {
+    if (this.txStore.signing) return;
+    if (!this.networkStore.select(id)) return;
+    this.protocolStore.resetForNetwork();
+    this.portfolioStore.resetForNetwork();
+    this.rateStore.resetForNetwork();
+    this.pnlStore.resetForNetwork();
+    this.validatorStore.resetForNetwork();
+    this.beaconStore.resetForNetwork();
+    this.adminStore.resetForNetwork();
+    this.txStore.resetForNetwork();
+    if (this.initStarted) await this.startHeads(true);
+  }
+
+  private async startHeads(restart = false): Promise<void> {
+    await (restart ? this.heads.restart() : this.heads.start());
+    // No head yet means the node is unreachable - a plain refresh surfaces
+    // the error while the watcher keeps retrying in the background.
+    if (this.heads.head === 0n) await this.protocolStore.refresh();
+  }
 }
 
 // Persist the store across Vite HMR reloads (same pattern as myqrlwallet).
@@ -0,0 +1,792 @@
+import { makeAutoObservable, reaction, runInAction } from "mobx";
+import type { NetworkStore } from "@/stores/networkStore";
+import type { WalletStore } from "@/stores/walletStore";
+import {
+  asBig,
+  type ChainClient,
+  type ContractCall,
+  type ContractMethods,
+} from "@/utils/web3/chainClient";
+import { isExecutionRevert, RevertReasonError } from "@/utils/contractErrors";
+import { errorAction, errorMessage } from "@/utils/errors";
+import type { IndexedLog } from "@/utils/eventIndex";
+import { FALLBACK_GAS_LIMIT, padGasLimit } from "@/utils/feeQuote";
+import type { AdminContract } from "@/utils/admin";
+import type { DepositData } from "@/utils/depositData";
+import { formatAmount, parseUnits, shortenAddress } from "@/utils/format";
+import type { ValidatorAction } from "@/utils/validators";
+import { NATIVE_UNIT, VALIDATOR_STAKE_QRL, WITHDRAWAL_DELAY_BLOCKS } from "@/config/networks";
+import type { HeadWatcher } from "@/utils/headWatcher";
+import {
+  nextTxState,
+  parseQueue,
+  pruneQueue,
+  bumpFees,
+  type Replacement,
+  type TrackedTx,
+  txOutcome,
+} from "@/utils/txQueue";
+
+export type TxState = "idle" | "pending" | "confirmed" | "failed";
+
+export interface TxStatus {
+  state: TxState;
+  label: string;
+  txHash: string | null;
+  error: string | null;
+  /** Suggested next step for a decoded contract error. */
+  action: string | null;
+  /** Expected outcome from the pre-flight simulation, set before the wallet opens. */
+  preview: string | null;
+  /** What the confirmed transaction did, from its receipt's events. */
+  outcome: string | null;
+}
+
+const IDLE_TX: TxStatus = {
+  state: "idle",
+  label: "",
+  txHash: null,
+  error: null,
+  action: null,
+  preview: null,
+  outcome: null,
+};
+
+/** Contracts the app sends transactions to. */
+type WriteTarget = "depositPool" | "stQRL" | "validatorManager";
+
+/**
+ * A contract write (DepositPool unless `contract` says otherwise): the call
+ * to simulate and send, and how to describe its simulated return value to
+ * the user.
+ */
+interface TxPlan<R, C extends WriteTarget = "depositPool"> {
+  contract?: C;
+  value?: bigint;
+  method: (contract: ContractMethods<C>) => ContractCall<R>;
+  describe: (result: R, from: string) => string | Promise<string>;
+}
+
+const CONTRACT_NAMES: Record<WriteTarget, string> = {
+  depositPool: "DepositPool",
+  stQRL: "stQRL",
+  validatorManager: "ValidatorManager",
+};
+
+/** Banner label and preview per validator status transition. */
+const TRANSITION_COPY: Record<ValidatorAction, { label: string; preview: string }> = {
+  activate: { label: "Activate validator", preview: "will be marked active" },
+  requestExit: { label: "Request validator exit", preview: "will be marked exiting" },
+  markExited: { label: "Mark validator exited", preview: "will be marked exited" },
+  markSlashed: { label: "Mark validator slashed", preview: "will be marked slashed" },
+};
+
+const SIMULATION_UNAVAILABLE =
+  "Couldn't simulate this transaction - check the details in your wallet.";
+
+const STORAGE_KEY = "quantapool:txs";
+
+const amount = (value: string) => formatAmount(BigInt(value));
+
+/** What a confirmed transaction did, from the DepositPool events it emitted. */
+function describeOutcome(logs: readonly IndexedLog[]): string | null {
+  const parts = logs.flatMap(({ event, values }) => {
+    switch (event) {
+      case "Deposited":
+        return `You received ${amount(values.sharesReceived)} stQRL.`;
+      case "WithdrawalRequested": {
+        const claimable = BigInt(values.requestBlock) + BigInt(WITHDRAWAL_DELAY_BLOCKS);
+        return (
+          `Withdrawal of ${amount(values.qrlAmount)} ${NATIVE_UNIT} requested, ` +
+          `claimable from block ${claimable}.`
+        );
+      }
+      case "WithdrawalClaimed":
+        return `You received ${amount(values.qrlAmount)} ${NATIVE_UNIT}.`;
+      case "WithdrawalCancelled":
+        return `Request #${values.requestId} cancelled, ${amount(values.shares)} stQRL unlocked.`;
+      default:
+        return [];
+    }
+  });
+  return parts.length > 0 ? parts.join(" ") : null;
+}
+
+/** Actions the forms quote a network fee for before sending. */
+export type FeeAction = "stake" | "requestWithdrawal";
+
+/** Input settles this long before a new gas estimate is requested. */
+const QUOTE_DEBOUNCE_MS = 400;
+
+/** Gas for a plain value transfer - all a cancel needs. */
+const TRANSFER_GAS = 21_000;
+
+function loadQueue(): TrackedTx[] {
+  try {
+    return parseQueue(localStorage.getItem(STORAGE_KEY));
+  } catch {
+    return []; // Storage disabled - track this session only.
+  }
+}
+
+/**
+ * Staking transactions: builds the DepositPool calls and sends them through
+ * the connected wallet. The wallet prompt owns a single status slot (the
+ * banner); every submitted transaction then joins a persisted queue whose
+ * receipts are checked once per head, across reloads.
+ */
+export class TxStore {
+  tx: TxStatus = IDLE_TX;
+  /** Submitted transactions on every network, newest first. */
+  queue: TrackedTx[] = loadQueue();
+  /** Latest gas estimate per form for the connected account; priced by quoteFee. */
+  gasEstimates: Partial<Record<FeeAction, bigint>> = {};
+  /** Decoded revert per form when its estimate predicts one; shown by the fee line. */
+  feeErrors: Partial<Record<FeeAction, string>> = {};
+
+  private tracking = false;
+  /** runTx calls waiting for their transaction to settle, by hash. */
+  private waiters = new Map<string, (ok: boolean) => void>();
+
+  constructor(
+    private readonly wallet: Pick<WalletStore, "address" | "provider" | "providerKind">,
+    private readonly networks: Pick<NetworkStore, "chain" | "deployed" | "walletOnOtherChain">,
+    private readonly heads: Pick<HeadWatcher, "onHead">,
+    /**
+     * Called with the receipt's block and the sender's decoded events, so
+     * readers can show them at once and pick up the new state.
+     */
+    private readonly onSettled: (blockNumber: bigint, logs: IndexedLog[]) => void,
+  ) {
+    makeAutoObservable(this, {
+      wallet: false,
+      networks: false,
+      chain: false,
+      heads: false,
+      onSettled: false,
+      waiters: false,
+    } as Parameters<typeof makeAutoObservable>[1]);
+
+    // A different (or no) account makes the last status meaningless.
+    reaction(
+      () => this.wallet.address,
+      () => {
+        this.clearTx();
+        this.gasEstimates = {};
+        this.feeErrors = {};
+      },
+    );
+    // Also resumes whatever was pending before a reload, from the first head on.
+    this.heads.onHead((head) => void this.trackPending(head));
+  }
+
+  private get chain(): ChainClient {
+    return this.networks.chain;
+  }
+
+  /** A transaction is being simulated or waits for the wallet's signature. */
+  get signing(): boolean {
+    return this.tx.state === "pending" && !this.tx.txHash;
+  }
+
+  /** Submitted transactions on the selected network, newest first. */
+  get recent(): TrackedTx[] {
+    return this.queue.filter((tx) => tx.networkId === this.chain.network.id);
+  }
+
+  get pendingCount(): number {
+    return this.recent.filter((tx) => tx.state === "pending").length;
+  }
+
+  clearTx(): void {
+    this.tx = IDLE_TX;
+  }
+
+  /**
+   * Drop the status slot and release runTx calls waiting on another
+   * network's transactions: they resolve false (not known to have
+   * succeeded) and the queue picks the entries up again once their network
+   * is selected.
+   */
+  resetForNetwork(): void {
+    this.clearTx();
+    const networkId = this.chain.network.id;
+    for (const tx of this.queue) {
+      if (tx.networkId === networkId) continue;
+      this.waiters.get(tx.hash)?.(false);
+      this.waiters.delete(tx.hash);
+    }
+  }
+
+  /** Forget settled transactions on the selected network. */
+  clearSettled(): void {
+    const networkId = this.chain.network.id;
+    this.queue = this.queue.filter((tx) => tx.networkId !== networkId || tx.state === "pending");
+    this.saveQueue();
+  }
+
+  /** Stake QRL: DepositPool.deposit() with msg.value. */
+  async stake(amount: string): Promise<boolean> {
+    return this.runTx("Stake", () => this.stakePlan(parseUnits(amount)));
+  }
+
+  /** Request withdrawal of stQRL shares (starts the 128-block delay). */
+  async requestUnstake(shares: string): Promise<boolean> {
+    return this.runTx("Request withdrawal", () => this.requestPlan(parseUnits(shares)));
+  }
+
+  private stakePlan(value: bigint): TxPlan<bigint> {
+    return {
+      value,
+      method: (pool) => pool.deposit(),
+      describe: (shares) => `You will receive ≈ ${formatAmount(shares)} stQRL.`,
+    };
+  }
+
+  private requestPlan(shares: bigint): TxPlan<{ requestId: bigint; qrlAmount: bigint }> {
+    return {
+      method: (pool) => pool.requestWithdrawal(shares),
+      describe: ({ requestId, qrlAmount }) =>
+        `Request #${requestId} for ≈ ${formatAmount(qrlAmount)} ${NATIVE_UNIT}, ` +
+        `claimable after ${WITHDRAWAL_DELAY_BLOCKS} blocks.`,
+    };
+  }
+
+  /**
+   * Estimate gas for a form's action once its input has settled; returns
+   * the cleanup for a React effect. The fee itself is priced per head from
+   * the fee market (see utils/feeQuote.ts), so it isn't re-estimated then.
+   */
+  quoteFee(action: FeeAction, amount: bigint | null): () => void {
+    if (amount === null || amount <= 0n) return () => {};
+    const timer = setTimeout(() => void this.estimateGas(action, amount), QUOTE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }
+
+  private async estimateGas(action: FeeAction, amount: bigint): Promise<void> {
+    const from = this.wallet.address;
+    if (!from || !this.networks.deployed) return;
+    const chain = this.chain;
+    let gas: bigint | undefined;
+    let feeError: string | undefined;
+    try {
+      const plan = action === "stake" ? this.stakePlan(amount) : this.requestPlan(amount);
+      const [{ pool }, web3] = await Promise.all([chain.getContracts(), chain.getWeb3()]);
+      const data = plan.method(pool).encodeABI();
+      const to = chain.network.contracts.depositPool;
+      gas = asBig(await web3.qrl.estimateGas({ from, to, value: plan.value ?? 0n, data }));
+    } catch (error) {
+      // A revert (over the balance, under the minimum...) has no fee worth
+      // showing - its decoded reason takes the fee's place, as in the
+      // pre-flight. Otherwise price what the extension would send without
+      // an estimate.
+      const revert =
+        (await chain.decodeRevert(error).catch(() => null)) ??
+        (isExecutionRevert(error) ? new RevertReasonError("no reason given") : null);
+      gas = revert ? undefined : FALLBACK_GAS_LIMIT;
+      feeError = revert ? errorMessage(revert) : undefined;
+    }
+    runInAction(() => {
+      if (chain !== this.chain || from !== this.wallet.address) return;
+      this.gasEstimates = { ...this.gasEstimates, [action]: gas };
+      this.feeErrors = { ...this.feeErrors, [action]: feeError };
+    });
+  }
+
+  /** Claim the oldest ready withdrawal request (FIFO). */
+  async claim(): Promise<boolean> {
+    return this.runTx("Claim withdrawal", () => ({
+      method: (pool) => pool.claimWithdrawal(),
+      describe: (qrlAmount) => `You will receive ${formatAmount(qrlAmount)} ${NATIVE_UNIT}.`,
+    }));
+  }
+
+  /** Cancel a pending withdrawal request and unlock its shares. */
+  async cancel(requestId: number): Promise<boolean> {
+    return this.runTx("Cancel withdrawal", () => ({
+      method: (pool) => pool.cancelWithdrawal(BigInt(requestId)),
+      // cancelWithdrawal returns nothing; the unlocked amount is the request's shares.
+      describe: async (_, from) => {
+        const reader = await this.chain.snapshot();
+        const request = reader.call("depositPool", "withdrawalRequests", from, BigInt(requestId));
+        await reader.flush();
+        return `Unlocks ${formatAmount((await request).shares)} stQRL.`;
+      },
+    }));
+  }
+
+  // Owner-only administration (the /admin console). The console validates
+  // inputs first; the pre-flight still catches anything it can't see.
+
+  pause(contract: AdminContract): Promise<boolean> {
+    return this.runTx(`Pause ${CONTRACT_NAMES[contract]}`, () => ({
+      contract,
+      method: (target) => target.pause(),
+      describe: () => `${CONTRACT_NAMES[contract]} will be paused.`,
+    }));
+  }
+
+  unpause(contract: AdminContract): Promise<boolean> {
+    return this.runTx(`Unpause ${CONTRACT_NAMES[contract]}`, () => ({
+      contract,
+      method: (target) => target.unpause(),
+      describe: () => `${CONTRACT_NAMES[contract]} will be unpaused.`,
+    }));
+  }
+
+  transferOwnership(contract: AdminContract, newOwner: string): Promise<boolean> {
+    return this.runTx(`Transfer ${CONTRACT_NAMES[contract]} ownership`, () => ({
+      contract,
+      method: (target) => target.transferOwnership(newOwner),
+      describe: () =>
+        `${shortenAddress(newOwner)} will own ${CONTRACT_NAMES[contract]}. ` +
+        "Only they can undo this.",
+    }));
+  }
+
+  setMinDeposit(value: bigint): Promise<boolean> {
+    return this.runTx("Set minimum deposit", () => ({
+      method: (pool) => pool.setMinDeposit(value),
+      describe: () => `The minimum deposit will be ${formatAmount(value)} ${NATIVE_UNIT}.`,
+    }));
+  }
+
+  setMinDepositFloor(value: bigint): Promise<boolean> {
+    return this.runTx("Set minimum deposit floor", () => ({
+      method: (pool) => pool.setMinDepositFloor(value),
+      describe: () => `The minimum deposit floor will be ${formatAmount(value)} ${NATIVE_UNIT}.`,
+    }));
+  }
+
+  fundWithdrawalReserve(value: bigint): Promise<boolean> {
+    return this.runTx("Fund withdrawal reserve", () => ({
+      method: (pool) => pool.fundWithdrawalReserve(value),
+      describe: () => `Moves ${formatAmount(value)} ${NATIVE_UNIT} into the withdrawal reserve.`,
+    }));
+  }
+
+  releaseWithdrawalReserve(value: bigint): Promise<boolean> {
+    return this.runTx("Release withdrawal reserve", () => ({
+      method: (pool) => pool.releaseWithdrawalReserve(value),
+      describe: () => `Releases ${formatAmount(value)} ${NATIVE_UNIT} from the withdrawal reserve.`,
+    }));
+  }
+
+  emergencyWithdraw(to: string, value: bigint): Promise<boolean> {
+    return this.runTx("Emergency withdraw", () => ({
+      method: (pool) => pool.emergencyWithdraw(to, value),
+      describe: () => `Sends ${formatAmount(value)} ${NATIVE_UNIT} to ${shortenAddress(to)}.`,
+    }));
+  }
+
+  /** Stakes one validator from the buffer; check the deposit with utils/depositData.ts first. */
+  fundValidator(deposit: DepositData): Promise<boolean> {
+    return this.runTx("Fund validator", () => ({
+      method: (pool) =>
+        pool.fundValidator(
+          deposit.pubkey,
+          deposit.withdrawalCredentials,
+          deposit.signature,
+          deposit.depositDataRoot,
+        ),
+      describe: () =>
+        `Deposits ${formatAmount(VALIDATOR_STAKE_QRL)} ${NATIVE_UNIT} from the buffer for ` +
+        `validator ${deposit.pubkey.slice(0, 10)}…${deposit.pubkey.slice(-8)}.`,
+    }));
+  }
+
+  // Validator lifecycle (the operator view). Callers check the status rules
+  // with utils/validators.ts first; ValidatorManager enforces them again.
+
+  registerValidator(pubkey: string): Promise<boolean> {
+    return this.runTx("Register validator", () => ({
+      contract: "validatorManager",
+      method: (manager) => manager.registerValidator(pubkey),
+      describe: (id) => `Registers validator #${id} as pending.`,
+    }));
+  }
+
+  /** One activateValidator, or a single batchActivateValidators for several. */
+  activateValidators(ids: readonly bigint[]): Promise<boolean> {
+    const label = ids.length === 1 ? "Activate validator" : `Activate ${ids.length} validators`;
+    return this.runTx(label, () => ({
+      contract: "validatorManager",
+      method: (manager) =>
+        ids.length === 1
+          ? manager.activateValidator(ids[0])
+          : manager.batchActivateValidators([...ids]),
+      describe: () =>
+        ids.length === 1
+          ? `Validator #${ids[0]} will be marked active.`
+          : `Validators ${ids.map((id) => `#${id}`).join(", ")} will be marked active.`,
+    }));
+  }
+
+  /** A single-validator transition; activation may use activateValidators instead. */
+  transitionValidator(action: ValidatorAction, id: bigint): Promise<boolean> {
+    const { label, preview } = TRANSITION_COPY[action];
+    return this.runTx(label, () => ({
+      contract: "validatorManager",
+      method: (manager) => {
+        switch (action) {
+          case "activate":
+            return manager.activateValidator(id);
+          case "requestExit":
+            return manager.requestValidatorExit(id);
+          case "markExited":
+            return manager.markValidatorExited(id);
+          case "markSlashed":
+            return manager.markValidatorSlashed(id);
+        }
+      },
+      describe: () => `Validator #${id} ${preview}.`,
+    }));
+  }
+
+  /**
+   * Simulate, then send a transaction, owning the shared tx-status slot while
+   * the wallet is open. Resolves once the queue sees it settle.
+   */
+  private async runTx<R, C extends WriteTarget = "depositPool">(
+    label: string,
+    plan: () => TxPlan<R, C>,
+  ): Promise<boolean> {
+    if (this.signing) return false; // one wallet prompt at a time
+
+    const provider = this.wallet.provider;
+    const from = this.wallet.address;
+    if (!provider || !from) {
+      this.tx = { ...IDLE_TX, state: "failed", label, error: "Connect a wallet first" };
+      return false;
+    }
+    const preflightError = !this.networks.deployed
+      ? `QuantaPool is not deployed on ${this.chain.network.name}`
+      : this.networks.walletOnOtherChain
+        ? `Your wallet is on a different network. Switch it to ${this.chain.network.name} first`
+        : null;
+    if (preflightError) {
+      this.tx = { ...IDLE_TX, state: "failed", label, error: preflightError };
+      return false;
+    }
+
+    this.tx = { ...IDLE_TX, state: "pending", label };
+    try {
+      const { contract, value = 0n, method, describe } = plan();
+      const target: WriteTarget = contract ?? "depositPool";
+      const { pool, token, validators } = await this.chain.getContracts();
+      const methods = { depositPool: pool, stQRL: token, validatorManager: validators }[target];
+      const call = method(methods as ContractMethods<C>);
+      const params = { to: this.chain.network.contracts[target], data: call.encodeABI() };
+
+      const preview = await this.simulate(call, from, value, describe);
+      runInAction(() => {
+        this.tx = { ...this.tx, preview };
+      });
+
+      // Relay wallet (MyQRLWallet web/mobile/desktop) estimates its own gas
+      // via qrl_estimateGas, so sending an explicit limit would fight that;
+      // value is 0x-hex and omitted when zero. The QRL extension needs an
+      // explicit limit/price computed from the read node.
+      const txParams =
+        this.wallet.providerKind === "relay"
+          ? {
+              from,
+              to: params.to,
+              data: params.data,
+              ...(value > 0n ? { value: `0x${value.toString(16)}` } : {}),
+            }
+          : await this.buildExtensionTxParams(from, params.to, value, params.data);
+
+      const txHash = await provider.request<string>({
+        method: "qrl_sendTransaction",
+        params: [txParams],
+      });
+      if (!txHash) throw new Error("Wallet returned no transaction hash");
+      const settled = new Promise<boolean>((resolve) => this.waiters.set(txHash, resolve));
+      this.enqueue({
+        hash: txHash,
+        label,
+        from,
+        params: { ...params, value: value.toString() },
+        preview,
+        replacement: null,
+        nonce: null,
+        outcome: null,
+      });
+      return await settled;
+    } catch (error) {
+      // Wallets and nodes return the revert payload, not a reason - decode it.
+      const decoded = (await this.chain.decodeRevert(error).catch(() => null)) ?? error;
+      runInAction(() => {
+        this.tx = {
+          ...this.tx,
+          state: "failed",
+          label,
+          error: errorMessage(decoded),
+          action: errorAction(decoded),
+        };
+      });
+      return false;
+    }
+  }
+
+  /** Speed-up and cancel need the extension: relay wallets manage their own nonces. */
+  canReplace(tx: TrackedTx): boolean {
+    return (
+      tx.state === "pending" &&
+      tx.from === this.wallet.address &&
+      this.wallet.providerKind === "extension" &&
+      !this.signing
+    );
+  }
+
+  /** Resubmit a stuck transaction with the same nonce and higher fees. */
+  async speedUpTx(hash: string): Promise<boolean> {
+    return this.replaceTx(hash, "speedUp");
+  }
+
+  /** Take a stuck transaction's nonce with a zero-value transfer to self. */
+  async cancelTx(hash: string): Promise<boolean> {
+    return this.replaceTx(hash, "cancel");
+  }
+
+  /**
+   * Send a replacement on `hash`'s nonce with both fee caps bumped. The
+   * replacement joins the queue as its own entry; whichever of the two is
+   * mined settles both (see txOutcome).
+   */
+  private async replaceTx(hash: string, replacement: Replacement): Promise<boolean> {
+    const original = this.queue.find((tx) => tx.hash === hash);
+    const provider = this.wallet.provider;
+    if (!original || !provider || !this.canReplace(original)) return false;
+
+    const label = `${replacement === "speedUp" ? "Speed up" : "Cancel"}: ${original.label}`;
+    this.tx = { ...IDLE_TX, state: "pending", label };
+    try {
+      const web3 = await this.chain.getWeb3();
+      const sent = (await web3.qrl.getTransaction(hash)) as {
+        nonce?: unknown;
+        gas?: unknown;
+        maxFeePerGas?: unknown;
+        maxPriorityFeePerGas?: unknown;
+      } | null;
+      if (!sent) {
+        throw new Error("The network doesn't know this transaction yet - try again shortly");
+      }
+      if (sent.maxFeePerGas === undefined || sent.maxPriorityFeePerGas === undefined) {
+        throw new Error("Only fee-market (type 2) transactions can be replaced");
+      }
+      const nonce = Number(asBig(sent.nonce));
+      const fees = bumpFees({
+        maxFeePerGas: asBig(sent.maxFeePerGas),
+        maxPriorityFeePerGas: asBig(sent.maxPriorityFeePerGas),
+      });
+      const params =
+        replacement === "speedUp"
+          ? original.params
+          : { to: original.from, value: "0", data: "0x" };
+      const gas = replacement === "speedUp" ? Number(asBig(sent.gas)) : TRANSFER_GAS;
+
+      // Same nonce with explicit fee caps, so the node treats it as a
+      // replacement rather than the next transaction.
+      const txHash = await provider.request<string>({
+        method: "qrl_sendTransaction",
+        params: [
+          {
+            from: original.from,
+            ...params,
+            gas,
+            gasLimit: gas,
+            type: "0x2",
+            nonce,
+            maxFeePerGas: fees.maxFeePerGas.toString(),
+            maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+          },
+        ],
+      });
+      if (!txHash) throw new Error("Wallet returned no transaction hash");
+      const settled = new Promise<boolean>((resolve) => this.waiters.set(txHash, resolve));
+      this.enqueue({
+        hash: txHash,
+        label,
+        from: original.from,
+        params,
+        preview:
+          replacement === "speedUp"
+            ? original.preview
+            : `A zero-value transfer to yourself takes the place of ${original.label}.`,
+        replacement,
+        nonce,
+        outcome: null,
+      });
+      return await settled;
+    } catch (error) {
+      runInAction(() => {
+        this.tx = { ...this.tx, state: "failed", label, error: errorMessage(error) };
+      });
+      return false;
+    }
+  }
+
+  /** Record a transaction the wallet accepted and point the banner at it. */
+  private enqueue(
+    entry: Omit<TrackedTx, "networkId" | "state" | "unseenHeads" | "blockNumber" | "submittedAt">,
+  ): void {
+    this.tx = { ...this.tx, txHash: entry.hash };
+    this.queue = pruneQueue([
+      {
+        ...entry,
+        networkId: this.chain.network.id,
+        state: "pending",
+        unseenHeads: 0,
+        blockNumber: null,
+        submittedAt: Date.now(),
+      },
+      ...this.queue,
+    ]);
+    this.saveQueue();
+  }
+
+  /**
+   * Pre-flight: run the call from the user's address against the latest
+   * block before the wallet is asked to sign. A predicted revert aborts the
+   * send with its decoded reason; a node that can't simulate at all only
+   * costs the preview.
+   */
+  private async simulate<R>(
+    call: ContractCall<R>,
+    from: string,
+    value: bigint,
+    describe: TxPlan<R, WriteTarget>["describe"],
+  ): Promise<string> {
+    let result: R;
+    try {
+      result = await call.call({ from, value }, "latest");
+    } catch (error) {
+      const revert = await this.chain.decodeRevert(error);
+      if (revert) throw revert;
+      if (isExecutionRevert(error)) throw new RevertReasonError("no reason given");
+      return SIMULATION_UNAVAILABLE;
+    }
+    try {
+      return await describe(result, from);
+    } catch {
+      return "The simulation passed.";
+    }
+  }
+
+  /**
+   * Extension path: the QRL browser extension does NOT estimate gas for a dApp
+   * `qrl_sendTransaction`; it reads the limit straight off the request and a
+   * contract call fails to sign without it (verified against the extension
+   * source). So compute the limit here from the read node. The limit is sent
+   * under both `gas` (what the current extension reads) and `gasLimit` (older
+   * builds) for cross-version safety. `type: "0x2"` is required: without it
+   * the extension (v0.3.0) builds a legacy gasPrice tx that fails
+   * @theqrl/web3 0.5 gas validation (MissingGasError); with it the extension
+   * fills its own maxFee/maxPriorityFee, the shape all its internal sends
+   * use. Device-verified on QuantaSwap 2026-07-09.
+   */
+  private async buildExtensionTxParams(
+    from: string,
+    to: string,
+    value: bigint,
+    data: string,
+  ): Promise<Record<string, unknown>> {
+    const web3 = await this.chain.getWeb3();
+    let gasLimit = Number(FALLBACK_GAS_LIMIT);
+    try {
+      const estimated = await web3.qrl.estimateGas({ from, to, value, data });
+      gasLimit = Number(padGasLimit(asBig(estimated)));
+    } catch (error) {
+      // A decodable revert means the call would fail on-chain: report it
+      // instead of sending a transaction that is bound to revert.
+      const revert = await this.chain.decodeRevert(error);
+      if (revert) throw revert;
+      // Otherwise estimation can fail on some RPC proxies - fall back to a safe limit.
+    }
+    return {
+      from,
+      to,
+      value: value.toString(),
+      data,
+      gas: gasLimit,
+      gasLimit,
+      type: "0x2",
+    };
+  }
+
+  /**
+   * Check every pending transaction on the selected network against `head`
+   * in one batch: its receipt, whether the node still knows the hash, and the
+   * sender's mined nonce (see utils/txQueue.ts). A head arriving mid-check is
+   * skipped; the next one covers it.
+   */
+  private async trackPending(head: bigint): Promise<void> {
+    const chain = this.chain;
+    const pending = this.recent.filter((tx) => tx.state === "pending");
+    if (this.tracking || pending.length === 0) return;
+    this.tracking = true;
+    try {
+      const reader = await chain.snapshot(head);
+      const minedNonces = new Map<string, Promise<number>>();
+      for (const { from } of pending) {
+        if (!minedNonces.has(from)) minedNonces.set(from, reader.transactionCount(from));
+      }
+      const observations = Promise.all(
+        pending.map(async (tx) => {
+          const [receipt, nonce, minedNonce] = await Promise.all([
+            reader.receipt(tx.hash),
+            reader.transactionNonce(tx.hash),
+            minedNonces.get(tx.from)!,
+          ]);
+          const next = nextTxState(tx, { receipt, nonce, minedNonce });
+          return { tx: next, logs: receipt?.logs ?? [] };
+        }),
+      );
+      await reader.flush();
+      const updated = await Promise.all(
+        (await observations).map(async ({ tx, logs }) => {
+          if (tx.state !== "confirmed") return { tx, events: [] };
+          const events = (await chain.decodeReceiptLogs(logs)).filter(
+            (log) => log.values.user?.toLowerCase() === tx.from.toLowerCase(),
+          );
+          return { tx: { ...tx, outcome: describeOutcome(events) }, events };
+        }),
+      );
+      if (chain !== this.chain) return; // switched networks mid-check
+      runInAction(() => {
+        const byHash = new Map(updated.map(({ tx }) => [tx.hash, tx]));
+        this.queue = this.queue.map((tx) => byHash.get(tx.hash) ?? tx);
+        this.saveQueue();
+      });
+      for (const { tx, events } of updated) this.settle(tx, head, events);
+    } catch {
+      // Node unreachable - the next head tries again.
+    } finally {
+      this.tracking = false;
+    }
+  }
+
+  private settle(tx: TrackedTx, head: bigint, events: IndexedLog[]): void {
+    if (tx.state === "pending") return;
+    const { ok, error } = txOutcome(tx, this.queue);
+    if (this.tx.txHash === tx.hash) {
+      this.tx = { ...this.tx, state: ok ? "confirmed" : "failed", error, outcome: tx.outcome };
+    }
+    // A replacement may have moved funds too, so refresh for it as well.
+    if (tx.state !== "dropped") {
+      this.onSettled(tx.blockNumber ? BigInt(tx.blockNumber) : head, events);
+    }
+    this.waiters.get(tx.hash)?.(ok);
+    this.waiters.delete(tx.hash);
+  }
+
+  private saveQueue(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.queue));
+    } catch {
+      // Not persisted - tracking still works until the page is closed.
+    }
+  }
+}
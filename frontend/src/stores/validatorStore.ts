@@ -0,0 +1,156 @@
+import { makeAutoObservable, observable, runInAction } from "mobx";
+import type { NetworkStore } from "@/stores/networkStore";
+import type { ChainClient } from "@/utils/web3/chainClient";
+import { errorMessage } from "@/utils/errors";
+import { indexKey, REORG_DEPTH, type EventIndex, type IndexedLog } from "@/utils/eventIndex";
+import type { HeadWatcher } from "@/utils/headWatcher";
+import {
+  buildValidatorList,
+  staleValidatorIds,
+  VALIDATOR_EVENTS,
+  type ValidatorRecord,
+  type ValidatorView,
+} from "@/utils/validators";
+
+/** getValidator() views as of `block`, with the logs they were read alongside. */
+interface ViewCache {
+  block: bigint;
+  views: ValidatorView[];
+  logs: readonly IndexedLog[];
+}
+
+/**
+ * Every pool validator from ValidatorManager. Reads only while a validator
+ * view is open: on each head, the count plus the lifecycle events from a
+ * persistent index, then only the validators those events touched (or that
+ * are new) in the same snapshot.
+ */
+export class ValidatorStore {
+  /** By id, ascending; null until the first read lands. */
+  validators: ValidatorRecord[] | null = null;
+  error: string | null = null;
+
+  private viewers = 0;
+  private stopHeads: (() => void) | null = null;
+  /** Highest block a refresh has been started for - one refresh per head. */
+  private requestedBlock = 0n;
+  private loadedBlock = 0n;
+  private cache: ViewCache | null = null;
+
+  constructor(
+    private readonly networks: Pick<NetworkStore, "chain" | "deployed">,
+    private readonly heads: Pick<HeadWatcher, "onHead">,
+    private readonly index: EventIndex,
+  ) {
+    makeAutoObservable(this, {
+      networks: false,
+      chain: false,
+      heads: false,
+      viewers: false,
+      stopHeads: false,
+      requestedBlock: false,
+      loadedBlock: false,
+      index: false,
+      cache: false,
+      validators: observable.ref,
+    } as Parameters<typeof makeAutoObservable>[1]);
+  }
+
+  private get chain(): ChainClient {
+    return this.networks.chain;
+  }
+
+  /**
+   * Start reading for a mounted validator view: now, then once per head.
+   * Returns the cleanup for the view's effect.
+   */
+  open(): () => void {
+    this.viewers += 1;
+    if (!this.stopHeads) {
+      this.stopHeads = this.heads.onHead((blockNumber) => {
+        if (typeof document !== "undefined" && document.hidden) return;
+        this.syncTo(blockNumber);
+      });
+    }
+    void this.refresh();
+    return () => {
+      this.viewers -= 1;
+      if (this.viewers > 0 || !this.stopHeads) return;
+      this.stopHeads();
+      this.stopHeads = null;
+    };
+  }
+
+  resetForNetwork(): void {
+    this.validators = null;
+    this.error = null;
+    this.requestedBlock = 0n;
+    this.loadedBlock = 0n;
+    this.cache = null;
+    if (this.viewers > 0) void this.refresh();
+  }
+
+  /** Re-read at `blockNumber` while a view is open (e.g. after an operator action confirms). */
+  syncTo(blockNumber: bigint): void {
+    if (this.viewers === 0 || blockNumber <= this.requestedBlock) return;
+    this.requestedBlock = blockNumber;
+    void this.refresh(blockNumber);
+  }
+
+  private async refresh(blockNumber?: bigint): Promise<void> {
+    if (!this.networks.deployed) return;
+    const chain = this.chain;
+    const { id, contracts, deploymentBlocks } = chain.network;
+    try {
+      const reader = await chain.snapshot(blockNumber);
+      if (reader.blockNumber > this.requestedBlock) this.requestedBlock = reader.blockNumber;
+      const logsRead = this.index.sync(
+        indexKey(id, contracts.validatorManager, "validators"),
+        reader.blockNumber,
+        (fromBlock, toBlock) =>
+          chain.logs("validatorManager", VALIDATOR_EVENTS, {}, fromBlock, toBlock),
+        deploymentBlocks.validatorManager,
+      );
+
+      // Both reads run side by side; awaiting them together keeps a failed
+      // sync from going unhandled when the contract reads fail first.
+      const [total, logs] = await Promise.all([
+        reader.call("validatorManager", "totalValidators"),
+        logsRead,
+        reader.flush(),
+      ]);
+      const count = Number(total);
+
+      // A cache from a later block than this snapshot can't be reused here.
+      const cache = this.cache && this.cache.block <= reader.blockNumber ? this.cache : null;
+      const stale = cache
+        ? staleValidatorIds(count, cache.views.length, cache.block - REORG_DEPTH + 1n, [
+            ...cache.logs,
+            ...logs,
+          ])
+        : staleValidatorIds(count, 0, 0n, []);
+      const reads = stale.map((id) => reader.call("validatorManager", "getValidator", id));
+      const [fresh] = await Promise.all([
+        Promise.all(reads),
+        reads.length > 0 ? reader.flush() : undefined,
+      ]);
+      const views = (cache?.views ?? []).slice(0, count);
+      stale.forEach((id, i) => {
+        views[Number(id) - 1] = fresh[i];
+      });
+      const validators = buildValidatorList(views, logs);
+
+      runInAction(() => {
+        if (chain !== this.chain || reader.blockNumber < this.loadedBlock) return;
+        this.loadedBlock = reader.blockNumber;
+        this.cache = { block: reader.blockNumber, views, logs };
+        this.validators = validators;
+        this.error = null;
+      });
+    } catch (error) {
+      runInAction(() => {
+        if (chain === this.chain) this.error = errorMessage(error);
+      });
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  addressError,
+  amountError,
+  isConfirmed,
+  operatesValidators,
+  ownedContracts,
+  readAdminState,
+  recoverableAmount,
+  type AdminState,
+} from "./admin.ts";
+import type { DeploymentProfile } from "./capabilities.ts";
+
+const QRL = 10n ** 18n;
+const OWNER = `Q${"a".repeat(40)}`;
+const OTHER = `Q${"b".repeat(40)}`;
+
+const state: AdminState = {
+  owners: { depositPool: OWNER, stQRL: OTHER },
+  validatorOperator: OTHER,
+  paused: { depositPool: false, stQRL: false },
+  minDeposit: 100n * QRL,
+  minDepositFloor: 100n * QRL,
+  absoluteMinDeposit: QRL / 1000n,
+  withdrawalReserve: 50n * QRL,
+  recoverable: 2n * QRL,
+  canFundValidator: false,
+  buffered: 0n,
+};
+
+test("ownedContracts matches the account case-insensitively", () => {
+  assert.deepEqual(ownedContracts(state, OWNER.toUpperCase()), ["depositPool"]);
+  const both = { ...state, owners: { depositPool: OWNER, stQRL: OWNER } };
+  assert.deepEqual(ownedContracts(both, OWNER), ["depositPool", "stQRL"]);
+  assert.deepEqual(ownedContracts(state, null), []);
+  assert.deepEqual(ownedContracts(null, OWNER), []);
+  assert.equal(operatesValidators(state, OTHER.toUpperCase()), true);
+  assert.equal(operatesValidators(state, OWNER), false);
+});
+
+test("recoverableAmount leaves pooled on-contract funds or the reserve in place", () => {
+  // 1000 pooled, 800 of it staked: 200 held on the contract.
+  assert.equal(recoverableAmount(250n, 1000n, 800n, 50n), 50n);
+  // A larger reserve is kept instead.
+  assert.equal(recoverableAmount(250n, 1000n, 800n, 240n), 10n);
+  assert.equal(recoverableAmount(100n, 1000n, 800n, 0n), 0n);
+  // Before initialization nothing is pooled.
+  assert.equal(recoverableAmount(100n, 0n, 0n, 0n), 100n);
+});
+
+test("amountError mirrors the contracts' limits", () => {
+  assert.match(amountError("setMinDeposit", 99n * QRL, state) ?? "", /floor of 100/);
+  assert.equal(amountError("setMinDeposit", 100n * QRL, state), null);
+  assert.match(amountError("setMinDepositFloor", 0n, state) ?? "", /absolute minimum/);
+  assert.equal(amountError("setMinDepositFloor", QRL / 1000n, state), null);
+  assert.equal(amountError("fundWithdrawalReserve", 0n, state), "Enter an amount");
+  assert.match(amountError("releaseWithdrawalReserve", 51n * QRL, state) ?? "", /holds only 50/);
+  assert.equal(amountError("releaseWithdrawalReserve", 50n * QRL, state), null);
+  assert.match(amountError("emergencyWithdraw", 3n * QRL, state) ?? "", /Only 2 is recoverable/);
+  assert.equal(amountError("emergencyWithdraw", 2n * QRL, state), null);
+});
+
+test("addressError rejects malformed and zero addresses", () => {
+  assert.equal(addressError(` ${OTHER} `), null);
+  assert.equal(addressError("0x1234"), "Enter a Q-address");
+  assert.equal(addressError(`Q${"0".repeat(40)}`), "The zero address is not allowed");
+});
+
+test("isConfirmed needs the exact phrase", () => {
+  assert.equal(isConfirmed("emergencyWithdraw", " Emergency Withdraw "), true);
+  assert.equal(isConfirmed("emergencyWithdraw", "emergency"), false);
+  assert.equal(isConfirmed("transferOwnership", "transfer ownership"), true);
+});
+
+/** A reader answering from `values`, recording every method asked for. */
+function fakeReader(values: Record<string, unknown>) {
+  const asked: string[] = [];
+  const reader = {
+    call: async (contract: string, method: string) => {
+      asked.push(`${contract}.${method}`);
+      if (!(`${contract}.${method}` in values)) throw new Error(`${method} reverted`);
+      return values[`${contract}.${method}`];
+    },
+    balance: async () => values.balance,
+  };
+  return { asked, reader: reader as unknown as Parameters<typeof readAdminState>[0] };
+}
+
+const chainValues = {
+  "depositPool.owner": OWNER,
+  "stQRL.owner": OWNER,
+  "validatorManager.owner": OTHER,
+  "depositPool.paused": false,
+  "stQRL.paused": false,
+  "depositPool.minDeposit": QRL,
+  "depositPool.minDepositFloor": QRL,
+  "depositPool.ABSOLUTE_MIN_DEPOSIT": QRL / 1000n,
+  "depositPool.withdrawalReserve": 0n,
+  "stQRL.totalPooledQRL": 100n * QRL,
+  "depositPool.canFundValidator": { possible: false, bufferedAmount: 60n * QRL },
+  balance: 65n * QRL,
+};
+
+const profile = (stakeAccounting: boolean): DeploymentProfile => ({
+  versions: { depositPool: null, stQRL: null, validatorManager: null },
+  capabilities: { maturityLock: stakeAccounting, stakeAccounting },
+});
+
+test("readAdminState asks v2.3 pools for off-contract stake", async () => {
+  const { asked, reader } = fakeReader({ ...chainValues, "depositPool.stakedQRL": 40n * QRL });
+  const read = await readAdminState(reader, profile(true), OWNER);
+  assert.ok(asked.includes("depositPool.stakedQRL"));
+  // 60 of the 100 pooled sit on the contract; 5 more are unaccounted for.
+  assert.equal(read.recoverable, 5n * QRL);
+  assert.equal(read.buffered, 60n * QRL);
+});
+
+test("readAdminState leaves stakedQRL unread on a v2.2 pool", async () => {
+  const { asked, reader } = fakeReader(chainValues);
+  const read = await readAdminState(reader, profile(false), OWNER);
+  assert.ok(!asked.includes("depositPool.stakedQRL"));
+  assert.deepEqual(read.owners, { depositPool: OWNER, stQRL: OWNER });
+  // Without stake accounting all pooled QRL counts as on the contract.
+  assert.equal(read.recoverable, 0n);
+});
@@ -0,0 +1,171 @@
+/**
+ * Owner-only pool administration: who may use the console and the input
+ * checks each action makes before its pre-flight. The checks mirror the
+ * contracts' own reverts so a bad value is explained at the form instead of
+ * by a decoded revert. Kept free of MobX and web3 so it can be unit tested.
+ */
+
+import type { DeploymentProfile } from "./capabilities.ts";
+import { formatAmount } from "./format.ts";
+import { isZeroAddress } from "./pnl.ts";
+import { isQrlAddress } from "./qrlAddress.ts";
+import type { BlockReader } from "./web3/chainClient.ts";
+
+/** Contracts with an owner the console administers. */
+export type AdminContract = "depositPool" | "stQRL";
+
+/** The owner-side state the console shows and validates against, at one block. */
+export interface AdminState {
+  owners: Record<AdminContract, string>;
+  /** Owner of ValidatorManager, who drives validator status transitions. */
+  validatorOperator: string;
+  paused: Record<AdminContract, boolean>;
+  minDeposit: bigint;
+  minDepositFloor: bigint;
+  absoluteMinDeposit: bigint;
+  withdrawalReserve: bigint;
+  /** DepositPool's native balance, minus what the pool accounts for. */
+  recoverable: bigint;
+  /** DepositPool.canFundValidator: the buffer covers one validator's stake. */
+  canFundValidator: boolean;
+  buffered: bigint;
+}
+
+/**
+ * Queue the console's reads on `reader`; resolves after the caller's flush.
+ * v2.2 DepositPool has no stakedQRL() - asking would fail the whole batch -
+ * so there the recoverable balance is figured without off-contract stake,
+ * which can only understate it.
+ */
+export async function readAdminState(
+  reader: Pick<BlockReader, "call" | "balance">,
+  deployment: DeploymentProfile,
+  poolAddress: string,
+): Promise<AdminState> {
+  const [
+    poolOwner,
+    tokenOwner,
+    validatorOperator,
+    poolPaused,
+    tokenPaused,
+    minDeposit,
+    minDepositFloor,
+    absoluteMinDeposit,
+    withdrawalReserve,
+    staked,
+    totalPooled,
+    balance,
+    funding,
+  ] = await Promise.all([
+    reader.call("depositPool", "owner"),
+    reader.call("stQRL", "owner"),
+    reader.call("validatorManager", "owner"),
+    reader.call("depositPool", "paused"),
+    reader.call("stQRL", "paused"),
+    reader.call("depositPool", "minDeposit"),
+    reader.call("depositPool", "minDepositFloor"),
+    reader.call("depositPool", "ABSOLUTE_MIN_DEPOSIT"),
+    reader.call("depositPool", "withdrawalReserve"),
+    deployment.capabilities.stakeAccounting ? reader.call("depositPool", "stakedQRL") : 0n,
+    reader.call("stQRL", "totalPooledQRL"),
+    reader.balance(poolAddress),
+    reader.call("depositPool", "canFundValidator"),
+  ]);
+  return {
+    owners: { depositPool: poolOwner, stQRL: tokenOwner },
+    validatorOperator,
+    paused: { depositPool: poolPaused, stQRL: tokenPaused },
+    minDeposit,
+    minDepositFloor,
+    absoluteMinDeposit,
+    withdrawalReserve,
+    recoverable: recoverableAmount(balance, totalPooled, staked, withdrawalReserve),
+    canFundValidator: funding.possible,
+    buffered: funding.bufferedAmount,
+  };
+}
+
+/** Text the owner must type before a destructive action is sent. */
+export const CONFIRMATION_PHRASES = {
+  emergencyWithdraw: "emergency withdraw",
+  transferOwnership: "transfer ownership",
+} as const;
+export type DestructiveAction = keyof typeof CONFIRMATION_PHRASES;
+
+export const isConfirmed = (action: DestructiveAction, typed: string): boolean =>
+  typed.trim().toLowerCase() === CONFIRMATION_PHRASES[action];
+
+const sameAddress = (a: string | null, b: string) =>
+  a !== null && a.toLowerCase() === b.toLowerCase();
+
+/** Of DepositPool and stQRL, the contracts `account` owns. */
+export function ownedContracts(state: AdminState | null, account: string | null): AdminContract[] {
+  if (!state) return [];
+  return (Object.keys(state.owners) as AdminContract[]).filter((contract) =>
+    sameAddress(account, state.owners[contract]),
+  );
+}
+
+/** Whether `account` may run ValidatorManager's owner-only transitions. */
+export const operatesValidators = (state: AdminState | null, account: string | null): boolean =>
+  state !== null && sameAddress(account, state.validatorOperator);
+
+/**
+ * DepositPool.emergencyWithdraw's limit: the native balance beyond the pooled
+ * funds held on the contract (or the withdrawal reserve, if larger).
+ */
+export function recoverableAmount(
+  balance: bigint,
+  totalPooled: bigint,
+  staked: bigint,
+  withdrawalReserve: bigint,
+): bigint {
+  const onContract = totalPooled > staked ? totalPooled - staked : 0n;
+  const protocolFunds = onContract > withdrawalReserve ? onContract : withdrawalReserve;
+  return balance > protocolFunds ? balance - protocolFunds : 0n;
+}
+
+/** Why `amount` can't be sent, or null when it can. */
+export function amountError(
+  action:
+    | "setMinDeposit"
+    | "setMinDepositFloor"
+    | "fundWithdrawalReserve"
+    | "releaseWithdrawalReserve"
+    | "emergencyWithdraw",
+  amount: bigint,
+  state: AdminState,
+): string | null {
+  switch (action) {
+    case "setMinDeposit":
+      return amount < state.minDepositFloor
+        ? `Must be at least the floor of ${formatAmount(state.minDepositFloor)}`
+        : null;
+    case "setMinDepositFloor":
+      return amount < state.absoluteMinDeposit
+        ? `Must be at least the absolute minimum of ${formatAmount(state.absoluteMinDeposit)}`
+        : null;
+    case "fundWithdrawalReserve":
+      return amount === 0n ? "Enter an amount" : null;
+    case "releaseWithdrawalReserve":
+      return amount === 0n
+        ? "Enter an amount"
+        : amount > state.withdrawalReserve
+          ? `The reserve holds only ${formatAmount(state.withdrawalReserve)}`
+          : null;
+    case "emergencyWithdraw":
+      return amount === 0n
+        ? "Enter an amount"
+        : amount > state.recoverable
+          ? `Only ${formatAmount(state.recoverable)} is recoverable`
+          : null;
+  }
+}
+
+/** Why `address` can't receive funds or ownership, or null when it can. */
+export function addressError(address: string): string | null {
+  const trimmed = address.trim();
+  if (!isQrlAddress(trimmed)) return "Enter a Q-address";
+  if (isZeroAddress(trimmed)) return "The zero address is not allowed";
+  return null;
+}
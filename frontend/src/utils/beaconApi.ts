@@ -0,0 +1,101 @@
+/**
+ * The qrysm beacon-node REST API reads behind the validator page. qrysm's
+ * gRPC gateway serves the standard beacon API under /qrl/v1 rather than
+ * /eth/v1. Throws on transport errors and unexpected responses.
+ */
+
+import {
+  parseValidator,
+  recentEpochs,
+  summarizePerformance,
+  type BeaconPerformance,
+  type ProposalDuty,
+} from "./beaconPerformance.ts";
+
+const API_PREFIX = "/qrl/v1";
+
+/** The node answered 404 - an unknown validator or an empty slot. */
+class NotFound extends Error {}
+
+async function request(baseUrl: string, path: string, body?: unknown): Promise<unknown> {
+  const url = `${baseUrl.replace(/\/+$/, "")}${API_PREFIX}${path}`;
+  const res = await fetch(
+    url,
+    body === undefined
+      ? undefined
+      : {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        },
+  );
+  if (res.status === 404) throw new NotFound(`${url} answered 404`);
+  if (!res.ok) throw new Error(`Beacon node answered ${res.status} for ${path}`);
+  return ((await res.json()) as { data?: unknown }).data;
+}
+
+/**
+ * Balances and recent duties of the validator with `pubkey`; null when the
+ * beacon chain doesn't know it yet (its deposit hasn't been processed).
+ */
+export async function readBeaconPerformance(
+  baseUrl: string,
+  pubkey: string,
+): Promise<BeaconPerformance | null> {
+  let validatorData: unknown;
+  try {
+    validatorData = await request(baseUrl, `/beacon/states/head/validators/${pubkey}`);
+  } catch (error) {
+    if (error instanceof NotFound) return null;
+    throw error;
+  }
+  const validator = parseValidator(validatorData);
+  const [spec, header] = (await Promise.all([
+    request(baseUrl, "/config/spec"),
+    request(baseUrl, "/beacon/headers/head"),
+  ])) as [{ SLOTS_PER_EPOCH?: string }, { header?: { message?: { slot?: string } } }];
+  const slotsPerEpoch = BigInt(spec?.SLOTS_PER_EPOCH ?? 0);
+  const headSlot = BigInt(header?.header?.message?.slot ?? 0);
+  if (slotsPerEpoch === 0n) throw new Error("Beacon node returned no SLOTS_PER_EPOCH");
+
+  const epochs = recentEpochs(headSlot, slotsPerEpoch, validator.activationEpoch);
+  const [liveness, proposals] = await Promise.all([
+    Promise.all(
+      epochs.map(async (epoch) => {
+        const data = (await request(baseUrl, `/validator/liveness/${epoch}`, [
+          validator.index,
+        ])) as { index: string; is_live: boolean }[];
+        const entry = data.find((item) => item.index === validator.index);
+        return { epoch, live: entry?.is_live === true };
+      }),
+    ),
+    Promise.all(epochs.map((epoch) => readProposals(baseUrl, epoch, validator.index))),
+  ]);
+  return summarizePerformance(validator, liveness, proposals.flat());
+}
+
+/** The validator's proposer slots in `epoch`, each checked for a block. */
+async function readProposals(
+  baseUrl: string,
+  epoch: bigint,
+  index: string,
+): Promise<ProposalDuty[]> {
+  const duties = (await request(baseUrl, `/validator/duties/proposer/${epoch}`)) as {
+    validator_index: string;
+    slot: string;
+  }[];
+  return Promise.all(
+    duties
+      .filter((duty) => duty.validator_index === index)
+      .map(async (duty) => {
+        const slot = BigInt(duty.slot);
+        try {
+          await request(baseUrl, `/beacon/headers/${slot}`);
+          return { slot, proposed: true };
+        } catch (error) {
+          if (error instanceof NotFound) return { slot, proposed: false };
+          throw error;
+        }
+      }),
+  );
+}
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { parseValidator, recentEpochs, summarizePerformance } from "./beaconPerformance.ts";
+
+const validator = parseValidator({
+  index: "42",
+  status: "active_ongoing",
+  balance: "40000123456789",
+  validator: { effective_balance: "40000000000000", slashed: false, activation_epoch: "10" },
+});
+
+test("parseValidator reads the beacon API's string numbers", () => {
+  assert.deepEqual(validator, {
+    index: "42",
+    status: "active_ongoing",
+    balance: 40000123456789n,
+    effectiveBalance: 40000000000000n,
+    slashed: false,
+    activationEpoch: 10n,
+  });
+  assert.throws(() => parseValidator({ status: "pending_queued" }), /Unexpected validator/);
+});
+
+test("recentEpochs counts back from the last completed epoch", () => {
+  // Head slot 1000 with 128 slots per epoch is in epoch 7.
+  assert.deepEqual(recentEpochs(1000n, 128n, 0n, 3), [6n, 5n, 4n]);
+  assert.deepEqual(recentEpochs(1000n, 128n, 5n, 8), [6n, 5n]);
+  assert.deepEqual(recentEpochs(100n, 128n, 0n), []);
+});
+
+test("summarizePerformance rates attestations and lists missed duties", () => {
+  const summary = summarizePerformance(
+    validator,
+    [
+      { epoch: 6n, live: true },
+      { epoch: 5n, live: false },
+      { epoch: 4n, live: true },
+      { epoch: 3n, live: true },
+    ],
+    [
+      { slot: 500n, proposed: false },
+      { slot: 700n, proposed: true },
+    ],
+  );
+  assert.equal(summary.effectiveness, 0.75);
+  assert.equal(summary.epochsChecked, 4);
+  assert.deepEqual(
+    summary.proposals.map((duty) => duty.slot),
+    [700n, 500n],
+  );
+  assert.deepEqual(summary.missed, [
+    { kind: "attestation", epoch: 5n },
+    { kind: "proposal", slot: 500n },
+  ]);
+});
+
+test("summarizePerformance has no effectiveness without checked epochs", () => {
+  assert.equal(summarizePerformance(validator, [], []).effectiveness, null);
+});
@@ -0,0 +1,110 @@
+/**
+ * Validator performance from a qrysm beacon node's REST API, reduced to what
+ * the validator page shows: balances, attestation effectiveness over recent
+ * epochs, recent block proposals and the duties missed among them. Kept free
+ * of fetch so it can be unit tested - the requests live in beaconApi.ts.
+ */
+
+/** Completed epochs checked for attestations and proposals. */
+export const RECENT_EPOCHS = 8;
+
+export interface BeaconValidator {
+  index: string;
+  /** Beacon-chain status, e.g. "active_ongoing". */
+  status: string;
+  /** Balances in the beacon chain's 9-decimal unit. */
+  balance: bigint;
+  effectiveBalance: bigint;
+  slashed: boolean;
+  activationEpoch: bigint;
+}
+
+export interface ProposalDuty {
+  slot: bigint;
+  proposed: boolean;
+}
+
+export type MissedDuty = { kind: "attestation"; epoch: bigint } | { kind: "proposal"; slot: bigint };
+
+export interface BeaconPerformance {
+  validator: BeaconValidator;
+  /** Share of checked epochs with an attestation; null when none were checked. */
+  effectiveness: number | null;
+  epochsChecked: number;
+  /** Newest first. */
+  proposals: ProposalDuty[];
+  /** Missed attestations, then missed proposals, each newest first. */
+  missed: MissedDuty[];
+}
+
+/** The beacon API's "far future" epoch for validators not yet activated. */
+const FAR_FUTURE_EPOCH = 2n ** 64n - 1n;
+
+/** `data` of GET /beacon/states/{state}/validators/{id}. */
+export function parseValidator(data: unknown): BeaconValidator {
+  const record = data as {
+    index?: unknown;
+    status?: unknown;
+    balance?: unknown;
+    validator?: {
+      effective_balance?: unknown;
+      slashed?: unknown;
+      activation_epoch?: unknown;
+    };
+  };
+  if (typeof record?.index !== "string" || !record.validator) {
+    throw new Error("Unexpected validator response from the beacon node");
+  }
+  return {
+    index: record.index,
+    status: String(record.status ?? "unknown"),
+    balance: BigInt(String(record.balance ?? 0)),
+    effectiveBalance: BigInt(String(record.validator.effective_balance ?? 0)),
+    slashed: record.validator.slashed === true,
+    activationEpoch: BigInt(String(record.validator.activation_epoch ?? FAR_FUTURE_EPOCH)),
+  };
+}
+
+/**
+ * The last `count` completed epochs before the head's, newest first, leaving
+ * out those before the validator was active.
+ */
+export function recentEpochs(
+  headSlot: bigint,
+  slotsPerEpoch: bigint,
+  activationEpoch: bigint,
+  count = RECENT_EPOCHS,
+): bigint[] {
+  const current = headSlot / slotsPerEpoch;
+  const epochs: bigint[] = [];
+  for (let epoch = current - 1n; epoch >= 0n && epochs.length < count; epoch--) {
+    if (epoch < activationEpoch) break;
+    epochs.push(epoch);
+  }
+  return epochs;
+}
+
+export function summarizePerformance(
+  validator: BeaconValidator,
+  /** Newest epoch first, as recentEpochs() lists them. */
+  liveness: readonly { epoch: bigint; live: boolean }[],
+  proposals: readonly ProposalDuty[],
+): BeaconPerformance {
+  const sorted = [...proposals].sort((a, b) => (a.slot > b.slot ? -1 : 1));
+  const missed: MissedDuty[] = [
+    ...liveness
+      .filter((entry) => !entry.live)
+      .map((entry): MissedDuty => ({ kind: "attestation", epoch: entry.epoch })),
+    ...sorted
+      .filter((duty) => !duty.proposed)
+      .map((duty): MissedDuty => ({ kind: "proposal", slot: duty.slot })),
+  ];
+  const live = liveness.filter((entry) => entry.live).length;
+  return {
+    validator,
+    effectiveness: liveness.length > 0 ? live / liveness.length : null,
+    epochsChecked: liveness.length,
+    proposals: sorted,
+    missed,
+  };
+}
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { bytecodeHasSelector, hasDeployedCode, profileDeployment } from "./capabilities.ts";
+
+// keccak256 selectors, precomputed so the test needs no hashing library.
+const SELECTORS: Record<string, string> = {
+  "getPoolStatus()": "0x7f79496c",
+  "getWithdrawalRequestCount(address)": "0xfcc48030",
+  "stakedQRL()": "0xe5ab6cfd",
+  "recordValidatorExit(uint256)": "0x0e4f28c3",
+  "lockedSharesOf(address)": "0x9bbb02da",
+  "getQRLValue(address)": "0xcf0f15a6",
+  "immatureSharesOf(address)": "0xe1b1b7d6",
+  "matureAtBlockOf(address)": "0x352b900b",
+  "getStats()": "0xc59d4847",
+  "getValidatorsByStatus(uint8)": "0x10af63fc",
+};
+const selectorOf = (signature: string) => SELECTORS[signature];
+
+/** Fake dispatcher: DUP1 PUSH4 <selector> EQ for each signature. */
+const dispatcher = (...signatures: string[]) =>
+  `0x6080${signatures.map((signature) => `8063${selectorOf(signature).slice(2)}14`).join("")}00`;
+
+test("selectors are matched as PUSH operands on byte boundaries", () => {
+  assert.equal(bytecodeHasSelector("0x80636ca9bc4e14", "0x6ca9bc4e"), true);
+  assert.equal(bytecodeHasSelector("0x8063aabbccdd14", "0x6ca9bc4e"), false);
+  // Same hex shifted by a nibble is not an instruction.
+  assert.equal(bytecodeHasSelector("0x0636ca9bc4e1", "0x6ca9bc4e"), false);
+  // Leading zero bytes shrink the push: 0x0000abcd is dispatched via PUSH2.
+  assert.equal(bytecodeHasSelector("0x8061abcd14", "0x0000abcd"), true);
+});
+
+test("a v2.2 deployment lacks the maturity lock and stake accounting", () => {
+  const profile = profileDeployment(
+    {
+      depositPool: dispatcher("getPoolStatus()", "getWithdrawalRequestCount(address)"),
+      stQRL: dispatcher("lockedSharesOf(address)", "getQRLValue(address)"),
+      validatorManager: dispatcher("getStats()", "getValidatorsByStatus(uint8)"),
+    },
+    selectorOf,
+  );
+  assert.deepEqual(profile.versions, { depositPool: "v2.2", stQRL: "v2.2", validatorManager: "v2" });
+  assert.deepEqual(profile.capabilities, { maturityLock: false, stakeAccounting: false });
+});
+
+test("a v2.3 deployment reports the newest interface and its features", () => {
+  const profile = profileDeployment(
+    {
+      depositPool: dispatcher(
+        "getPoolStatus()",
+        "getWithdrawalRequestCount(address)",
+        "stakedQRL()",
+        "recordValidatorExit(uint256)",
+      ),
+      stQRL: dispatcher(
+        "lockedSharesOf(address)",
+        "getQRLValue(address)",
+        "immatureSharesOf(address)",
+        "matureAtBlockOf(address)",
+      ),
+      validatorManager: dispatcher("getStats()", "getValidatorsByStatus(uint8)"),
+    },
+    selectorOf,
+  );
+  assert.deepEqual(profile.versions, { depositPool: "v2.3", stQRL: "v2.3", validatorManager: "v2" });
+  assert.deepEqual(profile.capabilities, { maturityLock: true, stakeAccounting: true });
+});
+
+test("accounts without code are reported so the profile isn't cached", () => {
+  const bytecode = { depositPool: "0x", stQRL: dispatcher("getQRLValue(address)"), validatorManager: "0x" };
+  assert.equal(hasDeployedCode(bytecode), false);
+  assert.deepEqual(profileDeployment(bytecode, selectorOf).versions, {
+    depositPool: null,
+    stQRL: null,
+    validatorManager: null,
+  });
+});
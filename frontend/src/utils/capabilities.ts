@@ -0,0 +1,96 @@
+/**
+ * Deployment capability detection. None of the contracts expose a version
+ * getter, so the interface each deployment implements is read off its
+ * bytecode: the Solidity/Hyperion dispatcher compares the calldata selector
+ * against a PUSH4 of every external function's selector. One `qrl_getCode`
+ * per contract answers every question without a single reverting call.
+ */
+
+export type ProbedContract = "depositPool" | "stQRL" | "validatorManager";
+
+/** Interface revisions per contract, oldest first, with the functions each adds. */
+export const INTERFACE_VERSIONS: Record<
+  ProbedContract,
+  readonly { version: string; signatures: readonly string[] }[]
+> = {
+  depositPool: [
+    { version: "v2.2", signatures: ["getPoolStatus()", "getWithdrawalRequestCount(address)"] },
+    // Off-contract stake accounting.
+    { version: "v2.3", signatures: ["stakedQRL()", "recordValidatorExit(uint256)"] },
+  ],
+  stQRL: [
+    { version: "v2.2", signatures: ["lockedSharesOf(address)", "getQRLValue(address)"] },
+    // Minimum stake lock on freshly minted shares.
+    { version: "v2.3", signatures: ["immatureSharesOf(address)", "matureAtBlockOf(address)"] },
+  ],
+  validatorManager: [
+    { version: "v2", signatures: ["getStats()", "getValidatorsByStatus(uint8)"] },
+  ],
+};
+
+/** Optional features the UI and stores switch on. */
+export const CAPABILITIES = {
+  maturityLock: {
+    contract: "stQRL",
+    signatures: ["immatureSharesOf(address)", "matureAtBlockOf(address)"],
+  },
+  stakeAccounting: {
+    contract: "depositPool",
+    signatures: ["stakedQRL()", "recordValidatorExit(uint256)"],
+  },
+} as const satisfies Record<string, { contract: ProbedContract; signatures: readonly string[] }>;
+
+export type Capability = keyof typeof CAPABILITIES;
+
+export interface DeploymentProfile {
+  /** Newest matching interface per contract; null when nothing matched. */
+  versions: Record<ProbedContract, string | null>;
+  capabilities: Record<Capability, boolean>;
+}
+
+/**
+ * Whether `bytecode` dispatches on `selector`. Compilers drop leading zero
+ * bytes, so a 0x00…-prefixed selector appears as PUSH3/PUSH2/PUSH1.
+ */
+export function bytecodeHasSelector(bytecode: string, selector: string): boolean {
+  const code = bytecode.toLowerCase().replace(/^0x/, "");
+  let hex = selector.toLowerCase().replace(/^0x/, "");
+  while (hex.startsWith("00") && hex.length > 2) hex = hex.slice(2);
+  const push = (0x5f + hex.length / 2).toString(16);
+  // Opcodes sit on byte boundaries; a match at an odd offset is noise.
+  for (let at = code.indexOf(push + hex); at !== -1; at = code.indexOf(push + hex, at + 1)) {
+    if (at % 2 === 0) return true;
+  }
+  return false;
+}
+
+/**
+ * Build a profile from each contract's runtime bytecode. `selectorOf` maps a
+ * canonical signature to its 4-byte selector (keccak lives in web3).
+ */
+export function profileDeployment(
+  bytecode: Record<ProbedContract, string>,
+  selectorOf: (signature: string) => string,
+): DeploymentProfile {
+  const implementsAll = (contract: ProbedContract, signatures: readonly string[]) =>
+    signatures.every((signature) => bytecodeHasSelector(bytecode[contract], selectorOf(signature)));
+
+  const versions = {} as DeploymentProfile["versions"];
+  for (const contract of Object.keys(INTERFACE_VERSIONS) as ProbedContract[]) {
+    versions[contract] = null;
+    for (const { version, signatures } of INTERFACE_VERSIONS[contract]) {
+      if (implementsAll(contract, signatures)) versions[contract] = version;
+    }
+  }
+
+  const capabilities = {} as DeploymentProfile["capabilities"];
+  for (const name of Object.keys(CAPABILITIES) as Capability[]) {
+    const { contract, signatures } = CAPABILITIES[name];
+    capabilities[name] = implementsAll(contract, signatures);
+  }
+  return { versions, capabilities };
+}
+
+/** True when every contract has code - an empty account can't be profiled yet. */
+export const hasDeployedCode = (bytecode: Record<ProbedContract, string>): boolean =>
+  Object.values(bytecode).every((code) => code.replace(/^0x/, "").length > 0);
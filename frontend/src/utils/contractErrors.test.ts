@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  ContractRevertError,
+  createRevertDecoder,
+  findRevertData,
+  isExecutionRevert,
+  RevertReasonError,
+  type AbiCoder,
+} from "./contractErrors.ts";
+
+// keccak256 selectors, precomputed; other errors get a placeholder that never matches.
+const SELECTORS: Record<string, string> = {
+  "InsufficientReserve()": "0x28b35f21",
+  "NotOwner()": "0x30cd7471",
+  "ContractPaused()": "0xab35696f",
+  "InsufficientMaturedShares()": "0x6e2028a9",
+};
+
+const coder: AbiCoder = {
+  encodeFunctionSignature: (signature) => SELECTORS[signature] ?? `0xff${signature.length}`,
+  // Enough of the ABI decoder for Error(string) / Panic(uint256) payloads.
+  decodeParameters: (types, data) => {
+    const words = data.slice(2).match(/.{64}/g) ?? [];
+    if (types[0].type === "uint256") return { 0: BigInt(`0x${words[0]}`) };
+    const length = Number(BigInt(`0x${words[1]}`));
+    const bytes = Buffer.from(words.slice(2).join(""), "hex").subarray(0, length);
+    return { 0: bytes.toString("utf8") };
+  },
+};
+
+const decode = createRevertDecoder(coder);
+
+test("revert data is found however deeply the provider wraps it", () => {
+  const rpcError = { code: 3, message: "execution reverted", data: "0x28b35f21" };
+  assert.equal(findRevertData(rpcError), "0x28b35f21");
+  assert.equal(findRevertData({ innerError: { cause: { data: "0x30cd7471" } } }), "0x30cd7471");
+  assert.equal(findRevertData({ message: "rejected", code: 4001 }), null);
+  assert.equal(findRevertData({ data: "0x" }), null);
+});
+
+test("custom errors decode with an explanation and a suggested action", () => {
+  const error = decode({ innerError: { data: "0x28b35f21" } });
+  assert.ok(error instanceof ContractRevertError);
+  assert.equal(error.errorName, "InsufficientReserve");
+  assert.ok(error.is("InsufficientReserve"));
+  assert.deepEqual(error.contracts, ["depositPool"]);
+  assert.equal(error.message, "The reserve cannot cover this claim yet.");
+  assert.match(error.action, /operator funds the withdrawal reserve/);
+});
+
+test("errors declared by several contracts list all of them", () => {
+  const error = decode({ data: "0xab35696f" });
+  assert.ok(error instanceof ContractRevertError);
+  assert.deepEqual(error.contracts, ["depositPool", "stQRL"]);
+});
+
+test("reason strings and panics become RevertReasonError", () => {
+  const reason = Buffer.from("nope").toString("hex").padEnd(64, "0");
+  const word = (n: number) => n.toString(16).padStart(64, "0");
+  const error = decode({ data: `0x08c379a0${word(32)}${word(4)}${reason}` });
+  assert.ok(error instanceof RevertReasonError);
+  assert.equal(error.reason, "nope");
+
+  const panic = decode({ data: `0x4e487b71${word(0x11)}` });
+  assert.ok(panic instanceof RevertReasonError);
+  assert.match(panic.reason, /panic 0x11/);
+});
+
+test("unknown selectors and plain failures are left alone", () => {
+  assert.equal(decode({ data: "0xdeadbeef" }), null);
+  assert.equal(decode(new Error("fetch failed")), null);
+});
+
+test("reverts without data are told apart from node failures", () => {
+  assert.equal(isExecutionRevert({ innerError: { code: 3, message: "execution reverted" } }), true);
+  assert.equal(isExecutionRevert(new Error("Returned error: execution reverted")), true);
+  assert.equal(isExecutionRevert(new Error("fetch failed")), false);
+});
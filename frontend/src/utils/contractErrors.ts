@@ -0,0 +1,313 @@
+/**
+ * Custom-error decoding. Reverts from the pool contracts carry a 4-byte error
+ * selector (plus ABI-encoded arguments); this maps them back to the error
+ * declared in the ABIs and attaches what it means for the user and what they
+ * can do about it. The ABI coder is injected (keccak lives in web3), so this
+ * stays unit-testable.
+ */
+
+import { DepositPoolV2ABI } from "../abi/DepositPoolV2.ts";
+import { StQRLV2ABI } from "../abi/StQRLV2.ts";
+import { ValidatorManagerABI } from "../abi/ValidatorManager.ts";
+import type { ContractBindings } from "../abi/bindings.ts";
+
+type ContractName = keyof ContractBindings;
+
+/** Every custom error any of the contracts can revert with. */
+export type ContractErrorName = {
+  [C in ContractName]: keyof ContractBindings[C]["errors"];
+}[ContractName];
+
+interface ErrorGuidance {
+  explanation: string;
+  action: string;
+}
+
+/** Typed against the generated bindings, so a new ABI error fails the type-check until added. */
+export const ERROR_GUIDANCE: Record<ContractErrorName, ErrorGuidance> = {
+  AccountingNotSettled: {
+    explanation:
+      "The pool has a balance change (a validator exit or rewards) the operator hasn't settled yet.",
+    action: "Try again after the operator syncs the pool.",
+  },
+  BelowAbsoluteMin: {
+    explanation: "The minimum deposit floor can't be set that low.",
+    action: "Use a floor of at least 0.001 Quanta.",
+  },
+  BelowMinDeposit: {
+    explanation: "The amount is below the pool's minimum deposit.",
+    action: "Increase the amount to at least the minimum shown on the stake form.",
+  },
+  BelowMinDepositFloor: {
+    explanation: "The minimum deposit can't be set below the configured floor.",
+    action: "Choose a value at or above the floor, or lower the floor first.",
+  },
+  ContractPaused: {
+    explanation: "The contract is paused, so staking, withdrawals and transfers are on hold.",
+    action: "Try again after the operator unpauses it.",
+  },
+  DepositPoolAlreadySet: {
+    explanation: "The token's DepositPool is already set and can't be changed.",
+    action: "No action is needed.",
+  },
+  ExceedsRecoverableAmount: {
+    explanation:
+      "The amount is more than the surplus that can be recovered without touching user funds.",
+    action: "Withdraw at most the recoverable surplus.",
+  },
+  ExceedsStakedAmount: {
+    explanation: "The exit amount is larger than the principal recorded as staked.",
+    action: "Record at most the currently staked amount.",
+  },
+  InsufficientAllowance: {
+    explanation: "The spender's stQRL allowance is too low.",
+    action: "Approve a larger allowance first.",
+  },
+  InsufficientBalance: {
+    explanation: "The stQRL balance is too low for this amount.",
+    action: "Lower the amount.",
+  },
+  InsufficientBuffer: {
+    explanation:
+      "The pool's buffer doesn't hold enough free Quanta for this (a validator needs 40,000).",
+    action: "Wait for more deposits, or release part of the withdrawal reserve first.",
+  },
+  InsufficientMaturedShares: {
+    explanation: "Part of your stQRL is still inside the minimum stake period and can't move yet.",
+    action: "Use a smaller amount, or wait until your recent deposit matures.",
+  },
+  InsufficientReserve: {
+    explanation: "The reserve cannot cover this claim yet.",
+    action: "Try again after the operator funds the withdrawal reserve.",
+  },
+  InsufficientShares: {
+    explanation:
+      "You don't have that much withdrawable stQRL. Shares already requested, or still in the minimum stake period, don't count.",
+    action: "Lower the amount to your available balance, or wait for recent deposits to mature.",
+  },
+  InsufficientUnlockedShares: {
+    explanation: "Part of your stQRL is locked in pending withdrawal requests.",
+    action: "Lower the amount, or cancel a pending request to unlock its shares.",
+  },
+  InvalidCredentialsLength: {
+    explanation: "The withdrawal credentials must be exactly 32 bytes.",
+    action: "Check the deposit data file.",
+  },
+  InvalidPubkeyLength: {
+    explanation: "The validator public key has the wrong length (Dilithium keys are 2,592 bytes).",
+    action: "Check the deposit data file.",
+  },
+  InvalidSignatureLength: {
+    explanation: "The deposit signature has the wrong length.",
+    action: "Check the deposit data file.",
+  },
+  InvalidStatusTransition: {
+    explanation: "The validator can't move to that status from its current one.",
+    action: "Refresh and check the validator's current status.",
+  },
+  InvalidWithdrawalCredentials: {
+    explanation: "The withdrawal credentials don't point at the DepositPool.",
+    action: "Regenerate the deposit data with the pool as the withdrawal address.",
+  },
+  InvalidWithdrawalIndex: {
+    explanation: "That withdrawal request doesn't exist or was already processed.",
+    action: "Refresh to load your current requests.",
+  },
+  MinStakeBlocksTooHigh: {
+    explanation: "The minimum stake period is above the contract's maximum.",
+    action: "Choose a shorter period (at most 46,500 blocks).",
+  },
+  NoWithdrawalPending: {
+    explanation: "There's no pending withdrawal request to act on.",
+    action: "Refresh - it may already have been claimed or cancelled.",
+  },
+  NotAuthorized: {
+    explanation: "Only the owner or the DepositPool can register validators.",
+    action: "Switch to the owner account.",
+  },
+  NotDepositPool: {
+    explanation: "Only the DepositPool contract can call this.",
+    action: "Use the pool's stake and withdrawal actions instead.",
+  },
+  NotOwner: {
+    explanation: "Only the contract owner can do this.",
+    action: "Switch to the owner account.",
+  },
+  ReentrancyGuard: {
+    explanation: "The contract rejected a nested call.",
+    action: "Send the transaction directly rather than through another contract.",
+  },
+  StQRLAlreadySet: {
+    explanation: "The pool's stQRL token is already set and can't be changed.",
+    action: "No action is needed.",
+  },
+  StQRLNotSet: {
+    explanation: "The pool isn't connected to its stQRL token yet.",
+    action: "The operator has to finish setting up the pool first.",
+  },
+  TransferFailed: {
+    explanation: "Sending Quanta to the recipient failed.",
+    action: "Make sure the receiving address can accept Quanta, then retry.",
+  },
+  ValidatorAlreadyExists: {
+    explanation: "A validator with this public key is already registered.",
+    action: "Use a key from fresh deposit data.",
+  },
+  ValidatorNotFound: {
+    explanation: "No validator with that ID exists.",
+    action: "Check the validator ID.",
+  },
+  WithdrawalNotReady: {
+    explanation: "Your oldest withdrawal request is still inside its 128-block waiting period.",
+    action: "Try again once its countdown on the Withdrawals page reaches zero.",
+  },
+  ZeroAddress: {
+    explanation: "An address was left empty (the zero address).",
+    action: "Enter a valid Q address.",
+  },
+  ZeroAmount: {
+    explanation: "The amount is zero.",
+    action: "Enter an amount greater than zero.",
+  },
+};
+
+/** A revert carrying one of the contracts' custom errors. */
+export class ContractRevertError<N extends ContractErrorName = ContractErrorName> extends Error {
+  readonly errorName: N;
+  /** Contracts that declare the error - a selector can't tell them apart. */
+  readonly contracts: readonly ContractName[];
+  /** Decoded error arguments by name (none of the current errors take any). */
+  readonly args: Record<string, unknown>;
+  readonly explanation: string;
+  readonly action: string;
+
+  constructor(errorName: N, contracts: readonly ContractName[], args: Record<string, unknown>) {
+    const { explanation, action } = ERROR_GUIDANCE[errorName];
+    super(explanation);
+    this.name = "ContractRevertError";
+    this.errorName = errorName;
+    this.contracts = contracts;
+    this.args = args;
+    this.explanation = explanation;
+    this.action = action;
+  }
+
+  is<E extends ContractErrorName>(errorName: E): this is ContractRevertError<E> {
+    return (this.errorName as ContractErrorName) === errorName;
+  }
+}
+
+/** A `require(..., "reason")` string or a compiler panic (overflow, bad index, ...). */
+export class RevertReasonError extends Error {
+  readonly reason: string;
+
+  constructor(reason: string) {
+    super(`Transaction would revert: ${reason}`);
+    this.name = "RevertReasonError";
+    this.reason = reason;
+  }
+}
+
+interface AbiInput {
+  name?: string;
+  type: string;
+}
+
+/** Subset of `web3.qrl.abi` the decoder needs. */
+export interface AbiCoder {
+  encodeFunctionSignature(signature: string): string;
+  decodeParameters(types: readonly AbiInput[], data: string): unknown;
+}
+
+type AbiEntry = { type: string; name?: string; inputs?: readonly AbiInput[] };
+
+interface KnownError {
+  name: ContractErrorName;
+  inputs: readonly AbiInput[];
+  contracts: ContractName[];
+}
+
+/** `Error(string)` and `Panic(uint256)` are built into Solidity/Hyperion. */
+const REASON_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+const SEARCHED_KEYS = ["data", "error", "innerError", "cause", "originalError"] as const;
+
+/**
+ * Revert payload inside a provider/web3 error. Wallets and web3 wrap it at
+ * different depths (`data`, `error.data`, `innerError.data`, `cause.data`...).
+ */
+export function findRevertData(error: unknown, depth = 0): string | null {
+  if (typeof error === "string") return /^0x[0-9a-fA-F]{8}/.test(error) ? error : null;
+  if (typeof error !== "object" || error === null || depth > 4) return null;
+  for (const key of SEARCHED_KEYS) {
+    const found = findRevertData((error as Record<string, unknown>)[key], depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Whether a JSON-RPC error means the call itself reverted (code 3 or an
+ * "execution reverted" message) rather than the node failing to answer.
+ */
+export function isExecutionRevert(error: unknown, depth = 0): boolean {
+  if (typeof error !== "object" || error === null || depth > 4) return false;
+  const { code, message } = error as { code?: unknown; message?: unknown };
+  if (code === 3 || (typeof message === "string" && /revert/i.test(message))) return true;
+  return SEARCHED_KEYS.some((key) =>
+    isExecutionRevert((error as Record<string, unknown>)[key], depth + 1),
+  );
+}
+
+/**
+ * Build a decoder over all three ABIs. Returns a typed error for revert data
+ * it recognizes, or null when `error` carries none (network failures, user
+ * rejection) or an unknown selector.
+ */
+export function createRevertDecoder(coder: AbiCoder): (error: unknown) => Error | null {
+  const abis: Record<ContractName, readonly AbiEntry[]> = {
+    depositPool: DepositPoolV2ABI,
+    stQRL: StQRLV2ABI,
+    validatorManager: ValidatorManagerABI,
+  };
+  const bySelector = new Map<string, KnownError>();
+  for (const contract of Object.keys(abis) as ContractName[]) {
+    for (const item of abis[contract]) {
+      if (item.type !== "error" || !item.name) continue;
+      const inputs = item.inputs ?? [];
+      const selector = coder
+        .encodeFunctionSignature(`${item.name}(${inputs.map((input) => input.type).join(",")})`)
+        .toLowerCase();
+      const known = bySelector.get(selector);
+      const name = item.name as ContractErrorName;
+      if (known) known.contracts.push(contract);
+      else bySelector.set(selector, { name, inputs, contracts: [contract] });
+    }
+  }
+
+  const decode = (types: readonly AbiInput[], payload: string) =>
+    coder.decodeParameters(types, payload) as Record<string, unknown>;
+
+  return (error) => {
+    const data = findRevertData(error);
+    if (!data) return null;
+    const selector = data.slice(0, 10).toLowerCase();
+    const payload = `0x${data.slice(10)}`;
+    if (selector === REASON_SELECTOR) {
+      return new RevertReasonError(String(decode([{ type: "string" }], payload)[0]));
+    }
+    if (selector === PANIC_SELECTOR) {
+      const code = BigInt(String(decode([{ type: "uint256" }], payload)[0]));
+      return new RevertReasonError(`internal contract error (panic 0x${code.toString(16)})`);
+    }
+    const known = bySelector.get(selector);
+    if (!known) return null;
+    const args: Record<string, unknown> = {};
+    if (known.inputs.length > 0) {
+      const decoded = decode(known.inputs, payload);
+      known.inputs.forEach((input, i) => (args[input.name || String(i)] = decoded[i]));
+    }
+    return new ContractRevertError(known.name, known.contracts, args);
+  };
+}
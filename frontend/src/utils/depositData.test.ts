@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  checkDeposit,
+  DEPOSIT_LENGTHS,
+  expectedCredentials,
+  parseDepositFile,
+  type DepositTarget,
+} from "./depositData.ts";
+
+const POOL = `Q${"Ab".repeat(20)}`;
+const TARGET: DepositTarget = {
+  poolAddress: POOL,
+  validatorStake: 40_000n * 10n ** 18n,
+  forkVersion: "0x20000089",
+  networkName: "testnet",
+};
+
+const hex = (bytes: number, digit = "1") => digit.repeat(bytes * 2);
+
+const entry = {
+  pubkey: hex(DEPOSIT_LENGTHS.pubkey),
+  withdrawal_credentials: `${"00".repeat(12)}${"ab".repeat(20)}`,
+  amount: 40_000_000_000_000,
+  signature: hex(DEPOSIT_LENGTHS.signature, "2"),
+  deposit_data_root: hex(DEPOSIT_LENGTHS.depositDataRoot, "3"),
+  fork_version: "20000089",
+  network_name: "testnet",
+};
+
+test("expectedCredentials pads the pool address behind the 0x00 prefix", () => {
+  const credentials = expectedCredentials(POOL);
+  assert.equal(credentials, `0x${"00".repeat(12)}${"ab".repeat(20)}`);
+  assert.equal(credentials.length, 2 + DEPOSIT_LENGTHS.withdrawalCredentials * 2);
+});
+
+test("parseDepositFile accepts an array or a single deposit", () => {
+  assert.equal(parseDepositFile(JSON.stringify([entry, entry])).length, 2);
+  assert.equal(parseDepositFile(JSON.stringify(entry)).length, 1);
+  assert.throws(() => parseDepositFile("{"), /isn't valid JSON/);
+  assert.throws(() => parseDepositFile("[]"), /no deposits/);
+});
+
+test("checkDeposit returns 0x-prefixed fields for a valid entry", () => {
+  const { deposit, errors } = checkDeposit(entry, 0, TARGET);
+  assert.deepEqual(errors, []);
+  assert.equal(deposit?.pubkey, `0x${entry.pubkey}`);
+  assert.equal(deposit?.withdrawalCredentials, expectedCredentials(POOL));
+  assert.equal(deposit?.depositDataRoot, `0x${entry.deposit_data_root}`);
+  // The amount is optional; fundValidator doesn't take it.
+  const withoutAmount: Record<string, unknown> = { ...entry };
+  delete withoutAmount.amount;
+  assert.notEqual(checkDeposit(withoutAmount, 0, TARGET).deposit, null);
+});
+
+test("checkDeposit reports each length the contract would reject", () => {
+  const short = { ...entry, pubkey: hex(48), signature: "0xzz" };
+  const { deposit, errors } = checkDeposit(short, 3, TARGET);
+  assert.equal(deposit, null);
+  assert.deepEqual(errors, [
+    "pubkey is 48 bytes, expected 2592",
+    "signature is missing or not hex",
+  ]);
+  assert.match(checkDeposit({}, 0, TARGET).errors.join("\n"), /deposit_data_root is missing/);
+});
+
+test("checkDeposit rejects credentials that don't pay out to the pool", () => {
+  const elsewhere = { ...entry, withdrawal_credentials: `${"00".repeat(12)}${"cd".repeat(20)}` };
+  assert.deepEqual(checkDeposit(elsewhere, 0, TARGET).errors, [
+    "withdrawal_credentials don't point at the DepositPool",
+  ]);
+  const bls = { ...entry, withdrawal_credentials: `01${entry.withdrawal_credentials.slice(2)}` };
+  assert.match(checkDeposit(bls, 0, TARGET).errors[0], /0x00 execution-address prefix/);
+});
+
+test("checkDeposit rejects an amount other than the validator stake", () => {
+  const { errors } = checkDeposit({ ...entry, amount: 32_000_000_000 }, 0, TARGET);
+  assert.deepEqual(errors, ["amount is 32000000000, expected 40000000000000"]);
+  const asString = { ...entry, amount: "40000000000000" };
+  assert.deepEqual(checkDeposit(asString, 0, TARGET).errors, []);
+});
+
+test("checkDeposit rejects deposits signed for another fork or network", () => {
+  const mainnet = { ...entry, fork_version: "0x00000000", network_name: "mainnet" };
+  assert.deepEqual(checkDeposit(mainnet, 0, TARGET).errors, [
+    "fork_version is 0x00000000, expected 0x20000089",
+    'network_name is "mainnet", expected "testnet"',
+  ]);
+  const unsigned: Record<string, unknown> = { ...entry };
+  delete unsigned.fork_version;
+  delete unsigned.network_name;
+  assert.deepEqual(checkDeposit(unsigned, 0, TARGET).errors, [
+    "fork_version is missing or not hex",
+  ]);
+  // A network without a known fork accepts nothing.
+  const unknownFork = { ...TARGET, forkVersion: "" };
+  assert.deepEqual(checkDeposit(entry, 0, unknownFork).errors, [
+    "No fork version is configured for this network",
+  ]);
+});
@@ -0,0 +1,150 @@
+/**
+ * deposit_data JSON (from staking-deposit-cli / qrysmctl) checked the way
+ * DepositPool.fundValidator checks it, plus what the contract can't see: the
+ * amount the CLI was asked for and the fork the deposit was signed for. A
+ * deposit signed for another fork is accepted on-chain but never activates.
+ * Credentials that don't point at the pool would leave the validator's
+ * stake unwithdrawable, so nothing here is left to the contract alone. The
+ * browser counterpart of scripts/verify-deposit-data.js. Kept free of MobX
+ * and web3 so it can be unit tested.
+ */
+
+/** Byte lengths DepositPool.fundValidator requires. */
+export const DEPOSIT_LENGTHS = {
+  pubkey: 2592,
+  signature: 4627,
+  withdrawalCredentials: 32,
+  depositDataRoot: 32,
+} as const;
+
+/** Beacon-chain amounts are in 9-decimal units; the pool's in 18. */
+const BEACON_UNIT = 10n ** 9n;
+
+/** One deposit, as fundValidator takes it: 0x-prefixed lowercase hex. */
+export interface DepositData {
+  pubkey: string;
+  withdrawalCredentials: string;
+  signature: string;
+  depositDataRoot: string;
+}
+
+/** What a deposit must match: the pool, its stake and the beacon chain's fork. */
+export interface DepositTarget {
+  poolAddress: string;
+  /** 18-decimal base units per validator. */
+  validatorStake: bigint;
+  /** 0x-hex GENESIS_FORK_VERSION; empty when the network has none configured. */
+  forkVersion: string;
+  networkName: string;
+}
+
+export interface DepositCheck {
+  /** Position in the file, from 0. */
+  index: number;
+  /** Null when any check failed. */
+  deposit: DepositData | null;
+  errors: string[];
+}
+
+/** Hex digits only, lowercased; null for anything but a hex string. */
+function hexOf(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const hex = value.trim().toLowerCase().replace(/^0x/, "");
+  return /^[0-9a-f]*$/.test(hex) ? hex : null;
+}
+
+/**
+ * `0x00 || 11 zero bytes || pool address`: qrysm's execution-address
+ * withdrawal prefix (0x00, where Ethereum uses 0x01) and the pool's 20 bytes.
+ */
+export function expectedCredentials(poolAddress: string): string {
+  return `0x${"00".repeat(12)}${poolAddress.replace(/^(Q|0x)/i, "").toLowerCase()}`;
+}
+
+/** The file's entries; a single object counts as one. Throws on unreadable files. */
+export function parseDepositFile(text: string): unknown[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid JSON");
+  }
+  const entries = Array.isArray(raw) ? raw : [raw];
+  if (entries.length === 0) throw new Error("The file has no deposits");
+  return entries;
+}
+
+/** Check one entry against `target`. */
+export function checkDeposit(entry: unknown, index: number, target: DepositTarget): DepositCheck {
+  const errors: string[] = [];
+  const record = (entry ?? {}) as Record<string, unknown>;
+
+  const field = (key: string, label: string, bytes: number): string | null => {
+    const hex = hexOf(record[key]);
+    if (hex === null) {
+      errors.push(`${label} is missing or not hex`);
+      return null;
+    }
+    if (hex.length !== bytes * 2) {
+      errors.push(`${label} is ${Math.floor(hex.length / 2)} bytes, expected ${bytes}`);
+      return null;
+    }
+    return `0x${hex}`;
+  };
+  const pubkey = field("pubkey", "pubkey", DEPOSIT_LENGTHS.pubkey);
+  const signature = field("signature", "signature", DEPOSIT_LENGTHS.signature);
+  const withdrawalCredentials = field(
+    "withdrawal_credentials",
+    "withdrawal_credentials",
+    DEPOSIT_LENGTHS.withdrawalCredentials,
+  );
+  const depositDataRoot = field(
+    "deposit_data_root",
+    "deposit_data_root",
+    DEPOSIT_LENGTHS.depositDataRoot,
+  );
+
+  if (
+    withdrawalCredentials &&
+    withdrawalCredentials !== expectedCredentials(target.poolAddress)
+  ) {
+    errors.push(
+      withdrawalCredentials.startsWith("0x00")
+        ? "withdrawal_credentials don't point at the DepositPool"
+        : "withdrawal_credentials need the 0x00 execution-address prefix",
+    );
+  }
+
+  if (record.amount !== undefined) {
+    const expected = target.validatorStake / BEACON_UNIT;
+    let amount: bigint | null;
+    try {
+      amount = BigInt(String(record.amount));
+    } catch {
+      amount = null;
+    }
+    if (amount !== expected) errors.push(`amount is ${record.amount}, expected ${expected}`);
+  }
+
+  // The CLI always writes the fork version, and the signature is only valid
+  // for it; the network name is informational, so it's checked when present.
+  const forkVersion = hexOf(record.fork_version);
+  const expectedFork = hexOf(target.forkVersion);
+  if (!expectedFork) {
+    errors.push("No fork version is configured for this network");
+  } else if (forkVersion === null) {
+    errors.push("fork_version is missing or not hex");
+  } else if (forkVersion !== expectedFork) {
+    errors.push(`fork_version is 0x${forkVersion}, expected 0x${expectedFork}`);
+  }
+  if (record.network_name !== undefined && record.network_name !== target.networkName) {
+    errors.push(`network_name is "${record.network_name}", expected "${target.networkName}"`);
+  }
+
+  // Every field is set once nothing was reported; the checks are for the compiler.
+  const deposit =
+    errors.length === 0 && pubkey && signature && withdrawalCredentials && depositDataRoot
+      ? { pubkey, withdrawalCredentials, signature, depositDataRoot }
+      : null;
+  return { index, deposit, errors };
+}
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { backoffMs, BACKOFF_MAX_MS, EndpointPool, parseEndpointList } from "./endpointPool.ts";
+
+test("endpoint lists are comma-separated and ranked", () => {
+  assert.deepEqual(parseEndpointList(" https://a , ,https://b"), ["https://a", "https://b"]);
+  assert.deepEqual(parseEndpointList(undefined), []);
+});
+
+test("backoff doubles per consecutive failure up to the cap", () => {
+  assert.equal(backoffMs(1), 2_000);
+  assert.equal(backoffMs(3), 8_000);
+  assert.equal(backoffMs(20), BACKOFF_MAX_MS);
+});
+
+test("a down primary fails over to the next endpoint and is benched", async () => {
+  let now = 0;
+  const pool = new EndpointPool(["https://primary", "https://backup"], () => now);
+  const tried: string[] = [];
+  const result = await pool.run(async (url) => {
+    tried.push(url);
+    if (url === "https://primary") throw new Error("503");
+    return "ok";
+  });
+
+  assert.equal(result, "ok");
+  assert.deepEqual(tried, ["https://primary", "https://backup"]);
+  assert.equal(pool.current, "https://backup");
+
+  // While benched the primary is skipped entirely...
+  tried.length = 0;
+  await pool.run(async (url) => (tried.push(url), "ok"));
+  assert.deepEqual(tried, ["https://backup"]);
+
+  // ...and it is retried once its backoff has elapsed.
+  now += backoffMs(1);
+  tried.length = 0;
+  await pool.run(async (url) => (tried.push(url), "ok"));
+  assert.deepEqual(tried, ["https://primary"]);
+});
+
+test("rank order holds between healthy endpoints unless latency is much worse", () => {
+  const pool = new EndpointPool(["https://a", "https://b"]);
+  pool.recordSuccess("https://a", 300);
+  pool.recordSuccess("https://b", 200);
+  assert.equal(pool.ordered()[0].url, "https://a");
+
+  pool.recordSuccess("https://a", 3_000);
+  assert.equal(pool.ordered()[0].url, "https://b");
+});
+
+test("when every endpoint fails the last error is rethrown", async () => {
+  const pool = new EndpointPool(["https://a", "https://b"]);
+  await assert.rejects(
+    pool.run(async (url) => {
+      throw new Error(`down: ${url}`);
+    }),
+    /down: https:\/\/b/,
+  );
+  // Both benched: they are still tried, soonest-recovering first.
+  const tried: string[] = [];
+  await pool.run(async (url) => (tried.push(url), "ok"));
+  assert.deepEqual(tried, ["https://a"]);
+});
@@ -0,0 +1,132 @@
+/**
+ * Health-scored RPC endpoint selection. Endpoints keep their configured rank
+ * but carry smoothed latency and error rates; a failing endpoint is benched
+ * with exponential backoff and requests move down the list until it recovers.
+ * Kept free of web3 so it can be unit tested.
+ */
+
+export interface EndpointHealth {
+  url: string;
+  /** Position in the configured list (0 = preferred). */
+  rank: number;
+  /** Exponentially smoothed round-trip time, null until the first success. */
+  latencyMs: number | null;
+  /** Exponentially smoothed failure rate in [0, 1]. */
+  errorRate: number;
+  consecutiveFailures: number;
+  /** Epoch ms before which the endpoint is only used as a last resort. */
+  benchedUntil: number;
+}
+
+/** Weight of the newest sample in the latency/error averages. */
+const SMOOTHING = 0.3;
+/** Score handicap per rank step, so healthy endpoints keep their order. */
+const RANK_PENALTY_MS = 250;
+/** Latency assumed for endpoints that have not answered yet. */
+const UNKNOWN_LATENCY_MS = 500;
+export const BACKOFF_BASE_MS = 2_000;
+export const BACKOFF_MAX_MS = 60_000;
+
+/** Bench time after `failures` consecutive failures: 2 s, 4 s, 8 s, … 60 s. */
+export const backoffMs = (failures: number): number =>
+  Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, failures - 1), BACKOFF_MAX_MS);
+
+/** Lower is better: latency inflated by recent errors, plus the rank handicap. */
+export const endpointScore = (health: EndpointHealth): number =>
+  (health.latencyMs ?? UNKNOWN_LATENCY_MS) * (1 + 4 * health.errorRate) +
+  health.rank * RANK_PENALTY_MS;
+
+export class EndpointPool {
+  readonly endpoints: EndpointHealth[];
+  /** Endpoint that served the most recent successful request. */
+  current: string;
+
+  private readonly now: () => number;
+
+  constructor(urls: readonly string[], now: () => number = Date.now) {
+    if (urls.length === 0) throw new Error("At least one RPC endpoint is required");
+    this.endpoints = urls.map((url, rank) => ({
+      url,
+      rank,
+      latencyMs: null,
+      errorRate: 0,
+      consecutiveFailures: 0,
+      benchedUntil: 0,
+    }));
+    this.current = urls[0];
+    this.now = now;
+  }
+
+  /**
+   * Endpoints in the order they should be tried: available ones by score,
+   * then benched ones by how soon their backoff ends. A higher-ranked
+   * endpoint whose backoff just ended is retried first, so the preferred
+   * endpoint takes over again once it recovers.
+   */
+  ordered(): EndpointHealth[] {
+    const now = this.now();
+    const available = this.endpoints.filter((e) => e.benchedUntil <= now);
+    const benched = this.endpoints.filter((e) => e.benchedUntil > now);
+    available.sort((a, b) => endpointScore(a) - endpointScore(b));
+    benched.sort((a, b) => a.benchedUntil - b.benchedUntil);
+    const best = available[0];
+    const retries = available
+      .filter((e) => e.consecutiveFailures > 0 && best && e.rank < best.rank)
+      .sort((a, b) => a.rank - b.rank);
+    const rest = available.filter((e) => !retries.includes(e));
+    return [...retries, ...rest, ...benched];
+  }
+
+  recordSuccess(url: string, latencyMs: number): void {
+    const health = this.find(url);
+    health.latencyMs =
+      health.latencyMs === null
+        ? latencyMs
+        : health.latencyMs + SMOOTHING * (latencyMs - health.latencyMs);
+    health.errorRate *= 1 - SMOOTHING;
+    health.consecutiveFailures = 0;
+    health.benchedUntil = 0;
+    this.current = url;
+  }
+
+  recordFailure(url: string): void {
+    const health = this.find(url);
+    health.errorRate += SMOOTHING * (1 - health.errorRate);
+    health.consecutiveFailures += 1;
+    health.benchedUntil = this.now() + backoffMs(health.consecutiveFailures);
+  }
+
+  /**
+   * Run `request` against endpoints in order until one succeeds. Only
+   * transport-level failures (thrown errors) move on to the next endpoint;
+   * when every endpoint fails the last error is rethrown.
+   */
+  async run<T>(request: (url: string) => Promise<T>): Promise<T> {
+    let lastError: unknown = null;
+    for (const { url } of this.ordered()) {
+      const started = this.now();
+      try {
+        const result = await request(url);
+        this.recordSuccess(url, this.now() - started);
+        return result;
+      } catch (error) {
+        this.recordFailure(url);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  private find(url: string): EndpointHealth {
+    const health = this.endpoints.find((e) => e.url === url);
+    if (!health) throw new Error(`Unknown RPC endpoint ${url}`);
+    return health;
+  }
+}
+
+/** Parse a comma-separated, ranked endpoint list (blank entries dropped). */
+export const parseEndpointList = (value: string | undefined): string[] =>
+  (value ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
@@ -0,0 +1,19 @@
+import { ContractRevertError } from "@/utils/contractErrors";
+import { ConnectionRejectedError } from "@/utils/web3/extension";
+
+/** Best-effort human message for wallet, RPC and contract errors. */
+export function errorMessage(error: unknown): string {
+  if (error instanceof ConnectionRejectedError) return "Request rejected in wallet";
+  if (typeof error === "object" && error !== null) {
+    const { code, message } = error as { code?: unknown; message?: unknown };
+    if (code === 4001) return "Request rejected in wallet";
+    if (typeof message === "string" && message) return message;
+  }
+  if (error instanceof Error && error.message) return error.message;
+  return "Something went wrong";
+}
+
+/** What the user can do about `error`, when it is a decoded contract error. */
+export function errorAction(error: unknown): string | null {
+  return error instanceof ContractRevertError ? error.action : null;
+}
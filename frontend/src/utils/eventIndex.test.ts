@@ -0,0 +1,142 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  chunkRanges,
+  EventIndex,
+  indexKey,
+  memoryIndexStorage,
+  type IndexedLog,
+} from "./eventIndex.ts";
+
+const log = (blockNumber: bigint, logIndex = 0, transactionHash = `0x${blockNumber}`): IndexedLog => ({
+  event: "Deposited",
+  blockNumber,
+  logIndex,
+  transactionHash,
+  values: {},
+});
+
+/** A fake chain: logs by block, recording every range asked for. */
+function fakeChain(logs: IndexedLog[]) {
+  const ranges: [bigint, bigint][] = [];
+  const fetchRange = async (from: bigint, to: bigint) => {
+    ranges.push([from, to]);
+    return logs.filter((entry) => entry.blockNumber >= from && entry.blockNumber <= to);
+  };
+  return { ranges, fetchRange };
+}
+
+test("ranges are split into inclusive chunks", () => {
+  assert.deepEqual(chunkRanges(0n, 9n, 4n), [
+    [0n, 3n],
+    [4n, 7n],
+    [8n, 9n],
+  ]);
+  assert.deepEqual(chunkRanges(5n, 4n, 4n), []);
+});
+
+test("keys are case-insensitive per network, contract and user", () => {
+  assert.equal(indexKey("TEST_NET", "Q8E01", "QAbC"), indexKey("TEST_NET", "q8e01", "qabc"));
+  assert.notEqual(indexKey("TEST_NET", "Q1", "Q2"), indexKey("MAIN_NET", "Q1", "Q2"));
+});
+
+test("first sync scans in chunks; later syncs only fetch new blocks plus the reorg tail", async () => {
+  const storage = memoryIndexStorage();
+  const index = new EventIndex(storage, { chunkBlocks: 100n, reorgDepth: 10n });
+  const chain = fakeChain([log(50n), log(180n, 1), log(180n, 0), log(260n)]);
+
+  const first = await index.sync("k", 250n, chain.fetchRange);
+  assert.deepEqual(chain.ranges, [
+    [0n, 99n],
+    [100n, 199n],
+    [200n, 250n],
+  ]);
+  assert.deepEqual(
+    first.map((entry) => [entry.blockNumber, entry.logIndex]),
+    [
+      [50n, 0],
+      [180n, 0],
+      [180n, 1],
+    ],
+  );
+
+  chain.ranges.length = 0;
+  const second = await index.sync("k", 300n, chain.fetchRange);
+  assert.deepEqual(chain.ranges, [[241n, 300n]]);
+  assert.equal(second.length, 4);
+  assert.deepEqual(await index.cached("k"), second);
+});
+
+test("logs replaced by a reorg inside the tail are dropped", async () => {
+  const storage = memoryIndexStorage();
+  const index = new EventIndex(storage, { chunkBlocks: 1_000n, reorgDepth: 5n });
+  await index.sync("k", 100n, fakeChain([log(10n), log(98n, 0, "0xorphaned")]).fetchRange);
+
+  const afterReorg = await index.sync("k", 101n, fakeChain([log(10n), log(99n, 0, "0xnew")]).fetchRange);
+  assert.deepEqual(
+    afterReorg.map((entry) => entry.transactionHash),
+    ["0x10", "0xnew"],
+  );
+});
+
+test("an interrupted first sync resumes from its last checkpoint", async () => {
+  const storage = memoryIndexStorage();
+  const index = new EventIndex(storage, { chunkBlocks: 100n, reorgDepth: 1n });
+  let calls = 0;
+  await assert.rejects(
+    index.sync("k", 299n, async () => {
+      calls += 1;
+      if (calls === 2) throw new Error("range too large");
+      return [];
+    }),
+    /range too large/,
+  );
+  assert.equal((await storage.get("k"))?.lastBlock, 99n);
+
+  const chain = fakeChain([]);
+  await index.sync("k", 299n, chain.fetchRange);
+  assert.deepEqual(chain.ranges, [
+    [99n, 198n],
+    [199n, 298n],
+    [299n, 299n],
+  ]);
+});
+
+test("a first sync starts at the given deployment block, keys sharing one index", async () => {
+  const index = new EventIndex(memoryIndexStorage(), { chunkBlocks: 100n, reorgDepth: 1n });
+  const pool = fakeChain([log(1_020n)]);
+  const token = fakeChain([]);
+
+  const [poolLogs] = await Promise.all([
+    index.sync("pool", 1_150n, pool.fetchRange, 1_000n),
+    index.sync("pool", 1_150n, pool.fetchRange, 1_000n),
+    index.sync("token", 1_150n, token.fetchRange, 1_100n),
+  ]);
+  assert.equal(poolLogs.length, 1);
+  // Concurrent syncs of one key share a single scan.
+  assert.deepEqual(pool.ranges, [
+    [1_000n, 1_099n],
+    [1_100n, 1_150n],
+  ]);
+  assert.deepEqual(token.ranges, [[1_100n, 1_150n]]);
+});
+
+test("a sync for a newer head than the running one catches up after it", async () => {
+  const index = new EventIndex(memoryIndexStorage(), { chunkBlocks: 100n, reorgDepth: 1n });
+  const chain = fakeChain([log(50n), log(160n)]);
+
+  const [older, newer, again] = await Promise.all([
+    index.sync("pool", 120n, chain.fetchRange),
+    index.sync("pool", 170n, chain.fetchRange),
+    index.sync("pool", 170n, chain.fetchRange),
+  ]);
+  assert.deepEqual(older.map((entry) => entry.blockNumber), [50n]);
+  assert.deepEqual(newer.map((entry) => entry.blockNumber), [50n, 160n]);
+  assert.equal(again, newer);
+  // The follow-up resumes from the first sync's tail instead of rescanning.
+  assert.deepEqual(chain.ranges, [
+    [0n, 99n],
+    [100n, 120n],
+    [120n, 170n],
+  ]);
+});
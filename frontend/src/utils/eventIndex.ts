@@ -0,0 +1,149 @@
+/**
+ * Incremental, persisted contract event index. Each key (network + contract +
+ * user) keeps the logs seen so far and the last block they cover, so a sync
+ * only asks the node for blocks it has not seen - in bounded chunks that RPC
+ * proxies accept - plus a short tail re-checked to absorb reorgs.
+ */
+
+export interface IndexedLog {
+  event: string;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: string;
+  /** Named return values, stringified so they survive structured cloning. */
+  values: Record<string, string>;
+}
+
+export interface IndexCheckpoint {
+  /** Highest block the stored logs are complete up to. */
+  lastBlock: bigint;
+  logs: IndexedLog[];
+}
+
+/** Persistence for checkpoints (IndexedDB in the browser, a Map in tests). */
+export interface IndexStorage {
+  get(key: string): Promise<IndexCheckpoint | undefined>;
+  put(key: string, checkpoint: IndexCheckpoint): Promise<void>;
+}
+
+/** Fetches every indexed log in an inclusive block range. */
+export type RangeFetcher = (fromBlock: bigint, toBlock: bigint) => Promise<IndexedLog[]>;
+
+/** Block span per log query - comfortably under common proxy range caps. */
+export const LOG_CHUNK_BLOCKS = 5_000n;
+
+/** Trailing blocks re-fetched each sync (matches config txConfirmations). */
+export const REORG_DEPTH = 12n;
+
+export interface EventIndexOptions {
+  chunkBlocks?: bigint;
+  reorgDepth?: bigint;
+  /** First block worth scanning when a sync doesn't name one. */
+  startBlock?: bigint;
+}
+
+export const indexKey = (networkId: string, contract: string, user: string): string =>
+  `${networkId}:${contract.toLowerCase()}:${user.toLowerCase()}`;
+
+/** Split an inclusive range into inclusive chunks of at most `size` blocks. */
+export function chunkRanges(from: bigint, to: bigint, size: bigint): [bigint, bigint][] {
+  const ranges: [bigint, bigint][] = [];
+  for (let start = from; start <= to; start += size) {
+    const end = start + size - 1n;
+    ranges.push([start, end < to ? end : to]);
+  }
+  return ranges;
+}
+
+const byPosition = (a: IndexedLog, b: IndexedLog): number =>
+  a.blockNumber === b.blockNumber
+    ? a.logIndex - b.logIndex
+    : a.blockNumber < b.blockNumber
+      ? -1
+      : 1;
+
+export class EventIndex {
+  private readonly storage: IndexStorage;
+  private readonly chunkBlocks: bigint;
+  private readonly reorgDepth: bigint;
+  private readonly startBlock: bigint;
+  /**
+   * One sync per key at a time. Callers arriving mid-sync share its result
+   * when it reaches their head, and queue a follow-up sync when it doesn't.
+   */
+  private inFlight = new Map<string, { head: bigint; run: Promise<IndexedLog[]> }>();
+
+  constructor(storage: IndexStorage, options: EventIndexOptions = {}) {
+    this.storage = storage;
+    this.chunkBlocks = options.chunkBlocks ?? LOG_CHUNK_BLOCKS;
+    this.reorgDepth = options.reorgDepth ?? REORG_DEPTH;
+    this.startBlock = options.startBlock ?? 0n;
+  }
+
+  /** Stored logs for `key`, oldest first, without touching the network. */
+  async cached(key: string): Promise<IndexedLog[]> {
+    return (await this.storage.get(key))?.logs ?? [];
+  }
+
+  /**
+   * Bring `key` up to `head` and return all its logs, oldest first. A first
+   * sync scans from `startBlock` - the contract's deployment block, so a
+   * fresh key doesn't walk the chain from genesis.
+   */
+  sync(
+    key: string,
+    head: bigint,
+    fetchRange: RangeFetcher,
+    startBlock = this.startBlock,
+  ): Promise<IndexedLog[]> {
+    const running = this.inFlight.get(key);
+    if (running && running.head >= head) return running.run;
+    // A newer head waits for the running sync, then fetches only what it left.
+    const previous = running ? running.run.catch(() => undefined) : Promise.resolve();
+    const run = previous
+      .then(() => this.runSync(key, head, fetchRange, startBlock))
+      .finally(() => {
+        if (this.inFlight.get(key)?.run === run) this.inFlight.delete(key);
+      });
+    this.inFlight.set(key, { head, run });
+    return run;
+  }
+
+  private async runSync(
+    key: string,
+    head: bigint,
+    fetchRange: RangeFetcher,
+    startBlock: bigint,
+  ): Promise<IndexedLog[]> {
+    const stored = await this.storage.get(key);
+    let logs = stored?.logs ?? [];
+    let from = startBlock;
+    if (stored) {
+      // Re-read the tail: anything in the last `reorgDepth` blocks (or past a
+      // head that moved backwards) may have been replaced.
+      const covered = stored.lastBlock < head ? stored.lastBlock : head;
+      const rescan = covered - this.reorgDepth + 1n;
+      if (rescan > from) from = rescan;
+      logs = logs.filter((log) => log.blockNumber < from);
+    }
+
+    for (const [start, end] of chunkRanges(from, head, this.chunkBlocks)) {
+      const fetched = await fetchRange(start, end);
+      logs = [...logs, ...fetched].sort(byPosition);
+      // Checkpoint per chunk so an interrupted first sync resumes where it stopped.
+      await this.storage.put(key, { lastBlock: end, logs });
+    }
+    return logs;
+  }
+}
+
+/** Non-persistent storage for environments without IndexedDB. */
+export function memoryIndexStorage(): IndexStorage {
+  const entries = new Map<string, IndexCheckpoint>();
+  return {
+    get: async (key) => entries.get(key),
+    put: async (key, checkpoint) => {
+      entries.set(key, checkpoint);
+    },
+  };
+}
@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { quoteFee, spendableBalance } from "./feeQuote.ts";
+
+const market = { baseFeePerGas: 100n, maxPriorityFeePerGas: 2n };
+
+test("the estimate uses the base fee, the maximum the padded limit and doubled base fee", () => {
+  assert.deepEqual(quoteFee(100_000n, market), {
+    gasLimit: 130_000n,
+    estimated: 100_000n * 102n,
+    max: 130_000n * 202n,
+  });
+});
+
+test("nothing is quoted without both a gas estimate and a fee market", () => {
+  assert.equal(quoteFee(undefined, market), null);
+  assert.equal(quoteFee(21_000n, null), null);
+});
+
+test("the spendable balance keeps the maximum fee back", () => {
+  const quote = quoteFee(100_000n, market);
+  assert.equal(spendableBalance(10n ** 18n, quote), 10n ** 18n - 130_000n * 202n);
+  assert.equal(spendableBalance(1_000n, quote), 0n);
+  assert.equal(spendableBalance(10n ** 18n, null), null);
+});
@@ -0,0 +1,45 @@
+/**
+ * Network fee quotes. A quote pairs a gas estimate with the fee market at the
+ * head: the estimated fee is what the transaction should cost at today's
+ * base fee, the maximum is what the wallet lets it cost (padded gas limit at
+ * web3's default fee cap of twice the base fee plus the tip).
+ */
+
+export interface FeeMarket {
+  baseFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface FeeQuote {
+  gasLimit: bigint;
+  /** Gas estimate at the current base fee plus tip. */
+  estimated: bigint;
+  /** Upper bound the wallet signs for. */
+  max: bigint;
+}
+
+/** Limit sent when estimation fails on a proxy that can't run it. */
+export const FALLBACK_GAS_LIMIT = 1_500_000n;
+
+/** Headroom on estimates for state changing between estimate and inclusion. */
+export const GAS_LIMIT_PADDING_PERCENT = 130n;
+
+export const padGasLimit = (estimate: bigint): bigint =>
+  (estimate * GAS_LIMIT_PADDING_PERCENT) / 100n;
+
+export function quoteFee(gas: bigint | undefined, market: FeeMarket | null): FeeQuote | null {
+  if (gas === undefined || market === null) return null;
+  const { baseFeePerGas, maxPriorityFeePerGas } = market;
+  const gasLimit = padGasLimit(gas);
+  return {
+    gasLimit,
+    estimated: gas * (baseFeePerGas + maxPriorityFeePerGas),
+    max: gasLimit * (2n * baseFeePerGas + maxPriorityFeePerGas),
+  };
+}
+
+/** Balance left to spend once the maximum fee is set aside; null until quoted. */
+export function spendableBalance(balance: bigint, quote: FeeQuote | null): bigint | null {
+  if (!quote) return null;
+  return balance > quote.max ? balance - quote.max : 0n;
+}
@@ -52,15 +52,20 @@ export function formatRate(rate: bigint, fractionDigits = 4): string {
   return `${whole}.${fraction}`;
 }
 
-/** USD display: "$1,234.56". */
-export function formatUsd(value: number): string {
+/** Fiat display: "$1,234.56", "€1,234.56". */
+export function formatFiat(value: number, currency: string): string {
   return value.toLocaleString("en-US", {
     style: "currency",
-    currency: "USD",
+    currency: currency.toUpperCase(),
     maximumFractionDigits: 2,
   });
 }
 
+/** Fraction as a percentage: 0.0412 -> "4.12%". */
+export function formatPercent(value: number, fractionDigits = 2): string {
+  return `${(value * 100).toFixed(fractionDigits)}%`;
+}
+
 /** Shorten a Q-address for display: "Q109d…b9aC". */
 export function shortenAddress(address: string, chars = 4): string {
   if (address.length <= 2 + chars * 2) return address;
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { HeadWatcher, MIN_POLL_MS, nextPollDelay } from "./headWatcher.ts";
+
+test("polling sleeps until the next block is due, then backs off while it is late", () => {
+  assert.equal(nextPollDelay(0, 60_000, 0), 60_000);
+  assert.equal(nextPollDelay(45_000, 60_000, 0), 15_000);
+  assert.equal(nextPollDelay(59_000, 60_000, 0), MIN_POLL_MS);
+  assert.equal(nextPollDelay(70_000, 60_000, 1), MIN_POLL_MS * 2);
+  assert.equal(nextPollDelay(70_000, 60_000, 2), MIN_POLL_MS * 4);
+  assert.equal(nextPollDelay(600_000, 60_000, 10), 60_000);
+});
+
+test("listeners hear each new head once and poke re-announces the current one", async () => {
+  let chainHead = 5n;
+  const watcher = new HeadWatcher({ fetchHead: async () => chainHead, blockTimeMs: 60_000 });
+  const seen: bigint[] = [];
+  const stopListening = watcher.onHead((blockNumber) => seen.push(blockNumber));
+
+  await watcher.start();
+  await watcher.poke();
+  chainHead = 6n;
+  await watcher.poke();
+  watcher.stop();
+
+  assert.deepEqual(seen, [5n, 5n, 6n]);
+  stopListening();
+  await watcher.poke();
+  assert.equal(seen.length, 3);
+});
+
+test("subscription heads are forwarded and an erroring subscription is dropped", async () => {
+  const socket: {
+    push?: (blockNumber: bigint) => void;
+    fail?: (error: unknown) => void;
+    closed?: boolean;
+  } = {};
+  const watcher = new HeadWatcher({
+    fetchHead: async () => 1n,
+    subscribe: async (onHead, onError) => {
+      socket.push = onHead;
+      socket.fail = onError;
+      return () => {
+        socket.closed = true;
+      };
+    },
+    blockTimeMs: 60_000,
+  });
+  const seen: bigint[] = [];
+  watcher.onHead((blockNumber) => seen.push(blockNumber));
+
+  await watcher.start();
+  socket.push?.(2n);
+  socket.push?.(2n);
+  socket.fail?.(new Error("socket closed"));
+  watcher.stop();
+
+  assert.deepEqual(seen, [1n, 2n]);
+  assert.equal(watcher.head, 2n);
+  assert.equal(socket.closed, true);
+});
+
+test("an unreachable node leaves the head unset instead of throwing", async () => {
+  const watcher = new HeadWatcher({
+    fetchHead: async () => {
+      throw new Error("connection refused");
+    },
+    blockTimeMs: 60_000,
+  });
+  await watcher.start();
+  watcher.stop();
+  assert.equal(watcher.head, 0n);
+});
+
+test("restart forgets the old chain's head so a lower head is announced", async () => {
+  let chainHead = 900n;
+  const watcher = new HeadWatcher({ fetchHead: async () => chainHead, blockTimeMs: 60_000 });
+  const seen: bigint[] = [];
+  watcher.onHead((blockNumber) => seen.push(blockNumber));
+
+  await watcher.start();
+  chainHead = 40n;
+  await watcher.restart();
+  watcher.stop();
+
+  assert.deepEqual(seen, [900n, 40n]);
+  assert.equal(watcher.head, 40n);
+});
@@ -0,0 +1,177 @@
+/**
+ * Chain-head tracking. Prefers a pushed `newHeads` subscription and falls back
+ * to polling the block number on a schedule that follows the block time:
+ * sleep until the next block is due, then poll quickly with backoff while it
+ * is late. Listeners are told about each new head once; `poke()` re-announces
+ * the current head so a listener that skipped blocks can catch up.
+ */
+
+export type HeadListener = (blockNumber: bigint) => void;
+
+/** Starts a push subscription; resolves to its unsubscribe function. */
+export type HeadSubscriber = (
+  onHead: (blockNumber: bigint) => void,
+  onError: (error: unknown) => void,
+) => Promise<() => void>;
+
+export interface HeadWatcherOptions {
+  fetchHead: () => Promise<bigint>;
+  /** Optional push source (websocket newHeads); polling is used without it. */
+  subscribe?: HeadSubscriber;
+  blockTimeMs: number;
+}
+
+/** Fastest poll once a block is due - well under the ~60 s QRL block time. */
+export const MIN_POLL_MS = 3_000;
+
+/**
+ * Delay before the next block-number poll. Until the next block is due we
+ * sleep through the remainder of the block time; once it is late we poll
+ * every MIN_POLL_MS, doubling per empty poll up to one block time.
+ */
+export function nextPollDelay(
+  msSinceLastHead: number,
+  blockTimeMs: number,
+  emptyPolls: number,
+): number {
+  const dueIn = blockTimeMs - msSinceLastHead;
+  if (dueIn > MIN_POLL_MS) return dueIn;
+  return Math.min(MIN_POLL_MS * 2 ** emptyPolls, blockTimeMs);
+}
+
+export class HeadWatcher {
+  /** Latest head seen (0n before the first one). */
+  head = 0n;
+
+  private readonly options: HeadWatcherOptions;
+  private listeners = new Set<HeadListener>();
+  private started = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private lastHeadAt = 0;
+  private emptyPolls = 0;
+  private polling = false;
+  /** Bumped by stop() so answers from a previous run are ignored. */
+  private generation = 0;
+
+  constructor(options: HeadWatcherOptions) {
+    this.options = options;
+  }
+
+  /** Register a listener; returns its removal function. */
+  onHead(listener: HeadListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Begin tracking: subscribe if possible, otherwise poll. Idempotent. */
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+    const generation = this.generation;
+    await this.poll();
+    const { subscribe } = this.options;
+    if (subscribe) {
+      try {
+        const unsubscribe = await subscribe(
+          (blockNumber) => {
+            if (generation === this.generation) this.observe(blockNumber);
+          },
+          () => {
+            if (generation === this.generation) this.fallBackToPolling();
+          },
+        );
+        if (generation !== this.generation) {
+          unsubscribe();
+          return;
+        }
+        this.unsubscribe = unsubscribe;
+        return;
+      } catch {
+        // No websocket support on this endpoint - poll instead.
+      }
+    }
+    this.schedule();
+  }
+
+  /** Fetch the head now and announce it even if it is not new. */
+  async poke(): Promise<void> {
+    const before = this.head;
+    await this.poll();
+    if (this.head === before && this.head > 0n) this.emit(this.head);
+  }
+
+  stop(): void {
+    this.generation += 1;
+    this.started = false;
+    this.polling = false;
+    this.clearTimer();
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /** Forget the head and start over - for a switch to another chain. */
+  async restart(): Promise<void> {
+    this.stop();
+    this.head = 0n;
+    this.lastHeadAt = 0;
+    this.emptyPolls = 0;
+    await this.start();
+  }
+
+  private fallBackToPolling(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.started) this.schedule();
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    const generation = this.generation;
+    try {
+      const blockNumber = await this.options.fetchHead();
+      if (generation !== this.generation) return;
+      if (!this.observe(blockNumber)) this.emptyPolls += 1;
+    } catch {
+      // Treat an unreachable node like a late block: back off and retry.
+      if (generation === this.generation) this.emptyPolls += 1;
+    } finally {
+      if (generation === this.generation) this.polling = false;
+    }
+  }
+
+  /** Record a head; returns true when it is new. */
+  private observe(blockNumber: bigint): boolean {
+    if (blockNumber <= this.head) return false;
+    this.head = blockNumber;
+    this.lastHeadAt = Date.now();
+    this.emptyPolls = 0;
+    this.emit(blockNumber);
+    return true;
+  }
+
+  private emit(blockNumber: bigint): void {
+    for (const listener of this.listeners) listener(blockNumber);
+  }
+
+  private schedule(): void {
+    this.clearTimer();
+    if (!this.started || this.unsubscribe) return;
+    const delay = nextPollDelay(
+      Date.now() - this.lastHeadAt,
+      this.options.blockTimeMs,
+      this.emptyPolls,
+    );
+    this.timer = setTimeout(() => {
+      void this.poll().then(() => this.schedule());
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { IndexedLog } from "./eventIndex.ts";
+import {
+  buildExportRows,
+  exportBlocks,
+  parseDateRange,
+  toCsv,
+  toJson,
+  type HistoryInput,
+} from "./historyExport.ts";
+
+const E18 = 10n ** 18n;
+const A = `Q${"a".repeat(40)}`;
+const B = `Q${"b".repeat(40)}`;
+const ZERO = `Q${"0".repeat(40)}`;
+
+const transfer = (from: string, to: string, value: bigint, blockNumber: bigint): IndexedLog => ({
+  event: "Transfer",
+  blockNumber,
+  logIndex: 0,
+  transactionHash: `0xt${blockNumber}`,
+  values: { from, to, value: value.toString() },
+});
+
+const inputs: HistoryInput[] = [
+  {
+    address: A,
+    activity: [
+      {
+        type: "deposit",
+        qrlAmount: 100n * E18,
+        shares: 100n * E18,
+        blockNumber: 10n,
+        txHash: "0xd",
+      },
+    ],
+    transfers: [transfer(ZERO, A, 100n * E18, 10n), transfer(A, B, 5n * E18, 30n)],
+  },
+  { address: B, activity: [], transfers: [transfer(A, B, 5n * E18, 30n)] },
+];
+
+const lookups = {
+  rateAt: (block: bigint) => (block < 20n ? E18 : (E18 * 3n) / 2n),
+  timestampOf: (block: bigint) => 1_700_000_000 + Number(block) * 60,
+  priceAt: (timestamp: number) => (timestamp >= 1_700_001_000 ? 2 : null),
+  currency: "eur",
+};
+
+test("rows cover activity and transfers for every address, oldest first", () => {
+  const rows = buildExportRows(inputs, lookups, { from: null, to: null });
+  assert.deepEqual(
+    rows.map((row) => [row.address, row.type, row.blockNumber, row.qrlAmount, row.fiatValue]),
+    [
+      [A, "deposit", 10n, 100n * E18, null],
+      [A, "transfer-out", 30n, (15n * E18) / 2n, 15],
+      [B, "transfer-in", 30n, (15n * E18) / 2n, 15],
+    ],
+  );
+  assert.equal(rows[1].counterparty, B);
+  assert.deepEqual(exportBlocks(inputs).sort(), [10n, 30n]);
+});
+
+test("date ranges are whole UTC days and filter by block time", () => {
+  const range = parseDateRange("2023-11-14", "2023-11-14");
+  assert.equal(range.from, Date.parse("2023-11-14T00:00:00Z") / 1000);
+  assert.equal(range.to, Date.parse("2023-11-15T00:00:00Z") / 1000 - 1);
+  assert.deepEqual(parseDateRange("", ""), { from: null, to: null });
+  assert.throws(() => parseDateRange("2024-02-01", "2024-01-01"), /after the end date/);
+
+  const rows = buildExportRows(inputs, lookups, { from: 1_700_001_000, to: null });
+  assert.equal(rows.length, 2);
+});
+
+test("CSV and JSON carry full-precision amounts", () => {
+  const rows = buildExportRows(inputs.slice(0, 1), lookups, { from: null, to: null });
+  const csv = toCsv(rows).split("\r\n");
+  assert.equal(
+    csv[0],
+    "address,type,block,timestamp,date,txHash,qrlAmount,shares,exchangeRate,fiatValue,currency," +
+      "counterparty",
+  );
+  assert.equal(
+    csv[1],
+    `${A},deposit,10,1700000600,2023-11-14T22:23:20.000Z,0xd,100,100,1,,EUR,`,
+  );
+  const json = JSON.parse(toJson(rows)) as Record<string, string | null>[];
+  assert.equal(json[1].qrlAmount, "7.5");
+  assert.equal(json[1].exchangeRate, "1.5");
+  assert.equal(json[1].fiatValue, "15.00");
+  assert.equal(json[1].currency, "EUR");
+});
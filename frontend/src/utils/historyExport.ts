@@ -0,0 +1,202 @@
+/**
+ * Staking history export for accounting: DepositPool activity and stQRL
+ * transfers for one or more addresses, one row per event, with the block
+ * time, the exchange rate at that block and the fiat value at that day's
+ * price when one is known. Amounts are written as full-precision decimal strings.
+ */
+
+import { formatUnits } from "./format.ts";
+import type { IndexedLog } from "./eventIndex.ts";
+import { isZeroAddress, type ActivityInput } from "./pnl.ts";
+
+export type ExportFormat = "csv" | "json";
+
+export interface ExportRow {
+  address: string;
+  /** Activity type, or "transfer-in" / "transfer-out". */
+  type: string;
+  blockNumber: bigint;
+  /** Block time, unix seconds. */
+  timestamp: number;
+  txHash: string;
+  qrlAmount: bigint | null;
+  shares: bigint | null;
+  /** QRL per stQRL share at the block, 1e18-scaled. */
+  rate: bigint | null;
+  /** qrlAmount in `currency` at the price of the time. */
+  fiatValue: number | null;
+  currency: string;
+  /** The other side of a transfer. */
+  counterparty: string | null;
+}
+
+/** One address's indexed history. */
+export interface HistoryInput {
+  address: string;
+  activity: readonly (ActivityInput & { txHash: string })[];
+  transfers: readonly IndexedLog[];
+}
+
+export interface ExportLookups {
+  rateAt: (blockNumber: bigint) => bigint | null;
+  timestampOf: (blockNumber: bigint) => number;
+  /** Fiat per QRL at a unix time, or null when unknown. */
+  priceAt: (timestamp: number) => number | null;
+  currency: string;
+}
+
+/** Inclusive bounds in unix seconds; null leaves that side open. */
+export interface DateRange {
+  from: number | null;
+  to: number | null;
+}
+
+const RATE_BASE = 10n ** 18n;
+const DAY_SECONDS = 24 * 60 * 60;
+
+const COLUMNS = [
+  "address",
+  "type",
+  "block",
+  "timestamp",
+  "date",
+  "txHash",
+  "qrlAmount",
+  "shares",
+  "exchangeRate",
+  "fiatValue",
+  "currency",
+  "counterparty",
+] as const;
+
+/**
+ * A range from two "YYYY-MM-DD" dates (as given by a date input), in UTC and
+ * covering the whole of the end day. Empty strings leave that side open.
+ */
+export function parseDateRange(from: string, to: string): DateRange {
+  const day = (value: string) => {
+    if (!value) return null;
+    const ms = Date.parse(`${value}T00:00:00Z`);
+    if (Number.isNaN(ms)) throw new Error(`Invalid date "${value}"`);
+    return ms / 1000;
+  };
+  const range = { from: day(from), to: day(to) };
+  if (range.to !== null) range.to += DAY_SECONDS - 1;
+  if (range.from !== null && range.to !== null && range.from > range.to) {
+    throw new Error("The start date is after the end date");
+  }
+  return range;
+}
+
+/** Every block that needs a timestamp, without duplicates. */
+export function exportBlocks(inputs: readonly HistoryInput[]): bigint[] {
+  const blocks = new Set<bigint>();
+  for (const input of inputs) {
+    for (const row of input.activity) blocks.add(row.blockNumber);
+    for (const log of input.transfers) blocks.add(log.blockNumber);
+  }
+  return [...blocks];
+}
+
+/**
+ * Rows for every address, oldest first, limited to `range`. Transfers from or
+ * to the zero address are left out: they are the mints and burns behind a
+ * deposit or claim row.
+ */
+export function buildExportRows(
+  inputs: readonly HistoryInput[],
+  lookups: ExportLookups,
+  range: DateRange,
+): ExportRow[] {
+  const rows: ExportRow[] = [];
+  const push = (row: Omit<ExportRow, "timestamp" | "rate" | "fiatValue" | "currency">) => {
+    const timestamp = lookups.timestampOf(row.blockNumber);
+    if (range.from !== null && timestamp < range.from) return;
+    if (range.to !== null && timestamp > range.to) return;
+    const price = lookups.priceAt(timestamp);
+    rows.push({
+      ...row,
+      timestamp,
+      rate: lookups.rateAt(row.blockNumber),
+      fiatValue:
+        price === null || row.qrlAmount === null
+          ? null
+          : Number(formatUnits(row.qrlAmount)) * price,
+      currency: lookups.currency,
+    });
+  };
+
+  for (const { address, activity, transfers } of inputs) {
+    const self = address.toLowerCase();
+    for (const row of activity) {
+      push({
+        address,
+        type: row.type,
+        blockNumber: row.blockNumber,
+        txHash: row.txHash,
+        qrlAmount: row.qrlAmount,
+        shares: row.shares,
+        counterparty: null,
+      });
+    }
+    for (const log of transfers) {
+      const { from, to, value } = log.values;
+      if (log.event !== "Transfer" || isZeroAddress(from) || isZeroAddress(to)) continue;
+      const incoming = to.toLowerCase() === self;
+      if (incoming === (from.toLowerCase() === self)) continue;
+      const shares = BigInt(value);
+      const rate = lookups.rateAt(log.blockNumber);
+      push({
+        address,
+        type: incoming ? "transfer-in" : "transfer-out",
+        blockNumber: log.blockNumber,
+        txHash: log.transactionHash,
+        qrlAmount: rate === null ? null : (shares * rate) / RATE_BASE,
+        shares,
+        counterparty: incoming ? from : to,
+      });
+    }
+  }
+
+  return rows.sort((a, b) =>
+    a.blockNumber === b.blockNumber
+      ? a.address.localeCompare(b.address)
+      : a.blockNumber < b.blockNumber
+        ? -1
+        : 1,
+  );
+}
+
+/** A row as plain strings, in column order. */
+function serialize(row: ExportRow): Record<(typeof COLUMNS)[number], string | null> {
+  const units = (value: bigint | null) => (value === null ? null : formatUnits(value));
+  return {
+    address: row.address,
+    type: row.type,
+    block: row.blockNumber.toString(),
+    timestamp: String(row.timestamp),
+    date: new Date(row.timestamp * 1000).toISOString(),
+    txHash: row.txHash,
+    qrlAmount: units(row.qrlAmount),
+    shares: units(row.shares),
+    exchangeRate: units(row.rate),
+    fiatValue: row.fiatValue === null ? null : row.fiatValue.toFixed(2),
+    currency: row.currency.toUpperCase(),
+    counterparty: row.counterparty,
+  };
+}
+
+const csvField = (value: string | null) =>
+  value === null ? "" : /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function toCsv(rows: readonly ExportRow[]): string {
+  const lines = rows.map((row) => {
+    const fields = serialize(row);
+    return COLUMNS.map((column) => csvField(fields[column])).join(",");
+  });
+  return [COLUMNS.join(","), ...lines].join("\r\n") + "\r\n";
+}
+
+export function toJson(rows: readonly ExportRow[]): string {
+  return JSON.stringify(rows.map(serialize), null, 2);
+}
@@ -0,0 +1,55 @@
+import { memoryIndexStorage, type IndexCheckpoint, type IndexStorage } from "@/utils/eventIndex";
+
+const DB_NAME = "quantapool";
+const DB_VERSION = 1;
+const EVENT_INDEX_STORE = "eventIndex";
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(EVENT_INDEX_STORE)) {
+      request.result.createObjectStore(EVENT_INDEX_STORE);
+    }
+  };
+  return promisify(request);
+}
+
+/**
+ * Event index checkpoints in IndexedDB (BigInts are stored natively by the
+ * structured clone). Private browsing modes and old WebViews may refuse to
+ * open the database; the index then lives in memory for the session.
+ */
+export function browserIndexStorage(): IndexStorage {
+  if (typeof indexedDB === "undefined") return memoryIndexStorage();
+
+  const fallback = memoryIndexStorage();
+  let db: Promise<IDBDatabase | null> | null = null;
+  const getDb = () => {
+    db ??= openDatabase().catch(() => null);
+    return db;
+  };
+
+  return {
+    async get(key) {
+      const database = await getDb();
+      if (!database) return fallback.get(key);
+      const store = database.transaction(EVENT_INDEX_STORE).objectStore(EVENT_INDEX_STORE);
+      return (await promisify(store.get(key))) as IndexCheckpoint | undefined;
+    },
+    async put(key, checkpoint) {
+      const database = await getDb();
+      if (!database) return fallback.put(key, checkpoint);
+      const store = database
+        .transaction(EVENT_INDEX_STORE, "readwrite")
+        .objectStore(EVENT_INDEX_STORE);
+      await promisify(store.put(checkpoint, key));
+    },
+  };
+}
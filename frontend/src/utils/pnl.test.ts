@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { IndexedLog } from "./eventIndex.ts";
+import { computePnl, fiatPrincipal, shareFlows } from "./pnl.ts";
+
+const E18 = 10n ** 18n;
+const ether = (n: number) => BigInt(n) * E18;
+const ME = `Q${"a".repeat(40)}`;
+const OTHER = `Q${"b".repeat(40)}`;
+const ZERO = `Q${"0".repeat(40)}`;
+
+const transfer = (from: string, to: string, value: bigint, blockNumber: bigint): IndexedLog => ({
+  event: "Transfer",
+  blockNumber,
+  logIndex: 0,
+  transactionHash: `0x${blockNumber}`,
+  values: { from, to, value: value.toString() },
+});
+
+test("deposits, claims and transfers become signed share flows", () => {
+  const flows = shareFlows(
+    [
+      { type: "deposit", qrlAmount: ether(100), shares: ether(100), blockNumber: 10n },
+      { type: "request", qrlAmount: ether(20), shares: ether(20), blockNumber: 20n },
+      { type: "claim", qrlAmount: ether(22), shares: ether(20), blockNumber: 40n },
+    ],
+    [
+      transfer(ZERO, ME, ether(100), 10n), // the deposit's mint
+      transfer(OTHER, ME, ether(10), 30n),
+      transfer(ME, OTHER, ether(5), 35n),
+    ],
+    ME,
+    () => (E18 * 11n) / 10n,
+  );
+  assert.deepEqual(
+    flows.map((flow) => [flow.blockNumber, flow.shares, flow.principal]),
+    [
+      [10n, ether(100), ether(100)],
+      [30n, ether(10), ether(11)],
+      [35n, -ether(5), -(ether(55) / 10n)],
+      [40n, -ether(20), -ether(22)],
+    ],
+  );
+});
+
+test("rewards and slashing follow the shares held at each rate change", () => {
+  const flows = [
+    { blockNumber: 10n, shares: ether(100), principal: ether(100) },
+    // Deposits in the block of a reward sync don't earn that reward.
+    { blockNumber: 20n, shares: ether(100), principal: ether(110) },
+  ];
+  const rates = [
+    { blockNumber: 10n, rate: E18, totalPooled: 0n },
+    { blockNumber: 20n, rate: (E18 * 11n) / 10n, totalPooled: 0n },
+    { blockNumber: 30n, rate: E18, totalPooled: 0n },
+  ];
+  const pnl = computePnl(flows, rates, { value: ether(200), blockNumber: 30n }, 60);
+  assert.equal(pnl.netPrincipal, ether(210));
+  assert.equal(pnl.rewards, ether(10));
+  assert.equal(pnl.slashing, ether(20));
+  assert.equal(pnl.profit, -ether(10));
+  assert.equal(pnl.profit, pnl.rewards - pnl.slashing);
+});
+
+test("the annualized return weights principal by time invested", () => {
+  const blocksPerYear = (365 * 24 * 60 * 60) / 60;
+  const flows = [{ blockNumber: 0n, shares: ether(100), principal: ether(100) }];
+  const pnl = computePnl(flows, [], { value: ether(105), blockNumber: BigInt(blocksPerYear) }, 60);
+  assert.ok(pnl.annualizedReturn !== null && Math.abs(pnl.annualizedReturn - 0.05) < 1e-9);
+  assert.equal(computePnl([], [], { value: 0n, blockNumber: 5n }, 60).annualizedReturn, null);
+});
+
+test("fiat principal prices each flow on its own", () => {
+  const flows = [
+    { blockNumber: 1n, shares: ether(100), principal: ether(100) },
+    { blockNumber: 2n, shares: -ether(50), principal: -ether(60) },
+  ];
+  assert.equal(
+    fiatPrincipal(flows, (flow) => (flow.blockNumber === 1n ? 2 : 3)),
+    100 * 2 - 60 * 3,
+  );
+  assert.equal(fiatPrincipal(flows, (flow) => (flow.blockNumber === 1n ? 2 : null)), null);
+});
@@ -0,0 +1,162 @@
+/**
+ * Personal profit and loss from an account's share flows. Deposits and
+ * incoming stQRL transfers add principal, claims and outgoing transfers take
+ * it back out (transfers valued at the exchange rate of their block). Rewards
+ * and slashing are split out by replaying the rate history against the shares
+ * held at each change. Withdrawal requests don't count: locked shares keep
+ * earning and bearing losses until they are claimed.
+ */
+
+import type { IndexedLog } from "./eventIndex.ts";
+import type { RatePoint } from "./rateHistory.ts";
+
+/** One change to the account's shares, oldest first. */
+export interface ShareFlow {
+  blockNumber: bigint;
+  /** Signed: positive in, negative out. */
+  shares: bigint;
+  /** QRL put in (positive) or taken out (negative). */
+  principal: bigint;
+}
+
+export interface PnlSummary {
+  /** QRL put in minus QRL taken out. */
+  netPrincipal: bigint;
+  currentValue: bigint;
+  /** currentValue - netPrincipal. */
+  profit: bigint;
+  /** Rate gains on the shares held at the time. */
+  rewards: bigint;
+  /** Rate losses on the shares held at the time, as a positive amount. */
+  slashing: bigint;
+  /**
+   * Profit over time-weighted principal (modified Dietz), annualized without
+   * compounding; null without a deposit to measure from.
+   */
+  annualizedReturn: number | null;
+}
+
+/** The parts of an activity row a flow needs. */
+export interface ActivityInput {
+  type: string;
+  qrlAmount: bigint | null;
+  shares: bigint | null;
+  blockNumber: bigint;
+}
+
+const RATE_BASE = 10n ** 18n;
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+/** Mints and burns show up as Transfers from/to the zero address. */
+export const isZeroAddress = (address: string | undefined) =>
+  !address || /^(Q|0x)0{40}$/i.test(address);
+
+/**
+ * Share flows from DepositPool activity and the account's stQRL transfers.
+ * Mints and burns are skipped - the matching deposit or claim covers them.
+ */
+export function shareFlows(
+  activity: readonly ActivityInput[],
+  transfers: readonly IndexedLog[],
+  address: string,
+  rateAt: (blockNumber: bigint) => bigint,
+): ShareFlow[] {
+  const self = address.toLowerCase();
+  const flows: ShareFlow[] = [];
+  for (const row of activity) {
+    if (row.shares === null || row.qrlAmount === null) continue;
+    if (row.type === "deposit") {
+      flows.push({ blockNumber: row.blockNumber, shares: row.shares, principal: row.qrlAmount });
+    } else if (row.type === "claim") {
+      flows.push({ blockNumber: row.blockNumber, shares: -row.shares, principal: -row.qrlAmount });
+    }
+  }
+  for (const log of transfers) {
+    if (log.event !== "Transfer") continue;
+    const { from, to } = log.values;
+    if (isZeroAddress(from) || isZeroAddress(to)) continue;
+    const incoming = to.toLowerCase() === self;
+    if (incoming === (from.toLowerCase() === self)) continue; // self-transfer or unrelated
+    const shares = BigInt(log.values.value);
+    const value = (shares * rateAt(log.blockNumber)) / RATE_BASE;
+    flows.push({
+      blockNumber: log.blockNumber,
+      shares: incoming ? shares : -shares,
+      principal: incoming ? value : -value,
+    });
+  }
+  return flows.sort((a, b) =>
+    a.blockNumber === b.blockNumber ? 0 : a.blockNumber < b.blockNumber ? -1 : 1,
+  );
+}
+
+/**
+ * P&L as of `current`. A rate change and a flow in the same block are taken
+ * rate first - deposits settle pending rewards before minting.
+ */
+export function computePnl(
+  flows: readonly ShareFlow[],
+  rates: readonly RatePoint[],
+  current: { value: bigint; blockNumber: bigint },
+  blockTimeSeconds: number,
+): PnlSummary {
+  const netPrincipal = flows.reduce((sum, flow) => sum + flow.principal, 0n);
+  const profit = current.value - netPrincipal;
+
+  let rewards = 0n;
+  let slashing = 0n;
+  let next = 0;
+  let held = 0n;
+  for (let i = 1; i < rates.length; i++) {
+    const { blockNumber, rate } = rates[i];
+    while (next < flows.length && flows[next].blockNumber < blockNumber) {
+      held += flows[next++].shares;
+    }
+    const change = ((rate - rates[i - 1].rate) * held) / RATE_BASE;
+    if (change > 0n) rewards += change;
+    else slashing -= change;
+  }
+
+  return {
+    netPrincipal,
+    currentValue: current.value,
+    profit,
+    rewards,
+    slashing,
+    annualizedReturn: dietz(flows, profit, current.blockNumber, blockTimeSeconds),
+  };
+}
+
+/**
+ * Net principal in fiat, each flow at its own price (e.g. that day's); null
+ * when any flow's price is unknown.
+ */
+export function fiatPrincipal(
+  flows: readonly ShareFlow[],
+  priceOf: (flow: ShareFlow) => number | null,
+): number | null {
+  let total = 0;
+  for (const flow of flows) {
+    const price = priceOf(flow);
+    if (price === null) return null;
+    total += (Number(flow.principal) / Number(RATE_BASE)) * price;
+  }
+  return total;
+}
+
+function dietz(
+  flows: readonly ShareFlow[],
+  profit: bigint,
+  endBlock: bigint,
+  blockTimeSeconds: number,
+): number | null {
+  if (flows.length === 0) return null;
+  const period = Number(endBlock - flows[0].blockNumber);
+  if (period <= 0) return null;
+  const weighted = flows.reduce(
+    (sum, flow) => sum + (Number(flow.principal) * Number(endBlock - flow.blockNumber)) / period,
+    0,
+  );
+  if (weighted <= 0) return null;
+  return ((Number(profit) / weighted) * SECONDS_PER_YEAR) / (period * blockTimeSeconds);
+}
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  addAddress,
+  EMPTY_SUMMARY,
+  MAX_SAVED_ADDRESSES,
+  parseAddressList,
+  removeAddress,
+  saveError,
+  summarizePosition,
+  sumSummaries,
+} from "./portfolio.ts";
+
+const A = `Q${"a".repeat(40)}`;
+const B = `Q${"b".repeat(40)}`;
+
+const position = (withdrawals: { qrlPayout: bigint; canClaim: boolean; claimed: boolean }[]) => ({
+  account: { shares: 10n, qrlValue: 11n, lockedShares: 4n, immatureShares: 1n },
+  withdrawals,
+});
+
+test("a position splits its open requests into waiting and claimable", () => {
+  const summary = summarizePosition(
+    position([
+      { qrlPayout: 3n, canClaim: false, claimed: false },
+      { qrlPayout: 5n, canClaim: true, claimed: false },
+      { qrlPayout: 7n, canClaim: true, claimed: false },
+      { qrlPayout: 100n, canClaim: false, claimed: true },
+    ]),
+  );
+  assert.equal(summary.pendingCount, 1);
+  assert.equal(summary.pendingQrl, 3n);
+  assert.equal(summary.claimableCount, 2);
+  assert.equal(summary.claimableQrl, 12n);
+  assert.equal(summary.lockedShares, 4n);
+});
+
+test("totals add up every field across addresses", () => {
+  const one = summarizePosition(position([{ qrlPayout: 5n, canClaim: true, claimed: false }]));
+  const total = sumSummaries([one, one]);
+  assert.equal(total.shares, 20n);
+  assert.equal(total.qrlValue, 22n);
+  assert.equal(total.immatureShares, 2n);
+  assert.equal(total.claimableCount, 2);
+  assert.equal(total.claimableQrl, 10n);
+  assert.deepEqual(sumSummaries([]), EMPTY_SUMMARY);
+});
+
+test("the saved list ignores case duplicates and stays bounded", () => {
+  const list = addAddress(addAddress([], A), A.toUpperCase());
+  assert.deepEqual(list, [A]);
+  assert.deepEqual(removeAddress([A, B], A.toUpperCase()), [B]);
+
+  const full = Array.from({ length: MAX_SAVED_ADDRESSES }, (_, i) =>
+    `Q${i.toString(16).padStart(40, "0")}`,
+  );
+  assert.equal(addAddress(full, B).length, MAX_SAVED_ADDRESSES);
+  assert.match(saveError(full, B) ?? "", /Up to 20 addresses/);
+  assert.equal(saveError(full, full[0]), null);
+  assert.equal(saveError([A], B), null);
+  assert.equal(saveError([A], "Qnot-an-address"), "Enter a valid Q-address");
+});
+
+test("unreadable storage yields an empty list", () => {
+  assert.deepEqual(parseAddressList(null), []);
+  assert.deepEqual(parseAddressList("{not json"), []);
+  assert.deepEqual(parseAddressList(JSON.stringify([A, "nope", A, B, 7])), [A, B]);
+});
@@ -0,0 +1,112 @@
+/**
+ * Multi-address portfolio: the saved address list and the figures the
+ * portfolio page shows per address and in total. Kept free of MobX and web3
+ * so it can be unit tested.
+ */
+
+import { isQrlAddress } from "./qrlAddress.ts";
+
+/** Each saved address adds reads to every portfolio refresh - keep it bounded. */
+export const MAX_SAVED_ADDRESSES = 20;
+
+/** The parts of an account position the summary needs. */
+export interface PositionInput {
+  account: { shares: bigint; qrlValue: bigint; lockedShares: bigint; immatureShares: bigint };
+  withdrawals: readonly { qrlPayout: bigint; canClaim: boolean; claimed: boolean }[];
+}
+
+export interface PositionSummary {
+  shares: bigint;
+  qrlValue: bigint;
+  lockedShares: bigint;
+  immatureShares: bigint;
+  /** Requests still waiting out the withdrawal delay. */
+  pendingCount: number;
+  pendingQrl: bigint;
+  /** Requests that can be claimed now. */
+  claimableCount: number;
+  claimableQrl: bigint;
+}
+
+export const EMPTY_SUMMARY: PositionSummary = {
+  shares: 0n,
+  qrlValue: 0n,
+  lockedShares: 0n,
+  immatureShares: 0n,
+  pendingCount: 0,
+  pendingQrl: 0n,
+  claimableCount: 0,
+  claimableQrl: 0n,
+};
+
+export function summarizePosition({ account, withdrawals }: PositionInput): PositionSummary {
+  const open = withdrawals.filter((w) => !w.claimed);
+  const claimable = open.filter((w) => w.canClaim);
+  const waiting = open.filter((w) => !w.canClaim);
+  const sum = (list: readonly { qrlPayout: bigint }[]) =>
+    list.reduce((total, w) => total + w.qrlPayout, 0n);
+  return {
+    shares: account.shares,
+    qrlValue: account.qrlValue,
+    lockedShares: account.lockedShares,
+    immatureShares: account.immatureShares,
+    pendingCount: waiting.length,
+    pendingQrl: sum(waiting),
+    claimableCount: claimable.length,
+    claimableQrl: sum(claimable),
+  };
+}
+
+export function sumSummaries(summaries: readonly PositionSummary[]): PositionSummary {
+  return summaries.reduce(
+    (total, s) => ({
+      shares: total.shares + s.shares,
+      qrlValue: total.qrlValue + s.qrlValue,
+      lockedShares: total.lockedShares + s.lockedShares,
+      immatureShares: total.immatureShares + s.immatureShares,
+      pendingCount: total.pendingCount + s.pendingCount,
+      pendingQrl: total.pendingQrl + s.pendingQrl,
+      claimableCount: total.claimableCount + s.claimableCount,
+      claimableQrl: total.claimableQrl + s.claimableQrl,
+    }),
+    EMPTY_SUMMARY,
+  );
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Why `address` can't be added to `list`, or null when `addAddress` will keep
+ * it (including when it is already saved).
+ */
+export function saveError(list: readonly string[], address: string): string | null {
+  if (!isQrlAddress(address)) return "Enter a valid Q-address";
+  if (list.some((saved) => sameAddress(saved, address))) return null;
+  if (list.length >= MAX_SAVED_ADDRESSES) {
+    return `Up to ${MAX_SAVED_ADDRESSES} addresses can be saved`;
+  }
+  return null;
+}
+
+/** `list` plus `address` (appended), or unchanged if it is already saved or full. */
+export function addAddress(list: readonly string[], address: string): string[] {
+  if (list.some((saved) => sameAddress(saved, address))) return [...list];
+  if (list.length >= MAX_SAVED_ADDRESSES) return [...list];
+  return [...list, address];
+}
+
+export function removeAddress(list: readonly string[], address: string): string[] {
+  return list.filter((saved) => !sameAddress(saved, address));
+}
+
+/** Parse the persisted list, dropping anything that isn't a Q-address. */
+export function parseAddressList(raw: string | null): string[] {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(isQrlAddress).reduce<string[]>(addAddress, []);
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  aggregateCurrent,
+  aggregateHistorical,
+  median,
+  utcDay,
+  type PriceProvider,
+} from "./price.ts";
+
+const provider = (
+  name: string,
+  price: number | null | Error,
+  history?: number | null,
+): PriceProvider => ({
+  name,
+  current: async () => {
+    if (price instanceof Error) throw price;
+    return price === null ? null : { price, change24h: price * 10 };
+  },
+  ...(history === undefined ? {} : { historical: async () => history }),
+});
+
+test("median of odd and even sets, ignoring missing values", () => {
+  assert.equal(median([3, null, 1, 2]), 2);
+  assert.equal(median([4, 1, 3, 2]), 2.5);
+  assert.equal(median([null, Number.NaN]), null);
+});
+
+test("the current price is the median of the sources that answer", async () => {
+  const quote = await aggregateCurrent(
+    [
+      provider("a", 1),
+      provider("b", 100), // outlier
+      provider("c", 1.2),
+      provider("d", null), // doesn't quote this currency
+      provider("e", new Error("down")),
+    ],
+    "eur",
+  );
+  assert.deepEqual(quote, { price: 1.2, change24h: 12, sources: ["a", "b", "c"] });
+  assert.equal(await aggregateCurrent([provider("d", null)], "eur"), null);
+});
+
+test("historical prices come from the sources that keep history", async () => {
+  const price = await aggregateHistorical(
+    [provider("a", 1, 0.5), provider("b", 1), provider("c", 1, 0.7), provider("d", 1, null)],
+    "usd",
+    "2024-01-01",
+  );
+  assert.ok(price !== null && Math.abs(price - 0.6) < 1e-12);
+  assert.equal(utcDay(Date.parse("2024-01-01T23:59:59Z") / 1000), "2024-01-01");
+});
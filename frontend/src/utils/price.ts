@@ -0,0 +1,84 @@
+/**
+ * QRL price aggregation. Each source implements PriceProvider; the app shows
+ * the median of whichever sources answer, so one stale or broken feed can't
+ * move the figure on its own. Kept free of fetch specifics so it can be unit
+ * tested - the real sources live in priceProviders.ts.
+ */
+
+export const FIAT_CURRENCIES = ["usd", "eur", "gbp", "chf"] as const;
+export type FiatCurrency = (typeof FIAT_CURRENCIES)[number];
+
+export interface PriceQuote {
+  /** Fiat per QRL. */
+  price: number;
+  /** 24h change in percent, when the source reports one. */
+  change24h: number | null;
+}
+
+export interface PriceProvider {
+  name: string;
+  /** Current price, or null when the source doesn't quote `currency`. */
+  current(currency: FiatCurrency): Promise<PriceQuote | null>;
+  /** Daily price for a UTC day ("YYYY-MM-DD"); absent when the source has no history. */
+  historical?(currency: FiatCurrency, day: string): Promise<number | null>;
+}
+
+export interface AggregatedQuote extends PriceQuote {
+  /** Names of the sources the median was taken over. */
+  sources: string[];
+}
+
+export const isFiatCurrency = (value: unknown): value is FiatCurrency =>
+  (FIAT_CURRENCIES as readonly unknown[]).includes(value);
+
+/** Median of the finite values; null when there are none. */
+export function median(values: readonly (number | null)[]): number | null {
+  const sorted = values
+    .filter((value): value is number => value !== null && Number.isFinite(value))
+    .sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** The UTC day of a unix time, as "YYYY-MM-DD". */
+export const utcDay = (timestamp: number): string =>
+  new Date(timestamp * 1000).toISOString().slice(0, 10);
+
+/** Ask every source at once; failures and non-answers are left out. */
+export async function aggregateCurrent(
+  providers: readonly PriceProvider[],
+  currency: FiatCurrency,
+): Promise<AggregatedQuote | null> {
+  const results = await Promise.allSettled(providers.map((p) => p.current(currency)));
+  const answered = results.flatMap((result, i) =>
+    result.status === "fulfilled" && result.value !== null && result.value.price > 0
+      ? [{ name: providers[i].name, quote: result.value }]
+      : [],
+  );
+  const price = median(answered.map(({ quote }) => quote.price));
+  if (price === null) return null;
+  return {
+    price,
+    change24h: median(answered.map(({ quote }) => quote.change24h)),
+    sources: answered.map(({ name }) => name),
+  };
+}
+
+/** Median daily price across the sources that keep history. */
+export async function aggregateHistorical(
+  providers: readonly PriceProvider[],
+  currency: FiatCurrency,
+  day: string,
+): Promise<number | null> {
+  const results = await Promise.allSettled(
+    providers.flatMap((p) => (p.historical ? [p.historical(currency, day)] : [])),
+  );
+  return median(
+    results.map((result) =>
+      result.status === "fulfilled" && result.value !== null && result.value > 0
+        ? result.value
+        : null,
+    ),
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * The QRL price sources behind PriceStore. Each answers null for a currency
+ * it doesn't quote and throws on transport errors; the aggregation in
+ * price.ts treats both as "no answer".
+ */
+
+import type { PriceProvider } from "./price.ts";
+
+const COINGECKO_API = "https://api.coingecko.com/api/v3";
+const COINGECKO_ID = "quantum-resistant-ledger";
+const COINPAPRIKA_API = "https://api.coinpaprika.com/v1";
+const COINPAPRIKA_ID = "qrl-quantum-resistant-ledger";
+
+async function getJson(url: string): Promise<unknown> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url} answered ${res.status}`);
+  return res.json();
+}
+
+const numberOrNull = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+/** Zondscan's overview endpoint (the one myqrlwallet-frontend uses); USD only, no history. */
+export function zondscanProvider(explorer: () => string): PriceProvider {
+  return {
+    name: "Zondscan",
+    async current(currency) {
+      if (currency !== "usd") return null;
+      const data = (await getJson(`${explorer()}/api/overview`)) as {
+        currentPrice?: unknown;
+        priceChange24h?: unknown;
+      };
+      const price = numberOrNull(data.currentPrice);
+      return price === null ? null : { price, change24h: numberOrNull(data.priceChange24h) };
+    },
+  };
+}
+
+export const coinGeckoProvider: PriceProvider = {
+  name: "CoinGecko",
+  async current(currency) {
+    const data = (await getJson(
+      `${COINGECKO_API}/simple/price?ids=${COINGECKO_ID}&vs_currencies=${currency}` +
+        "&include_24hr_change=true",
+    )) as Record<string, Record<string, unknown> | undefined>;
+    const quote = data[COINGECKO_ID];
+    const price = numberOrNull(quote?.[currency]);
+    if (price === null) return null;
+    return { price, change24h: numberOrNull(quote?.[`${currency}_24h_change`]) };
+  },
+  async historical(currency, day) {
+    const [year, month, date] = day.split("-");
+    const data = (await getJson(
+      `${COINGECKO_API}/coins/${COINGECKO_ID}/history?date=${date}-${month}-${year}` +
+        "&localization=false",
+    )) as { market_data?: { current_price?: Record<string, unknown> } };
+    return numberOrNull(data.market_data?.current_price?.[currency]);
+  },
+};
+
+export const coinPaprikaProvider: PriceProvider = {
+  name: "CoinPaprika",
+  async current(currency) {
+    const code = currency.toUpperCase();
+    const data = (await getJson(
+      `${COINPAPRIKA_API}/tickers/${COINPAPRIKA_ID}?quotes=${code}`,
+    )) as { quotes?: Record<string, { price?: unknown; percent_change_24h?: unknown }> };
+    const quote = data.quotes?.[code];
+    const price = numberOrNull(quote?.price);
+    return price === null ? null : { price, change24h: numberOrNull(quote?.percent_change_24h) };
+  },
+  // Daily history is only quoted in USD.
+  async historical(currency, day) {
+    if (currency !== "usd") return null;
+    const data = (await getJson(
+      `${COINPAPRIKA_API}/tickers/${COINPAPRIKA_ID}/historical?start=${day}&interval=1d&limit=1`,
+    )) as { price?: unknown }[];
+    return Array.isArray(data) ? numberOrNull(data[0]?.price) : null;
+  },
+};
@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { IndexedLog } from "./eventIndex.ts";
+import { annualizedRate, buildRateHistory, downsample, rateAt } from "./rateHistory.ts";
+
+const E18 = 10n ** 18n;
+const ether = (n: number) => BigInt(n) * E18;
+
+const log = (
+  event: string,
+  blockNumber: bigint,
+  tx: string,
+  values: Record<string, bigint>,
+  logIndex = 0,
+): IndexedLog => ({
+  event,
+  blockNumber,
+  logIndex,
+  transactionHash: tx,
+  values: Object.fromEntries(Object.entries(values).map(([k, v]) => [k, v.toString()])),
+});
+
+// Deposit 100 at block 10, rewards of 10 at block 20, deposit 11 at block 30.
+const logs = [
+  log("TotalPooledQRLUpdated", 10n, "0xa", { previousAmount: 0n, newAmount: ether(100) }),
+  log("RewardsSynced", 20n, "0xb", {
+    rewardsAmount: ether(10),
+    newTotalPooled: ether(110),
+    blockNumber: 20n,
+  }),
+  log(
+    "TotalPooledQRLUpdated",
+    20n,
+    "0xb",
+    { previousAmount: ether(100), newAmount: ether(110) },
+    1,
+  ),
+  log("TotalPooledQRLUpdated", 30n, "0xc", { previousAmount: ether(110), newAmount: ether(121) }),
+];
+const now = { blockNumber: 40n, rate: (E18 * 11n) / 10n, totalPooled: ether(121) };
+
+test("the rate is walked back through rewards and left alone by deposits", () => {
+  const points = buildRateHistory(logs, now);
+  assert.deepEqual(
+    points.map((p) => p.blockNumber),
+    [10n, 20n, 30n, 40n],
+  );
+  // 1.1 before the reward sync undoes to ~1.0 (virtual offsets cost a few wei).
+  const inception = points[0].rate;
+  assert.ok(inception > E18 - 1000n && inception <= E18);
+  assert.equal(points[1].rate, now.rate);
+  assert.equal(points[2].rate, now.rate);
+  assert.equal(points[2].totalPooled, ether(121));
+});
+
+test("reward events still count when the stQRL logs are missing", () => {
+  const partial = logs.filter(
+    (entry) => entry.event === "RewardsSynced" || entry.transactionHash !== "0xb",
+  );
+  const points = buildRateHistory(partial, now);
+  assert.equal(points.length, 4);
+  assert.ok(points[0].rate < now.rate);
+  assert.equal(points[1].totalPooled, ether(110));
+});
+
+test("a claim that syncs rewards first only moves the rate by the sync", () => {
+  // Deposit 100 at block 10. At block 20 a claim syncs 10 of rewards, then pays
+  // out 11 (10 shares at 1.1): two pooled updates in one transaction.
+  const claim = [
+    log("TotalPooledQRLUpdated", 10n, "0xa", { previousAmount: 0n, newAmount: ether(100) }),
+    log("TotalPooledQRLUpdated", 20n, "0xf", {
+      previousAmount: ether(100),
+      newAmount: ether(110),
+    }),
+    log(
+      "RewardsSynced",
+      20n,
+      "0xf",
+      { rewardsAmount: ether(10), newTotalPooled: ether(110), blockNumber: 20n },
+      1,
+    ),
+    log(
+      "TotalPooledQRLUpdated",
+      20n,
+      "0xf",
+      { previousAmount: ether(110), newAmount: ether(99) },
+      2,
+    ),
+  ];
+  const after = { blockNumber: 30n, rate: (E18 * 11n) / 10n, totalPooled: ether(99) };
+  const [inception, claimed, latest] = buildRateHistory(claim, after);
+  assert.ok(inception.rate > E18 - 1000n && inception.rate <= E18);
+  assert.equal(claimed.rate, after.rate);
+  assert.equal(claimed.totalPooled, ether(99));
+  assert.equal(latest, after);
+});
+
+test("slashing lowers the rate going forward", () => {
+  const slashed = [
+    log("TotalPooledQRLUpdated", 1n, "0xd", { previousAmount: 0n, newAmount: ether(100) }),
+    log("SlashingDetected", 5n, "0xe", {
+      lossAmount: ether(10),
+      newTotalPooled: ether(90),
+      blockNumber: 5n,
+    }),
+  ];
+  const after = { blockNumber: 6n, rate: (E18 * 9n) / 10n, totalPooled: ether(90) };
+  const [deposit, slash] = buildRateHistory(slashed, after);
+  assert.ok(deposit.rate > slash.rate);
+  assert.equal(slash.rate, after.rate);
+  assert.equal(slash.totalPooled, ether(90));
+});
+
+test("rate lookups and annualizing", () => {
+  const points = buildRateHistory(logs, now);
+  assert.equal(rateAt(points, 5n), null);
+  assert.equal(rateAt(points, 25n), now.rate);
+  // 10% over half a year is 20% a year.
+  const apr = annualizedRate(E18, (E18 * 11n) / 10n, (365 * 24 * 60 * 60) / 2);
+  assert.ok(apr !== null && Math.abs(apr - 0.2) < 1e-9);
+  assert.equal(annualizedRate(0n, E18, 100), null);
+});
+
+test("downsampling keeps both ends", () => {
+  const sampled = downsample([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 4);
+  assert.equal(sampled.length, 4);
+  assert.equal(sampled[0], 1);
+  assert.equal(sampled[3], 10);
+  assert.deepEqual(downsample([1, 2], 4), [1, 2]);
+});
@@ -0,0 +1,135 @@
+/**
+ * stQRL exchange-rate history rebuilt from events. Only reward syncs and
+ * slashing move the rate: deposits and claims change pooled QRL and shares in
+ * proportion. So the series is anchored at the current on-chain rate and
+ * walked backwards, undoing each RewardsSynced / SlashingDetected in turn. The
+ * stQRL TotalPooledQRLUpdated event the sync logged gives the exact pooled
+ * total before and after; every other one (including a claim's payout in the
+ * same transaction) adds a point with an unchanged rate, so the series also
+ * carries total pooled QRL over time.
+ */
+
+import type { IndexedLog } from "./eventIndex.ts";
+
+export interface RatePoint {
+  blockNumber: bigint;
+  /** QRL per stQRL share after the block, 1e18-scaled. */
+  rate: bigint;
+  totalPooled: bigint;
+}
+
+/** DepositPool events that move the rate. */
+export const RATE_EVENTS = ["RewardsSynced", "SlashingDetected"] as const;
+/** stQRL event emitted on every change to pooled QRL. */
+export const POOLED_EVENT = "TotalPooledQRLUpdated";
+
+/** stQRL's virtual offset on pooled QRL (see getExchangeRate). */
+const VIRTUAL_ASSETS = 1000n;
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+const isRateEvent = (log: IndexedLog) =>
+  (RATE_EVENTS as readonly string[]).includes(log.event);
+
+const logKey = (log: IndexedLog) => `${log.transactionHash}:${log.logIndex}`;
+
+/**
+ * Keys of the pooled updates that carry a rate change, and of the rate events
+ * they stand for. A sync logs its update on the new total just before the
+ * rate event; a claim that syncs first logs a second update for the payout,
+ * which must not move the rate.
+ */
+function rateUpdates(logs: readonly IndexedLog[]): { pooled: Set<string>; matched: Set<string> } {
+  const pooled = new Set<string>();
+  const matched = new Set<string>();
+  for (const rateLog of logs.filter(isRateEvent)) {
+    const candidates = logs.filter(
+      (log) =>
+        log.event === POOLED_EVENT &&
+        log.transactionHash === rateLog.transactionHash &&
+        log.values.newAmount === rateLog.values.newTotalPooled &&
+        !pooled.has(logKey(log)),
+    );
+    // Nearest the rate event, preferring the update logged before it.
+    const distance = (log: IndexedLog) =>
+      log.logIndex < rateLog.logIndex
+        ? rateLog.logIndex - log.logIndex
+        : log.logIndex - rateLog.logIndex + 0.5;
+    const update = candidates.sort((a, b) => distance(a) - distance(b))[0];
+    if (!update) continue;
+    pooled.add(logKey(update));
+    matched.add(logKey(rateLog));
+  }
+  return { pooled, matched };
+}
+
+/** Pooled QRL before and after one change. */
+function poolChange(log: IndexedLog): { before: bigint; after: bigint } {
+  if (log.event === POOLED_EVENT) {
+    return { before: BigInt(log.values.previousAmount), after: BigInt(log.values.newAmount) };
+  }
+  const after = BigInt(log.values.newTotalPooled);
+  return log.event === "RewardsSynced"
+    ? { before: after - BigInt(log.values.rewardsAmount), after }
+    : { before: after + BigInt(log.values.lossAmount), after };
+}
+
+/**
+ * Rate series, oldest first, one point per block with a pool change plus
+ * `now`. `logs` holds the rate and pooled events up to `now.blockNumber`, in
+ * any order.
+ */
+export function buildRateHistory(logs: readonly IndexedLog[], now: RatePoint): RatePoint[] {
+  const updates = rateUpdates(logs);
+  const newestFirst = [...logs].sort((a, b) =>
+    a.blockNumber === b.blockNumber
+      ? b.logIndex - a.logIndex
+      : a.blockNumber > b.blockNumber
+        ? -1
+        : 1,
+  );
+
+  const points: RatePoint[] = [now];
+  let rate = now.rate;
+  for (const log of newestFirst) {
+    if (log.blockNumber > now.blockNumber) continue;
+    // A pool event stands for its own change; a rate event only when its
+    // stQRL update is missing (e.g. not yet indexed).
+    const movesRate =
+      updates.pooled.has(logKey(log)) || (isRateEvent(log) && !updates.matched.has(logKey(log)));
+    if (log.event !== POOLED_EVENT && !movesRate) continue;
+    const { before, after } = poolChange(log);
+    // The newest state in each block wins - we walk newest first.
+    if (points[points.length - 1].blockNumber !== log.blockNumber) {
+      points.push({ blockNumber: log.blockNumber, rate, totalPooled: after });
+    }
+    if (movesRate && after + VIRTUAL_ASSETS > 0n) {
+      rate = (rate * (before + VIRTUAL_ASSETS)) / (after + VIRTUAL_ASSETS);
+    }
+  }
+  return points.reverse();
+}
+
+/** The rate in force at `blockNumber`; null before the history starts. */
+export function rateAt(points: readonly RatePoint[], blockNumber: bigint): bigint | null {
+  let found: bigint | null = null;
+  for (const point of points) {
+    if (point.blockNumber > blockNumber) break;
+    found = point.rate;
+  }
+  return found;
+}
+
+/** Simple (non-compounded) annual rate, as a fraction, of a rate change over time. */
+export function annualizedRate(from: bigint, to: bigint, elapsedSeconds: number): number | null {
+  if (from <= 0n || elapsedSeconds <= 0) return null;
+  const growth = Number(((to - from) * 10n ** 18n) / from) / 1e18;
+  return (growth * SECONDS_PER_YEAR) / elapsedSeconds;
+}
+
+/** At most `max` points, evenly spaced, always keeping the first and last. */
+export function downsample<T>(points: readonly T[], max: number): T[] {
+  if (points.length <= max || max < 2) return [...points];
+  const step = (points.length - 1) / (max - 1);
+  return Array.from({ length: max }, (_, i) => points[Math.round(i * step)]);
+}
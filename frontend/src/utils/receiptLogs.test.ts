@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { createReceiptDecoder, type LogCoder } from "./receiptLogs.ts";
+
+const POOL = "Q00000000000000000000000000000000000000aa";
+
+// Topics are the signature itself; data carries the non-indexed values as JSON.
+const coder: LogCoder = {
+  encodeEventSignature: (signature) => signature,
+  decodeLog: (inputs, data, topics) => {
+    const values = JSON.parse(data) as Record<string, unknown>;
+    const indexed = inputs.filter((input) => input.indexed);
+    indexed.forEach((input, i) => (values[input.name] = topics[i]));
+    return values;
+  },
+};
+
+const decode = createReceiptDecoder(coder, POOL);
+
+test("pool events in a receipt decode to indexed-log entries", () => {
+  const [log] = decode([
+    {
+      address: POOL.toUpperCase(),
+      topics: ["Deposited(address,uint256,uint256)", "Quser"],
+      data: JSON.stringify({ qrlAmount: 100n.toString(), sharesReceived: "99" }),
+      logIndex: "0x2",
+      blockNumber: "0x10",
+      transactionHash: "0xabc",
+    },
+  ]);
+  assert.deepEqual(log, {
+    event: "Deposited",
+    blockNumber: 16n,
+    logIndex: 2,
+    transactionHash: "0xabc",
+    values: { user: "Quser", qrlAmount: "100", sharesReceived: "99" },
+  });
+});
+
+test("logs from other contracts and unknown events are skipped", () => {
+  const transfer = { topics: ["Transfer(address,address,uint256)"], data: "{}" };
+  const token = "Q00000000000000000000000000000000000000bb";
+  assert.deepEqual(decode([{ ...transfer, address: token }]), []);
+  assert.deepEqual(decode([{ ...transfer, address: POOL }]), []);
+});
@@ -0,0 +1,75 @@
+/**
+ * Receipt log decoding. A confirmed transaction's receipt already carries the
+ * DepositPool events it emitted, so its outcome (shares minted, QRL paid out,
+ * request cancelled) is known without a log query. Decoded logs use the
+ * event index's shape so they can join the activity list as they are. The
+ * ABI coder is injected (keccak lives in web3), so this stays unit-testable.
+ */
+
+import { DepositPoolV2ABI } from "../abi/DepositPoolV2.ts";
+import type { IndexedLog } from "./eventIndex.ts";
+
+/** A log as it appears in `qrl_getTransactionReceipt`. */
+export interface RawLog {
+  address?: string;
+  topics?: readonly string[];
+  data?: string;
+  logIndex?: unknown;
+  blockNumber?: unknown;
+  transactionHash?: string;
+}
+
+interface EventInput {
+  name: string;
+  type: string;
+  indexed?: boolean;
+}
+
+/** Subset of `web3.qrl.abi` the decoder needs. */
+export interface LogCoder {
+  encodeEventSignature(signature: string): string;
+  /** `topics` without topic 0 (the event signature). */
+  decodeLog(inputs: readonly EventInput[], data: string, topics: readonly string[]): unknown;
+}
+
+type AbiEntry = { type: string; name?: string; inputs?: readonly EventInput[] };
+
+/**
+ * Build a decoder for DepositPool receipt logs emitted by `poolAddress`.
+ * Logs from other contracts (stQRL's Transfer, ...) are skipped.
+ */
+export function createReceiptDecoder(
+  coder: LogCoder,
+  poolAddress: string,
+): (logs: readonly RawLog[]) => IndexedLog[] {
+  const byTopic = new Map<string, { name: string; inputs: readonly EventInput[] }>();
+  for (const item of DepositPoolV2ABI as readonly AbiEntry[]) {
+    if (item.type !== "event" || !item.name) continue;
+    const inputs = item.inputs ?? [];
+    const topic = coder.encodeEventSignature(
+      `${item.name}(${inputs.map((input) => input.type).join(",")})`,
+    );
+    byTopic.set(topic.toLowerCase(), { name: item.name, inputs });
+  }
+
+  return (logs) =>
+    logs.flatMap((log) => {
+      if (log.address?.toLowerCase() !== poolAddress.toLowerCase()) return [];
+      const [topic, ...indexed] = log.topics ?? [];
+      const event = topic ? byTopic.get(topic.toLowerCase()) : undefined;
+      if (!event) return [];
+      const decoded = coder.decodeLog(event.inputs, log.data ?? "0x", indexed) as Record<
+        string,
+        unknown
+      >;
+      const values: Record<string, string> = {};
+      for (const input of event.inputs) values[input.name] = String(decoded[input.name]);
+      return {
+        event: event.name,
+        blockNumber: BigInt(String(log.blockNumber ?? 0)),
+        logIndex: Number(log.logIndex ?? 0),
+        transactionHash: log.transactionHash ?? "",
+        values,
+      };
+    });
+}
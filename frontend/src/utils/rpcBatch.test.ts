@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { RpcBatch, RpcResponseError, toBlockTag, type JsonRpcRequest } from "./rpcBatch.ts";
+
+test("queued reads share one round trip and match replies by id", async () => {
+  const sent: JsonRpcRequest[][] = [];
+  const batch = new RpcBatch(async (payload) => {
+    sent.push(payload);
+    // Reply out of order, as some proxies do.
+    return [...payload].reverse().map((request) => ({
+      jsonrpc: "2.0",
+      id: request.id,
+      result: `${request.method}:${String(request.params[0])}`,
+    }));
+  });
+
+  const first = batch.add("qrl_call", ["a"], String);
+  const second = batch.add("qrl_getBalance", ["b"], String);
+  assert.equal(batch.size, 2);
+  await batch.flush();
+
+  assert.equal(sent.length, 1);
+  assert.equal(await first, "qrl_call:a");
+  assert.equal(await second, "qrl_getBalance:b");
+  assert.equal(batch.size, 0);
+});
+
+test("a JSON-RPC error rejects only its own request", async () => {
+  const batch = new RpcBatch(async (payload) =>
+    payload.map((request) =>
+      request.method === "qrl_call"
+        ? { id: request.id, error: { code: -32000, message: "execution reverted", data: "0x" } }
+        : { id: request.id, result: "0x10" },
+    ),
+  );
+
+  const reverted = batch.add("qrl_call", [], String);
+  const balance = batch.add("qrl_getBalance", [], (value) => BigInt(String(value)));
+  await batch.flush();
+
+  await assert.rejects(reverted, (error: unknown) => {
+    assert.ok(error instanceof RpcResponseError);
+    assert.equal(error.code, -32000);
+    assert.equal(error.message, "execution reverted");
+    return true;
+  });
+  assert.equal(await balance, 16n);
+});
+
+test("transport failures and missing replies reject the affected requests", async () => {
+  const failing = new RpcBatch(async () => {
+    throw new Error("network down");
+  });
+  const lost = failing.add("qrl_call", [], String);
+  await failing.flush();
+  await assert.rejects(lost, /network down/);
+
+  const partial = new RpcBatch(async () => []);
+  const missing = partial.add("qrl_blockNumber", [], String);
+  await partial.flush();
+  await assert.rejects(missing, /No response for qrl_blockNumber/);
+});
+
+test("large batches are split into capped chunks", async () => {
+  const sizes: number[] = [];
+  const batch = new RpcBatch(async (payload) => {
+    sizes.push(payload.length);
+    return payload.map((request) => ({ id: request.id, result: request.id }));
+  }, 2);
+
+  const results = [1, 2, 3, 4, 5].map(() => batch.add("qrl_call", [], Number));
+  await batch.flush();
+
+  assert.deepEqual(sizes, [2, 2, 1]);
+  assert.deepEqual(await Promise.all(results), [1, 2, 3, 4, 5]);
+});
+
+test("block tags are 0x-prefixed hex", () => {
+  assert.equal(toBlockTag(0n), "0x0");
+  assert.equal(toBlockTag(255n), "0xff");
+});
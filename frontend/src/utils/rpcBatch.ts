@@ -0,0 +1,129 @@
+/**
+ * JSON-RPC 2.0 batching. Reads are queued with `add()`, each getting its own
+ * promise, and `flush()` sends everything queued so far in as few HTTP round
+ * trips as the endpoint allows. Kept free of web3 so it can be unit tested.
+ */
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id: number;
+  method: string;
+  params: unknown[];
+}
+
+interface JsonRpcResponse {
+  id?: unknown;
+  result?: unknown;
+  error?: { code?: unknown; message?: unknown; data?: unknown };
+}
+
+/** Sends one batch payload and resolves with the raw (parsed JSON) reply. */
+export type BatchTransport = (payload: JsonRpcRequest[]) => Promise<unknown>;
+
+/** A JSON-RPC error object returned for one request in a batch. */
+export class RpcResponseError extends Error {
+  readonly code: number | null;
+  readonly data: unknown;
+
+  constructor(message: string, code: number | null, data: unknown) {
+    super(message);
+    this.name = "RpcResponseError";
+    this.code = code;
+    this.data = data;
+  }
+}
+
+interface QueuedRequest {
+  request: JsonRpcRequest;
+  decode: (result: unknown) => unknown;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+/** Most public RPC proxies cap batch length; stay well under common limits. */
+export const MAX_BATCH_SIZE = 50;
+
+/** 0x-hex block tag for pinning reads to one block. */
+export const toBlockTag = (blockNumber: bigint): string => `0x${blockNumber.toString(16)}`;
+
+export class RpcBatch {
+  private queue: QueuedRequest[] = [];
+  private nextId = 1;
+  private readonly transport: BatchTransport;
+  private readonly maxBatchSize: number;
+
+  constructor(transport: BatchTransport, maxBatchSize = MAX_BATCH_SIZE) {
+    this.transport = transport;
+    this.maxBatchSize = maxBatchSize;
+  }
+
+  get size(): number {
+    return this.queue.length;
+  }
+
+  /** Queue a request; the promise settles when the batch is flushed. */
+  add<T>(method: string, params: unknown[], decode: (result: unknown) => T): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        request: { jsonrpc: "2.0", id: this.nextId++, method, params },
+        decode,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+    });
+  }
+
+  /**
+   * Send every queued request. Individual JSON-RPC errors reject only their
+   * own promise; a transport failure rejects every request in that chunk.
+   */
+  async flush(): Promise<void> {
+    const queued = this.queue;
+    this.queue = [];
+    const chunks: QueuedRequest[][] = [];
+    for (let i = 0; i < queued.length; i += this.maxBatchSize) {
+      chunks.push(queued.slice(i, i + this.maxBatchSize));
+    }
+    await Promise.all(chunks.map((chunk) => this.sendChunk(chunk)));
+  }
+
+  private async sendChunk(chunk: QueuedRequest[]): Promise<void> {
+    let reply: unknown;
+    try {
+      reply = await this.transport(chunk.map((entry) => entry.request));
+    } catch (error) {
+      for (const entry of chunk) entry.reject(error);
+      return;
+    }
+
+    // Responses may arrive in any order - match them back up by id.
+    const byId = new Map<number, JsonRpcResponse>();
+    if (Array.isArray(reply)) {
+      for (const item of reply as JsonRpcResponse[]) {
+        if (typeof item?.id === "number") byId.set(item.id, item);
+      }
+    }
+
+    for (const entry of chunk) {
+      const response = byId.get(entry.request.id);
+      if (!response) {
+        entry.reject(new Error(`No response for ${entry.request.method}`));
+      } else if (response.error) {
+        const { code, message, data } = response.error;
+        entry.reject(
+          new RpcResponseError(
+            typeof message === "string" && message ? message : "RPC request failed",
+            typeof code === "number" ? code : null,
+            data,
+          ),
+        );
+      } else {
+        try {
+          entry.resolve(entry.decode(response.result));
+        } catch (error) {
+          entry.reject(error);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  bumpFees,
+  DROP_AFTER_HEADS,
+  MAX_TRACKED,
+  nextTxState,
+  parseQueue,
+  pruneQueue,
+  txOutcome,
+  type TrackedTx,
+} from "./txQueue.ts";
+
+const tracked = (overrides: Partial<TrackedTx> = {}): TrackedTx => ({
+  hash: "0xabc",
+  label: "Stake",
+  networkId: "TEST_NET",
+  from: "Q1234",
+  params: { to: "Q9999", value: "1000", data: "0xd0e30db0" },
+  preview: null,
+  outcome: null,
+  replacement: null,
+  state: "pending",
+  nonce: null,
+  unseenHeads: 0,
+  blockNumber: null,
+  submittedAt: 1,
+  ...overrides,
+});
+
+test("a receipt settles the entry as confirmed or failed", () => {
+  const mined = { status: 1n, blockNumber: 42n };
+  const confirmed = nextTxState(tracked(), { receipt: mined, nonce: 7, minedNonce: 8 });
+  assert.equal(confirmed.state, "confirmed");
+  assert.equal(confirmed.blockNumber, "42");
+
+  const reverted = { status: 0n, blockNumber: 42n };
+  const failed = nextTxState(tracked(), { receipt: reverted, nonce: 7, minedNonce: 8 });
+  assert.equal(failed.state, "failed");
+});
+
+test("a mined nonce without our receipt means the transaction was replaced", () => {
+  const seen = nextTxState(tracked(), { receipt: null, nonce: 7, minedNonce: 7 });
+  assert.equal(seen.state, "pending");
+  assert.equal(seen.nonce, 7);
+
+  // The node may forget the hash once the replacement is mined; the nonce is remembered.
+  assert.equal(nextTxState(seen, { receipt: null, nonce: null, minedNonce: 8 }).state, "replaced");
+});
+
+test("a hash the node never learns is dropped after a grace period", () => {
+  let tx = tracked();
+  for (let head = 1; head < DROP_AFTER_HEADS; head++) {
+    tx = nextTxState(tx, { receipt: null, nonce: null, minedNonce: 3 });
+    assert.equal(tx.state, "pending");
+  }
+  assert.equal(nextTxState(tx, { receipt: null, nonce: null, minedNonce: 3 }).state, "dropped");
+
+  // Seeing the hash again resets the count.
+  const seen = nextTxState(tx, { receipt: null, nonce: 3, minedNonce: 3 });
+  assert.equal(seen.unseenHeads, 0);
+});
+
+test("a replaced entry takes the outcome of whatever was mined on its nonce", () => {
+  const original = tracked({ state: "replaced", nonce: 4 });
+  const speedUp = tracked({ hash: "0xdef", replacement: "speedUp", state: "confirmed", nonce: 4 });
+  assert.deepEqual(txOutcome(original, [original, speedUp]), { ok: true, error: null });
+
+  const cancel = { ...speedUp, replacement: "cancel" as const };
+  assert.deepEqual(txOutcome(original, [original, cancel]), {
+    ok: false,
+    error: "Cancelled before it was mined",
+  });
+
+  const lateCancel = { ...cancel, state: "replaced" as const };
+  const mined = { ...original, state: "confirmed" as const };
+  assert.match(txOutcome(lateCancel, [mined, lateCancel]).error ?? "", /Too late to cancel/);
+
+  // Replaced by something outside the queue (another dApp, the wallet itself).
+  assert.match(txOutcome(original, [original]).error ?? "", /Replaced in your wallet/);
+});
+
+test("fee bumps clear the 10% replacement threshold on both caps", () => {
+  assert.deepEqual(bumpFees({ maxFeePerGas: 100n, maxPriorityFeePerGas: 3n }), {
+    maxFeePerGas: 125n,
+    maxPriorityFeePerGas: 4n,
+  });
+});
+
+test("pruning keeps every pending entry and the newest settled ones", () => {
+  const queue = Array.from({ length: MAX_TRACKED + 5 }, (_, i) =>
+    tracked({ hash: `0x${i}`, submittedAt: i, state: i === 0 ? "pending" : "confirmed" }),
+  );
+  const pruned = pruneQueue(queue);
+  assert.equal(pruned.length, MAX_TRACKED);
+  assert.equal(pruned[0].hash, `0x${MAX_TRACKED + 4}`);
+  assert.ok(pruned.some((tx) => tx.hash === "0x0"));
+});
+
+test("unreadable storage yields an empty queue", () => {
+  assert.deepEqual(parseQueue(null), []);
+  assert.deepEqual(parseQueue("{not json"), []);
+  assert.deepEqual(parseQueue(JSON.stringify([tracked(), { hash: 1 }])), [tracked()]);
+});
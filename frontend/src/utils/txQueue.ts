@@ -0,0 +1,163 @@
+/**
+ * Submitted-transaction bookkeeping. Every transaction the wallet accepts is
+ * recorded (label, hash, params, network) and persisted, so receipt tracking
+ * survives a reload. Pending entries are re-examined once per head; instead
+ * of a timeout, the sender's nonce tells a replaced transaction (its nonce was
+ * mined under another hash) from one the node has simply forgotten (dropped).
+ * Speed-ups and cancels are queued as their own entries on the same nonce;
+ * whichever gets mined decides the outcome of the others.
+ */
+
+export type TrackedState = "pending" | "confirmed" | "failed" | "replaced" | "dropped";
+
+/** Resubmissions on an existing nonce: same call with higher fees, or a no-op. */
+export type Replacement = "speedUp" | "cancel";
+
+export interface TrackedTx {
+  hash: string;
+  label: string;
+  networkId: string;
+  from: string;
+  /** What was sent; value in wei as a decimal string so it survives JSON. */
+  params: { to: string; value: string; data: string };
+  /** Expected outcome shown before signing. */
+  preview: string | null;
+  /** What it did once confirmed, from the receipt's events. */
+  outcome: string | null;
+  /** Set when this entry resubmits another one's nonce. */
+  replacement: Replacement | null;
+  state: TrackedState;
+  /** Sender nonce, learned from the node once it knows the hash. */
+  nonce: number | null;
+  /** Consecutive heads at which the node did not know the hash. */
+  unseenHeads: number;
+  /** Block the receipt was mined in (decimal string). */
+  blockNumber: string | null;
+  submittedAt: number;
+}
+
+/** What one head reveals about a pending transaction. */
+export interface TxObservation {
+  receipt: { status: bigint; blockNumber: bigint } | null;
+  /** Nonce of the transaction by hash; null when the node doesn't know it. */
+  nonce: number | null;
+  /** Transactions the sender has mined as of the head (the next unused nonce). */
+  minedNonce: number;
+}
+
+/** ~10 blocks unknown to the node: it never reached (or fell out of) the mempool. */
+export const DROP_AFTER_HEADS = 10;
+
+/** Entries kept across all networks; the oldest settled ones go first. */
+export const MAX_TRACKED = 25;
+
+export const isSettled = (tx: TrackedTx): boolean => tx.state !== "pending";
+
+/** Advance a pending entry by one head's observation. */
+export function nextTxState(tx: TrackedTx, seen: TxObservation): TrackedTx {
+  if (tx.state !== "pending") return tx;
+  if (seen.receipt) {
+    return {
+      ...tx,
+      state: seen.receipt.status === 1n ? "confirmed" : "failed",
+      blockNumber: seen.receipt.blockNumber.toString(),
+    };
+  }
+  const nonce = seen.nonce ?? tx.nonce;
+  // The nonce is used up but not by this hash: sped up, cancelled or
+  // otherwise replaced in the wallet.
+  if (nonce !== null && seen.minedNonce > nonce) return { ...tx, nonce, state: "replaced" };
+  if (seen.nonce !== null) return { ...tx, nonce, unseenHeads: 0 };
+  const unseenHeads = tx.unseenHeads + 1;
+  return { ...tx, unseenHeads, state: unseenHeads >= DROP_AFTER_HEADS ? "dropped" : "pending" };
+}
+
+/** Settled outcome as the user sees it, with the reason when it didn't go through. */
+export interface TxOutcome {
+  ok: boolean;
+  error: string | null;
+}
+
+/**
+ * Outcome of a settled entry. A replaced entry takes its result from the
+ * queued transaction that was mined on its nonce: a speed-up that confirms
+ * counts as the original confirming, a cancel that confirms does not.
+ */
+export function txOutcome(tx: TrackedTx, queue: readonly TrackedTx[]): TxOutcome {
+  if (tx.state === "confirmed") return { ok: true, error: null };
+  if (tx.state === "failed") return { ok: false, error: "Transaction reverted" };
+  if (tx.state === "dropped") {
+    return { ok: false, error: "Dropped by the network without being mined" };
+  }
+  if (tx.state === "pending") return { ok: false, error: null };
+
+  const mined = queue.find(
+    (other) =>
+      other.hash !== tx.hash &&
+      other.networkId === tx.networkId &&
+      other.from === tx.from &&
+      other.nonce === tx.nonce &&
+      (other.state === "confirmed" || other.state === "failed"),
+  );
+  if (!mined) {
+    return {
+      ok: false,
+      error: "Replaced in your wallet by another transaction with the same nonce",
+    };
+  }
+  const cancelled = (entry: TrackedTx) => entry.replacement === "cancel";
+  if (cancelled(mined) === cancelled(tx)) return txOutcome(mined, queue);
+  return cancelled(mined)
+    ? { ok: false, error: "Cancelled before it was mined" }
+    : { ok: false, error: "Too late to cancel - the transaction was mined first" };
+}
+
+/** Replacements must raise both fee caps; nodes reject bumps under 10%. */
+export const FEE_BUMP_PERCENT = 125n;
+
+export function bumpFees(fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }): {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+} {
+  const bump = (fee: bigint) => (fee * FEE_BUMP_PERCENT + 99n) / 100n;
+  return {
+    maxFeePerGas: bump(fees.maxFeePerGas),
+    maxPriorityFeePerGas: bump(fees.maxPriorityFeePerGas),
+  };
+}
+
+/** Newest first, capped at MAX_TRACKED; pending entries are never evicted. */
+export function pruneQueue(queue: readonly TrackedTx[]): TrackedTx[] {
+  const sorted = [...queue].sort((a, b) => b.submittedAt - a.submittedAt);
+  const pending = sorted.filter((tx) => !isSettled(tx)).length;
+  let settledRoom = Math.max(MAX_TRACKED - pending, 0);
+  return sorted.filter((tx) => !isSettled(tx) || settledRoom-- > 0);
+}
+
+const STATES: readonly TrackedState[] = ["pending", "confirmed", "failed", "replaced", "dropped"];
+
+function isTrackedTx(value: unknown): value is TrackedTx {
+  if (typeof value !== "object" || value === null) return false;
+  const tx = value as Partial<TrackedTx>;
+  return (
+    typeof tx.hash === "string" &&
+    typeof tx.label === "string" &&
+    typeof tx.networkId === "string" &&
+    typeof tx.from === "string" &&
+    typeof tx.params === "object" &&
+    tx.params !== null &&
+    STATES.includes(tx.state as TrackedState) &&
+    typeof tx.submittedAt === "number"
+  );
+}
+
+/** Parse the persisted queue, skipping entries a previous version wrote differently. */
+export function parseQueue(raw: string | null): TrackedTx[] {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isTrackedTx) : [];
+  } catch {
+    return [];
+  }
+}
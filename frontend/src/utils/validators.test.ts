@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { IndexedLog } from "./eventIndex.ts";
+import {
+  actionsFor,
+  buildValidatorList,
+  canTransition,
+  countByStatus,
+  filterValidators,
+  planTransition,
+  PUBKEY_BYTES,
+  isRegistered,
+  pubkeyError,
+  staleValidatorIds,
+} from "./validators.ts";
+
+const pubkey = (digit: string) => `0x${digit.repeat(64)}`;
+const log = (event: string, validatorId: number, blockNumber: bigint): IndexedLog => ({
+  event,
+  blockNumber,
+  logIndex: 0,
+  transactionHash: `0x${blockNumber}`,
+  values: { validatorId: String(validatorId) },
+});
+
+const validators = buildValidatorList(
+  [
+    { pubkey: pubkey("A"), status: 2n, activatedBlock: 20n, exitedBlock: 0n },
+    { pubkey: pubkey("b"), status: 5n, activatedBlock: 21n, exitedBlock: 0n },
+    { pubkey: pubkey("c"), status: 1n, activatedBlock: 0n, exitedBlock: 0n },
+  ],
+  [
+    log("ValidatorRegistered", 1, 10n),
+    log("ValidatorRegistered", 2, 11n),
+    log("ValidatorExitRequested", 2, 30n),
+    log("ValidatorSlashed", 2, 31n),
+    log("ValidatorRegistered", 3, 40n),
+    log("ValidatorActivated", 9, 50n), // not in the list (yet)
+  ],
+);
+
+test("records combine contract state with event blocks", () => {
+  assert.deepEqual(validators[1], {
+    id: 2n,
+    pubkey: pubkey("b"),
+    status: "slashed",
+    registeredBlock: 11n,
+    activatedBlock: 21n,
+    exitRequestedBlock: 30n,
+    exitedBlock: null,
+    slashedBlock: 31n,
+  });
+  assert.equal(validators[0].pubkey, pubkey("a"));
+  assert.equal(validators[2].activatedBlock, null);
+});
+
+test("only new ids and ids with recent lifecycle logs are re-read", () => {
+  const logs = [
+    log("ValidatorRegistered", 1, 10n),
+    log("ValidatorActivated", 2, 40n),
+    log("ValidatorExitRequested", 1, 55n),
+    log("ValidatorRegistered", 4, 60n),
+  ];
+  assert.deepEqual(staleValidatorIds(4, 3, 50n, logs), [1n, 4n]);
+  assert.deepEqual(staleValidatorIds(4, 4, 70n, logs), []);
+  // Nothing cached: every id; a log past the count is ignored.
+  assert.deepEqual(staleValidatorIds(3, 0, 0n, logs), [1n, 2n, 3n]);
+});
+
+test("filter by status and by pubkey or id", () => {
+  const ids = (list: { id: bigint }[]) => list.map((v) => v.id);
+  assert.deepEqual(ids(filterValidators(validators, "all", "")), [1n, 2n, 3n]);
+  assert.deepEqual(ids(filterValidators(validators, "pending", "")), [3n]);
+  assert.deepEqual(ids(filterValidators(validators, "all", "0xBBBB")), [2n]);
+  assert.deepEqual(ids(filterValidators(validators, "all", " 3 ")), [3n]);
+  assert.deepEqual(ids(filterValidators(validators, "active", "cccc")), []);
+  assert.equal(countByStatus(validators).slashed, 1);
+});
+
+test("transitions follow ValidatorManager's status rules", () => {
+  assert.deepEqual(actionsFor("pending"), ["activate"]);
+  assert.deepEqual(actionsFor("active"), ["requestExit", "markSlashed"]);
+  assert.deepEqual(actionsFor("exiting"), ["markExited", "markSlashed"]);
+  assert.deepEqual(actionsFor("exited"), []);
+  assert.deepEqual(actionsFor("slashed"), []);
+  assert.equal(canTransition("pending", "requestExit"), false);
+});
+
+test("planTransition keeps only the validators an action may move", () => {
+  const { ids, rejected } = planTransition(validators, "activate");
+  assert.deepEqual(ids, [3n]);
+  assert.deepEqual(
+    rejected.map((v) => v.id),
+    [1n, 2n],
+  );
+  assert.deepEqual(planTransition(validators, "markSlashed").ids, [1n]);
+});
+
+test("pubkeyError checks length, hex and duplicates", () => {
+  const fresh = `0x${"d".repeat(PUBKEY_BYTES * 2)}`;
+  assert.equal(pubkeyError(fresh, validators), null);
+  assert.match(pubkeyError("0x1234", validators) ?? "", /2592 bytes, not 2/);
+  assert.equal(pubkeyError(`0x${"z".repeat(10)}`, validators), "The pubkey must be hex");
+  const taken = `0x${"a".repeat(PUBKEY_BYTES * 2)}`;
+  assert.equal(
+    pubkeyError(taken, [{ ...validators[0], pubkey: taken }]),
+    "This pubkey is already registered",
+  );
+  const registered = [{ ...validators[0], pubkey: taken }];
+  assert.equal(isRegistered(taken.slice(2).toUpperCase(), registered), true);
+  assert.equal(isRegistered(fresh, validators), false);
+});
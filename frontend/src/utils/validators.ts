@@ -0,0 +1,226 @@
+/**
+ * Pool validators as ValidatorManager records them. The contract keeps the
+ * pubkey, status and activated/exited blocks per validator; the blocks it
+ * doesn't store (registration, exit request, slashing) come from its events.
+ * Kept free of MobX and web3 so it can be unit tested.
+ */
+
+import type { IndexedLog } from "./eventIndex.ts";
+
+/** ValidatorManager.ValidatorStatus, in enum order. */
+export const VALIDATOR_STATUSES = [
+  "none",
+  "pending",
+  "active",
+  "exiting",
+  "exited",
+  "slashed",
+] as const;
+export type ValidatorStatus = (typeof VALIDATOR_STATUSES)[number];
+
+export const VALIDATOR_STATUS_LABELS: Record<ValidatorStatus, string> = {
+  none: "Unknown",
+  pending: "Pending",
+  active: "Active",
+  exiting: "Exiting",
+  exited: "Exited",
+  slashed: "Slashed",
+};
+
+/** Every ValidatorManager event that marks a lifecycle step. */
+export const VALIDATOR_EVENTS = [
+  "ValidatorRegistered",
+  "ValidatorActivated",
+  "ValidatorExitRequested",
+  "ValidatorExited",
+  "ValidatorSlashed",
+] as const;
+
+export interface ValidatorRecord {
+  /** 1-based; 0 means "not registered" on-chain. */
+  id: bigint;
+  /** 0x-prefixed hex. */
+  pubkey: string;
+  status: ValidatorStatus;
+  registeredBlock: bigint | null;
+  activatedBlock: bigint | null;
+  exitRequestedBlock: bigint | null;
+  exitedBlock: bigint | null;
+  slashedBlock: bigint | null;
+}
+
+/** The getValidator() outputs a record starts from. */
+export interface ValidatorView {
+  pubkey: string;
+  status: bigint;
+  activatedBlock: bigint;
+  exitedBlock: bigint;
+}
+
+export const validatorStatus = (code: bigint): ValidatorStatus =>
+  VALIDATOR_STATUSES[Number(code)] ?? "none";
+
+/** The contract stores 0 for "not yet". */
+const blockOrNull = (block: bigint): bigint | null => (block === 0n ? null : block);
+
+/** One record per view (ids are the views' positions, from 1), with event blocks filled in. */
+export function buildValidatorList(
+  views: readonly ValidatorView[],
+  logs: readonly IndexedLog[],
+): ValidatorRecord[] {
+  const records = views.map(
+    (view, i): ValidatorRecord => ({
+      id: BigInt(i + 1),
+      pubkey: view.pubkey.toLowerCase(),
+      status: validatorStatus(view.status),
+      registeredBlock: null,
+      activatedBlock: blockOrNull(view.activatedBlock),
+      exitRequestedBlock: null,
+      exitedBlock: blockOrNull(view.exitedBlock),
+      slashedBlock: null,
+    }),
+  );
+  for (const log of logs) {
+    const record = records[Number(log.values.validatorId) - 1];
+    if (!record) continue;
+    switch (log.event) {
+      case "ValidatorRegistered":
+        record.registeredBlock = log.blockNumber;
+        break;
+      case "ValidatorActivated":
+        record.activatedBlock ??= log.blockNumber;
+        break;
+      case "ValidatorExitRequested":
+        record.exitRequestedBlock = log.blockNumber;
+        break;
+      case "ValidatorExited":
+        record.exitedBlock ??= log.blockNumber;
+        break;
+      case "ValidatorSlashed":
+        record.slashedBlock = log.blockNumber;
+        break;
+    }
+  }
+  return records;
+}
+
+/**
+ * Ids (1..`count`) whose getValidator() view may have changed since views
+ * for the first `cachedCount` ids were read: ids past the cache, and ids
+ * with a lifecycle log from `sinceBlock` on. Every status change emits one,
+ * and the pubkey never changes, so the other cached views still hold.
+ */
+export function staleValidatorIds(
+  count: number,
+  cachedCount: number,
+  sinceBlock: bigint,
+  logs: readonly IndexedLog[],
+): bigint[] {
+  const stale = new Set<number>();
+  for (let id = cachedCount + 1; id <= count; id += 1) stale.add(id);
+  for (const log of logs) {
+    const id = Number(log.values.validatorId);
+    if (log.blockNumber >= sinceBlock && id >= 1 && id <= count) stale.add(id);
+  }
+  return [...stale].sort((a, b) => a - b).map(BigInt);
+}
+
+/** Hex digits only, lowercased, for pubkey matching. */
+const normalizeHex = (value: string) => value.trim().toLowerCase().replace(/^0x/, "");
+
+/**
+ * Validators with `status` ("all" for any) whose pubkey contains `query`. A
+ * bare number also matches the validator id.
+ */
+export function filterValidators(
+  validators: readonly ValidatorRecord[],
+  status: ValidatorStatus | "all",
+  query: string,
+): ValidatorRecord[] {
+  const needle = normalizeHex(query);
+  const id = /^\d+$/.test(query.trim()) ? BigInt(query.trim()) : null;
+  return validators.filter(
+    (validator) =>
+      (status === "all" || validator.status === status) &&
+      (needle === "" ||
+        validator.id === id ||
+        normalizeHex(validator.pubkey).includes(needle)),
+  );
+}
+
+/** Validators per status, for the filter's counts. */
+export function countByStatus(
+  validators: readonly ValidatorRecord[],
+): Record<ValidatorStatus, number> {
+  const counts = Object.fromEntries(VALIDATOR_STATUSES.map((status) => [status, 0])) as Record<
+    ValidatorStatus,
+    number
+  >;
+  for (const validator of validators) counts[validator.status] += 1;
+  return counts;
+}
+
+/** ValidatorManager's owner-only status transitions. */
+export type ValidatorAction = "activate" | "requestExit" | "markExited" | "markSlashed";
+
+/**
+ * The statuses each transition starts from; ValidatorManager reverts with
+ * InvalidStatusTransition for any other.
+ */
+export const TRANSITIONS: Record<
+  ValidatorAction,
+  { from: readonly ValidatorStatus[]; to: ValidatorStatus }
+> = {
+  activate: { from: ["pending"], to: "active" },
+  requestExit: { from: ["active"], to: "exiting" },
+  markExited: { from: ["exiting"], to: "exited" },
+  markSlashed: { from: ["active", "exiting"], to: "slashed" },
+};
+
+export const canTransition = (status: ValidatorStatus, action: ValidatorAction): boolean =>
+  TRANSITIONS[action].from.includes(status);
+
+/** Transitions available from `status`, in lifecycle order. */
+export const actionsFor = (status: ValidatorStatus): ValidatorAction[] =>
+  (Object.keys(TRANSITIONS) as ValidatorAction[]).filter((action) =>
+    canTransition(status, action),
+  );
+
+/**
+ * Split a selection into the ids `action` may move and the validators it
+ * would revert for. batchActivateValidators skips non-pending ids silently,
+ * so activation is checked the same way rather than left to the contract.
+ */
+export function planTransition(
+  selected: readonly ValidatorRecord[],
+  action: ValidatorAction,
+): { ids: bigint[]; rejected: ValidatorRecord[] } {
+  const ids: bigint[] = [];
+  const rejected: ValidatorRecord[] = [];
+  for (const validator of selected) {
+    if (canTransition(validator.status, action)) ids.push(validator.id);
+    else rejected.push(validator);
+  }
+  return { ids, rejected };
+}
+
+/** ValidatorManager.PUBKEY_LENGTH: a Dilithium public key. */
+export const PUBKEY_BYTES = 2592;
+
+/** Whether ValidatorManager already holds `pubkey` (any case, with or without 0x). */
+export const isRegistered = (pubkey: string, validators: readonly ValidatorRecord[]): boolean =>
+  validators.some((validator) => normalizeHex(validator.pubkey) === normalizeHex(pubkey));
+
+/** Why `pubkey` can't be registered, or null when it can. */
+export function pubkeyError(
+  pubkey: string,
+  validators: readonly ValidatorRecord[],
+): string | null {
+  const hex = normalizeHex(pubkey);
+  if (!/^[0-9a-f]*$/.test(hex)) return "The pubkey must be hex";
+  if (hex.length !== PUBKEY_BYTES * 2) {
+    return `The pubkey must be ${PUBKEY_BYTES} bytes, not ${Math.floor(hex.length / 2)}`;
+  }
+  if (isRegistered(hex, validators)) return "This pubkey is already registered";
+  return null;
+}
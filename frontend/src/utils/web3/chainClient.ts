@@ -0,0 +1,446 @@
+import type { ContractAbi } from "@theqrl/web3";
+import type { ContractBindings } from "@/abi/bindings";
+import { DepositPoolV2ABI } from "@/abi/DepositPoolV2";
+import { StQRLV2ABI } from "@/abi/StQRLV2";
+import { ValidatorManagerABI } from "@/abi/ValidatorManager";
+import type { NetworkConfig } from "@/config/networks";
+import { hasDeployedCode, profileDeployment, type DeploymentProfile } from "@/utils/capabilities";
+import { createRevertDecoder, type AbiCoder } from "@/utils/contractErrors";
+import { EndpointPool } from "@/utils/endpointPool";
+import type { IndexedLog } from "@/utils/eventIndex";
+import { createReceiptDecoder, type LogCoder, type RawLog } from "@/utils/receiptLogs";
+import type { FeeMarket } from "@/utils/feeQuote";
+import type { HeadSubscriber } from "@/utils/headWatcher";
+import { RpcBatch, toBlockTag, type BatchTransport, type JsonRpcRequest } from "@/utils/rpcBatch";
+import { getQrlWeb3, type Web3Instance } from "@/utils/web3/web3Lazy";
+
+/**
+ * Typed views over `contract.methods`. The ABI JSON literals don't satisfy
+ * @theqrl/web3's method-signature inference (same limitation myqrlwallet
+ * works around), so we assert to the bindings generated from the same ABIs
+ * (`npm run codegen`, checked on every build).
+ */
+export interface ContractCall<R> {
+  /** Simulate with `qrl_call`; reverts reject with the node's error. */
+  call(options?: { from?: string; value?: bigint }, block?: "latest" | bigint): Promise<R>;
+  encodeABI(): string;
+}
+
+export type ContractName = keyof ContractBindings;
+
+type Reads<C extends ContractName> = ContractBindings[C]["reads"];
+type Writes<C extends ContractName> = ContractBindings[C]["writes"];
+type ArgsOf<F> = F extends { args: infer A extends unknown[] } ? A : never;
+type ReturnsOf<F> = F extends { returns: infer R } ? R : never;
+
+/** Names of the view functions a contract's ABI declares. */
+export type ViewFunction<C extends ContractName> = keyof Reads<C> & string;
+
+/** Write-side calls; reads go through BlockReader instead. */
+export type ContractMethods<C extends ContractName> = {
+  [M in keyof Writes<C>]: (
+    ...args: ArgsOf<Writes<C>[M]>
+  ) => ContractCall<ReturnsOf<Writes<C>[M]>>;
+};
+
+type EventsOf<C extends ContractName> = ContractBindings[C]["events"];
+
+/** Names of the events a contract's ABI declares. */
+export type ContractEvent<C extends ContractName> = keyof EventsOf<C> & string;
+
+export type PoolEvent = ContractEvent<"depositPool">;
+
+/** Minimal typed view over a contract instance for event queries. */
+export interface EventSource<C extends ContractName> {
+  getPastEvents<E extends keyof EventsOf<C>>(
+    event: E,
+    options: { filter?: Record<string, unknown>; fromBlock?: unknown; toBlock?: unknown },
+  ): Promise<PastEventLog<EventsOf<C>[E]>[]>;
+}
+
+export interface PastEventLog<V = Record<string, unknown>> {
+  blockNumber?: unknown;
+  logIndex?: unknown;
+  transactionHash?: string;
+  /** Decoded arguments; web3 also adds positional keys and `__length__`. */
+  returnValues?: V;
+}
+
+export interface Contracts {
+  pool: ContractMethods<"depositPool">;
+  token: ContractMethods<"stQRL">;
+  validators: ContractMethods<"validatorManager">;
+  events: { [C in ContractName]: EventSource<C> };
+}
+
+export const asBig = (value: unknown): bigint =>
+  typeof value === "bigint" ? value : BigInt(String(value ?? 0));
+
+/** Keep a log's named return values (web3 also adds positional keys). */
+function toIndexedLog(event: string, log: PastEventLog<unknown>): IndexedLog {
+  const values: Record<string, string> = {};
+  for (const [name, value] of Object.entries(log.returnValues ?? {})) {
+    if (name === "__length__" || /^\d+$/.test(name)) continue;
+    values[name] = String(value);
+  }
+  return {
+    event,
+    blockNumber: asBig(log.blockNumber),
+    logIndex: Number(log.logIndex ?? 0),
+    transactionHash: log.transactionHash ?? "",
+    values,
+  };
+}
+
+const CONTRACT_ABIS = {
+  depositPool: DepositPoolV2ABI,
+  stQRL: StQRLV2ABI,
+  validatorManager: ValidatorManagerABI,
+} as const satisfies Record<ContractName, readonly unknown[]>;
+
+interface AbiFunction {
+  type: string;
+  name?: string;
+  inputs?: readonly unknown[];
+  outputs?: readonly { name: string; type: string }[];
+}
+
+/**
+ * One-block snapshot of chain state. Every read queued before `flush()` is
+ * pinned to `blockNumber` and sent in a single JSON-RPC batch, so a refresh
+ * can never mix values from two different blocks.
+ */
+export class BlockReader {
+  private readonly batch: RpcBatch;
+  private readonly blockTag: string;
+
+  constructor(
+    private readonly web3: Web3Instance,
+    readonly network: NetworkConfig,
+    readonly blockNumber: bigint,
+    transport: BatchTransport,
+  ) {
+    this.batch = new RpcBatch(transport);
+    this.blockTag = toBlockTag(blockNumber);
+  }
+
+  /**
+   * Queue a view call. Single-output functions resolve to the bare value,
+   * multi-output ones to their named return values.
+   */
+  call<C extends ContractName, M extends ViewFunction<C>>(
+    contract: C,
+    method: M,
+    ...args: ArgsOf<Reads<C>[M]>
+  ): Promise<ReturnsOf<Reads<C>[M]>> {
+    const fragment = (CONTRACT_ABIS[contract] as readonly AbiFunction[]).find(
+      (item) => item.type === "function" && item.name === method,
+    );
+    if (!fragment) return Promise.reject(new Error(`${contract} has no ${method}()`));
+    const outputs = fragment.outputs ?? [];
+    const data = this.web3.qrl.abi.encodeFunctionCall(fragment as never, args as never);
+    return this.batch.add(
+      "qrl_call",
+      [{ to: this.network.contracts[contract], data }, this.blockTag],
+      (result) => {
+        const decoded = this.web3.qrl.abi.decodeParameters(
+          outputs as never,
+          String(result),
+        ) as Record<string, unknown>;
+        return (outputs.length === 1 ? decoded[0] : decoded) as ReturnsOf<Reads<C>[M]>;
+      },
+    );
+  }
+
+  /** Queue a native QRL balance read. */
+  balance(address: string): Promise<bigint> {
+    return this.batch.add("qrl_getBalance", [address, this.blockTag], asBig);
+  }
+
+  /** Queue a runtime bytecode read. */
+  code(address: string): Promise<string> {
+    return this.batch.add("qrl_getCode", [address, this.blockTag], String);
+  }
+
+  /** Queue the block's base fee and the node's suggested tip. */
+  async feeMarket(): Promise<FeeMarket> {
+    const [baseFeePerGas, maxPriorityFeePerGas] = await Promise.all([
+      this.batch.add("qrl_getBlockByNumber", [this.blockTag, false], (block) =>
+        asBig((block as { baseFeePerGas?: unknown } | null)?.baseFeePerGas),
+      ),
+      this.batch.add("qrl_maxPriorityFeePerGas", [], asBig),
+    ]);
+    return { baseFeePerGas, maxPriorityFeePerGas };
+  }
+
+  /** Queue the timestamp (unix seconds) of any block up to this one. */
+  blockTimestamp(blockNumber: bigint): Promise<number> {
+    return this.batch.add("qrl_getBlockByNumber", [toBlockTag(blockNumber), false], (block) =>
+      Number(asBig((block as { timestamp?: unknown } | null)?.timestamp)),
+    );
+  }
+
+  /** Queue the number of transactions `address` has mined (its next nonce). */
+  transactionCount(address: string): Promise<number> {
+    return this.batch.add("qrl_getTransactionCount", [address, this.blockTag], (result) =>
+      Number(asBig(result)),
+    );
+  }
+
+  /** Queue a transaction's nonce by hash; null when the node doesn't know it. */
+  transactionNonce(txHash: string): Promise<number | null> {
+    return this.batch.add("qrl_getTransactionByHash", [txHash], (result) =>
+      result ? Number(asBig((result as { nonce?: unknown }).nonce)) : null,
+    );
+  }
+
+  /** Queue a receipt lookup; null while the transaction is unmined. */
+  receipt(
+    txHash: string,
+  ): Promise<{ status: bigint; blockNumber: bigint; logs: RawLog[] } | null> {
+    return this.batch.add("qrl_getTransactionReceipt", [txHash], (result) => {
+      if (!result) return null;
+      const { status, blockNumber, logs } = result as {
+        status?: unknown;
+        blockNumber?: unknown;
+        logs?: RawLog[];
+      };
+      return { status: asBig(status), blockNumber: asBig(blockNumber), logs: logs ?? [] };
+    });
+  }
+
+  /** Send everything queued so far in one round trip. */
+  flush(): Promise<void> {
+    return this.batch.flush();
+  }
+}
+
+function readStoredProfile(key: string): DeploymentProfile | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as DeploymentProfile) : null;
+  } catch {
+    return null;
+  }
+}
+
+function storeProfile(key: string, profile: DeploymentProfile): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(profile));
+  } catch {
+    // Storage unavailable - the probe simply runs again next session.
+  }
+}
+
+/** A hung endpoint counts as a failure so requests can move on. */
+const RPC_TIMEOUT_MS = 10_000;
+
+async function postJson(url: string, body: unknown): Promise<unknown> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(RPC_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`RPC endpoint returned HTTP ${res.status}`);
+  return res.json();
+}
+
+/**
+ * Read-side connection to one network: a lazily constructed web3 instance on
+ * the network's RPC endpoints, the DepositPool contract for encoding writes
+ * and querying events (stQRL and ValidatorManager for their own events), and
+ * batched block snapshots for reads. Every request goes through the endpoint
+ * pool, so a degraded endpoint is skipped for the next healthy one. Shared by
+ * the stores so they never build duplicate clients.
+ */
+export class ChainClient {
+  readonly endpoints: EndpointPool;
+  private web3Instance: Web3Instance | null = null;
+  private contracts: Contracts | null = null;
+  private profile: Promise<DeploymentProfile> | null = null;
+  private revertDecoder: ((error: unknown) => Error | null) | null = null;
+  private receiptDecoder: ((logs: readonly RawLog[]) => IndexedLog[]) | null = null;
+
+  constructor(readonly network: NetworkConfig) {
+    this.endpoints = new EndpointPool(network.rpcUrls);
+  }
+
+  async getWeb3(): Promise<Web3Instance> {
+    if (!this.web3Instance) {
+      const { default: Web3 } = await getQrlWeb3();
+      // An EIP-1193 provider (async `request`) that web3 hands whole JSON-RPC
+      // payloads to; JSON-RPC errors in the reply are still web3's to raise.
+      const provider = {
+        request: async (payload: unknown) =>
+          this.endpoints.run((url) => postJson(url, payload)),
+      };
+      this.web3Instance = new Web3(provider as never);
+    }
+    return this.web3Instance;
+  }
+
+  async getContracts(): Promise<Contracts> {
+    if (!this.contracts) {
+      const web3 = await this.getWeb3();
+      const { contracts } = this.network;
+      const poolContract = new web3.qrl.Contract(
+        DepositPoolV2ABI as unknown as ContractAbi,
+        contracts.depositPool,
+      );
+      const tokenContract = new web3.qrl.Contract(
+        StQRLV2ABI as unknown as ContractAbi,
+        contracts.stQRL,
+      );
+      const validatorContract = new web3.qrl.Contract(
+        ValidatorManagerABI as unknown as ContractAbi,
+        contracts.validatorManager,
+      );
+      this.contracts = {
+        pool: poolContract.methods as unknown as ContractMethods<"depositPool">,
+        token: tokenContract.methods as unknown as ContractMethods<"stQRL">,
+        validators:
+          validatorContract.methods as unknown as ContractMethods<"validatorManager">,
+        events: {
+          depositPool: poolContract as unknown as EventSource<"depositPool">,
+          stQRL: tokenContract as unknown as EventSource<"stQRL">,
+          validatorManager: validatorContract as unknown as EventSource<"validatorManager">,
+        },
+      };
+    }
+    return this.contracts;
+  }
+
+  /**
+   * Which interface revision each contract implements. Probed from bytecode
+   * once per deployment and remembered across sessions (the contracts are
+   * not upgradeable, so the answer can't change for a given address set).
+   */
+  deployment(): Promise<DeploymentProfile> {
+    this.profile ??= this.probeDeployment().catch((error: unknown) => {
+      this.profile = null; // retry on the next refresh
+      throw error;
+    });
+    return this.profile;
+  }
+
+  private async probeDeployment(): Promise<DeploymentProfile> {
+    const { contracts } = this.network;
+    const storageKey = `quantapool:deployment:${this.network.id}:${Object.values(contracts).join(":")}`;
+    const saved = readStoredProfile(storageKey);
+    if (saved) return saved;
+
+    const reader = await this.snapshot();
+    const reads = Promise.all([
+      reader.code(contracts.depositPool),
+      reader.code(contracts.stQRL),
+      reader.code(contracts.validatorManager),
+    ]);
+    await reader.flush();
+    const [depositPool, stQRL, validatorManager] = await reads;
+    const bytecode = { depositPool, stQRL, validatorManager };
+    const web3 = await this.getWeb3();
+    const profile = profileDeployment(bytecode, (signature) =>
+      web3.qrl.abi.encodeFunctionSignature(signature),
+    );
+    // Don't pin a profile for addresses that have no code yet.
+    if (hasDeployedCode(bytecode)) storeProfile(storageKey, profile);
+    return profile;
+  }
+
+  /**
+   * The contract error behind a failed call, send or estimate, decoded from
+   * the revert data in `error`; null when it carries none.
+   */
+  async decodeRevert(error: unknown): Promise<Error | null> {
+    if (!this.revertDecoder) {
+      const web3 = await this.getWeb3();
+      this.revertDecoder = createRevertDecoder(web3.qrl.abi as unknown as AbiCoder);
+    }
+    return this.revertDecoder(error);
+  }
+
+  /** DepositPool events among a receipt's logs, decoded. */
+  async decodeReceiptLogs(logs: readonly RawLog[]): Promise<IndexedLog[]> {
+    if (!this.receiptDecoder) {
+      const web3 = await this.getWeb3();
+      this.receiptDecoder = createReceiptDecoder(
+        web3.qrl.abi as unknown as LogCoder,
+        this.network.contracts.depositPool,
+      );
+    }
+    return this.receiptDecoder(logs);
+  }
+
+  /** `contract`'s logs for `events` in an inclusive block range. */
+  async logs<C extends ContractName>(
+    contract: C,
+    events: readonly ContractEvent<C>[],
+    filter: Record<string, unknown>,
+    fromBlock: bigint,
+    toBlock: bigint,
+  ): Promise<IndexedLog[]> {
+    const source: EventSource<C> = (await this.getContracts()).events[contract];
+    const perEvent = await Promise.all(
+      events.map(async (event) => {
+        const logs = await source.getPastEvents(event, { filter, fromBlock, toBlock });
+        return logs.map((log) => toIndexedLog(event, log));
+      }),
+    );
+    return perEvent.flat();
+  }
+
+  async chainId(): Promise<bigint> {
+    const web3 = await this.getWeb3();
+    return asBig(await web3.qrl.getChainId());
+  }
+
+  async blockNumber(): Promise<bigint> {
+    const web3 = await this.getWeb3();
+    return asBig(await web3.qrl.getBlockNumber());
+  }
+
+  /**
+   * Pin a reader to `blockNumber`, or to the current head when omitted (one
+   * extra round trip).
+   */
+  async snapshot(blockNumber?: bigint): Promise<BlockReader> {
+    const web3 = await this.getWeb3();
+    const pinned = blockNumber ?? (await this.blockNumber());
+    return new BlockReader(web3, this.network, pinned, (payload) => this.sendBatch(payload));
+  }
+
+  /**
+   * Push source for new heads over the network's websocket endpoint, or
+   * undefined when none is configured (callers then poll).
+   */
+  get headSubscriber(): HeadSubscriber | undefined {
+    const { wsUrl } = this.network;
+    if (!wsUrl) return undefined;
+    return async (onHead, onError) => {
+      const { default: Web3 } = await getQrlWeb3();
+      const web3 = new Web3(new Web3.providers.WebsocketProvider(wsUrl));
+      const subscription = (await web3.qrl.subscribe("newHeads" as never)) as unknown as {
+        on(event: "data", handler: (header: { number?: unknown }) => void): void;
+        on(event: "error", handler: (error: unknown) => void): void;
+        unsubscribe(): Promise<unknown>;
+      };
+      subscription.on("data", (header) => onHead(asBig(header.number)));
+      subscription.on("error", onError);
+      return () => {
+        void subscription.unsubscribe().catch(() => undefined);
+        void web3.currentProvider?.disconnect?.();
+      };
+    };
+  }
+
+  private sendBatch(payload: JsonRpcRequest[]): Promise<unknown> {
+    return this.endpoints.run(async (url) => {
+      const reply = await postJson(url, payload);
+      if (Array.isArray(reply)) return reply;
+      // Proxies without batch support answer with a single error object -
+      // degrade to one request per call rather than failing the refresh.
+      return Promise.all(payload.map((request) => postJson(url, request)));
+    });
+  }
+}
@@ -4,10 +4,23 @@ interface ImportMetaEnv {
   readonly VITE_NETWORK?: string;
   readonly VITE_RPC_URL_TESTNET?: string;
   readonly VITE_RPC_URL_MAINNET?: string;
+  readonly VITE_WS_URL_TESTNET?: string;
+  readonly VITE_WS_URL_MAINNET?: string;
+  readonly VITE_BEACON_API_TESTNET?: string;
+  readonly VITE_BEACON_API_MAINNET?: string;
   readonly VITE_EXPLORER_URL?: string;
-  readonly VITE_DEPOSIT_POOL_ADDRESS?: string;
-  readonly VITE_STQRL_ADDRESS?: string;
-  readonly VITE_VALIDATOR_MANAGER_ADDRESS?: string;
+  readonly VITE_DEPOSIT_POOL_ADDRESS_TESTNET?: string;
+  readonly VITE_DEPOSIT_POOL_ADDRESS_MAINNET?: string;
+  readonly VITE_STQRL_ADDRESS_TESTNET?: string;
+  readonly VITE_STQRL_ADDRESS_MAINNET?: string;
+  readonly VITE_VALIDATOR_MANAGER_ADDRESS_TESTNET?: string;
+  readonly VITE_VALIDATOR_MANAGER_ADDRESS_MAINNET?: string;
+  readonly VITE_DEPOSIT_POOL_DEPLOY_BLOCK_TESTNET?: string;
+  readonly VITE_DEPOSIT_POOL_DEPLOY_BLOCK_MAINNET?: string;
+  readonly VITE_STQRL_DEPLOY_BLOCK_TESTNET?: string;
+  readonly VITE_STQRL_DEPLOY_BLOCK_MAINNET?: string;
+  readonly VITE_VALIDATOR_MANAGER_DEPLOY_BLOCK_TESTNET?: string;
+  readonly VITE_VALIDATOR_MANAGER_DEPLOY_BLOCK_MAINNET?: string;
 }
 
 interface ImportMeta {